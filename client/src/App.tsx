@@ -5,19 +5,25 @@ import { queryClient } from "./lib/queryClient";
 import { Toaster } from "./components/ui/toaster";
 import Dashboard from "./pages/Dashboard";
 import Reports from "./pages/Reports";
+import AuthPage from "./pages/AuthPage";
 import Navigation from "./components/Navigation";
 import TestApiCalls from "./components/TestApiCalls";
+import ProtectedRoute from "./components/ProtectedRoute";
+import { AuthProvider, useAuth } from "./hooks/use-auth";
 
 // Router component handles the main routing logic
 function Router() {
+  const { user } = useAuth();
+
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-900">
-      <Navigation />
+      {user && <Navigation />}
       <main className="container mx-auto px-4 py-4">
         <Switch>
-          <Route path="/" component={Dashboard} />
-          <Route path="/reports" component={Reports} />
-          <Route path="/test-api-calls" component={TestApiCalls} />
+          <Route path="/auth" component={AuthPage} />
+          <ProtectedRoute path="/" component={Dashboard} />
+          <ProtectedRoute path="/reports" component={Reports} />
+          <ProtectedRoute path="/test-api-calls" component={TestApiCalls} />
         </Switch>
       </main>
       <Toaster />
@@ -28,9 +34,11 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
+      <AuthProvider>
+        <Router />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -8,16 +8,32 @@ import {
   startOfWeek,
   endOfWeek,
   isSameDay,
-  parseISO,
   isWithinInterval,
 } from "date-fns";
 import { Card } from "./ui/card";
 import { Button } from "./ui/button";
-import { formatCurrency, getRecurringDates } from "../lib/utils";
+import {
+  formatCurrency, occurrenceOfRow, type Occurrence, type OccurrenceKind, type OccurrenceStatus
+} from "../lib/utils";
+import { useOccurrences } from "../hooks/use-occurrences";
+import { useForecast } from "../hooks/use-forecast";
+import { useHousehold } from "../hooks/use-household";
 import DaySummary from "./DaySummary";
-import type { Expense, Income } from "@shared/schema";
+import OccurrenceStatusIcon from "./transactions/OccurrenceStatusIcon";
+import SettleOccurrenceDialog from "./transactions/SettleOccurrenceDialog";
+import type { Expense, Income, Transaction } from "@shared/schema";
 import { TODAY } from "../pages/Dashboard";
 
+// An occurrence as drawn in a day cell, with what the ledger says about it
+type Shown<T> = T & { occurrence: Occurrence; status: OccurrenceStatus; settlement?: Transaction };
+
+interface SettledOccurrence {
+  kind: OccurrenceKind;
+  item: Expense | Income;
+  occurrence: Occurrence;
+  settlement?: Transaction;
+}
+
 interface DateRange {
   start: Date | null;
   end: Date | null;
@@ -46,6 +62,8 @@ export default function Calendar({
 }: CalendarProps) {
   const activeDate = date ?? dateRange?.start ?? TODAY;
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+  const { canEdit } = useHousehold();
+  const [settling, setSettling] = useState<SettledOccurrence | null>(null);
 
   const monthStart = startOfMonth(activeDate);
   const monthEnd = endOfMonth(activeDate);
@@ -72,42 +90,41 @@ export default function Calendar({
     return weeks;
   }, [monthStart, monthEnd]);
 
+  const occurrences = useOccurrences({ from: monthStart, to: monthEnd });
+  const { days: forecast } = useForecast(monthEnd);
+  // Projected days from today on whose balance falls below the household's threshold
+  const lowBalances = useMemo(() => {
+    const today = format(TODAY, "yyyy-MM-dd");
+    return new Map(forecast.filter((day) => day.low && day.date >= today).map((day) => [day.date, day.balance]));
+  }, [forecast]);
+
   const transactionsByDate = useMemo(() => {
-    const dateMap = new Map<string, { expenses: Expense[]; incomes: Income[] }>();
+    const dateMap = new Map<string, { expenses: Shown<Expense>[]; incomes: Shown<Income>[] }>();
     weeks.flat().forEach((day) => {
       dateMap.set(format(day, "yyyy-MM-dd"), { expenses: [], incomes: [] });
     });
 
-    incomes.forEach((income) => {
-      const incomeDate = typeof income.date === "string" ? parseISO(income.date) : income.date;
-      const recurringDates = getRecurringDates(incomeDate, income.frequency, endOfMonth(activeDate)).filter((d) =>
-        isWithinInterval(d, { start: startOfMonth(activeDate), end: endOfMonth(activeDate) })
-      );
-
-      recurringDates.forEach((date) => {
-        const key = format(date, "yyyy-MM-dd");
-        if (dateMap.has(key)) {
-          dateMap.get(key)!.incomes.push({ ...income, date: date.toISOString() });
-        }
-      });
-    });
-
-    expenses.forEach((expense) => {
-      const expenseDate = typeof expense.date === "string" ? parseISO(expense.date) : expense.date;
-      const recurringDates = getRecurringDates(expenseDate, expense.frequency, endOfMonth(activeDate)).filter((d) =>
-        isWithinInterval(d, { start: startOfMonth(activeDate), end: endOfMonth(activeDate) })
-      );
-
-      recurringDates.forEach((date) => {
-        const key = format(date, "yyyy-MM-dd");
-        if (dateMap.has(key)) {
-          dateMap.get(key)!.expenses.push({ ...expense, date: date.toISOString() });
-        }
-      });
+    occurrences.forEach((row) => {
+      const day = dateMap.get(row.date);
+      if (!day) return;
+      const shown = {
+        date: row.date,
+        amount: String(row.amount),
+        occurrence: occurrenceOfRow(row),
+        status: row.status,
+        settlement: row.settlement ?? undefined,
+      };
+      if (row.kind === "expense") {
+        const expense = expenses.find((candidate) => candidate.id === row.itemId);
+        if (expense) day.expenses.push({ ...expense, ...shown });
+      } else {
+        const income = incomes.find((candidate) => candidate.id === row.itemId);
+        if (income) day.incomes.push({ ...income, ...shown });
+      }
     });
 
     return dateMap;
-  }, [activeDate, expenses, incomes, weeks]);
+  }, [occurrences, expenses, incomes, weeks]);
 
   const handleClick = (day: Date) => {
     if (onDateChange) {
@@ -124,6 +141,26 @@ export default function Calendar({
     setSelectedDay(day);
   };
 
+  // Editors mark an occurrence paid or received straight from its cell without opening the day
+  const renderStatus = (kind: OccurrenceKind, shown: Shown<Expense> | Shown<Income>) => {
+    const icon = <OccurrenceStatusIcon kind={kind} status={shown.status} />;
+    const item = (kind === "expense" ? expenses : incomes).find((candidate) => candidate.id === shown.id);
+    if (!canEdit || !item) return icon;
+    return (
+      <span
+        role="button"
+        tabIndex={0}
+        className="inline-flex rounded-full hover:bg-background"
+        onClick={(e) => {
+          e.stopPropagation();
+          setSettling({ kind, item, occurrence: shown.occurrence, settlement: shown.settlement });
+        }}
+      >
+        {icon}
+      </span>
+    );
+  };
+
   return (
     <>
       <Card className={`p-6 ${className}`}>
@@ -142,6 +179,7 @@ export default function Calendar({
             const isInRange = dateRange?.start && dateRange?.end ? isWithinInterval(day, { start: dateRange.start, end: dateRange.end }) : false;
 
             const isSelected = isSameDay(day, date ?? dateRange?.start ?? TODAY);
+            const lowBalance = lowBalances.get(dateKey);
 
             return (
               <Button
@@ -149,7 +187,7 @@ export default function Calendar({
                 variant="ghost"
                 className={`h-auto min-h-[120px] p-3 text-left border-b border-r border-border flex flex-col items-start justify-start hover:bg-accent relative ${
                   isToday ? "bg-yellow-50" : ""
-                } ${isSelected ? "bg-accent" : ""} ${isInRange ? "bg-muted" : ""}`}
+                } ${isSelected ? "bg-accent" : ""} ${isInRange ? "bg-muted" : ""} ${lowBalance !== undefined ? "bg-red-50 dark:bg-red-950" : ""}`}
                 onClick={() => handleClick(day)}
               >
                 <div className={`flex items-center gap-2 mb-2 ${isToday ? "font-bold text-yellow-900" : ""}`}>
@@ -159,18 +197,30 @@ export default function Calendar({
 
                 <div className="w-full space-y-1">
                   {dayTransactions.incomes.map((income, idx) => (
-                    <div key={`${income.id}-${idx}`} className="text-green-500 text-sm font-medium flex justify-between items-center">
-                      <span className="truncate flex-1">{income.name}</span>
-                      <span>{formatCurrency(Number(income.amount))}</span>
+                    <div key={`${income.id}-${idx}`} className="text-green-500 text-sm font-medium flex justify-between items-center gap-1">
+                      {renderStatus("income", income)}
+                      <span className={`truncate flex-1 ${income.occurrence.override ? "italic" : ""}`} title={income.occurrence.override ? "Changed for this date only" : undefined}>
+                        {income.name}
+                      </span>
+                      <span>{formatCurrency(Number(income.settlement?.amount ?? income.amount))}</span>
                     </div>
                   ))}
                   {dayTransactions.expenses.map((expense, idx) => (
-                    <div key={`${expense.id}-${idx}`} className="text-red-500 text-sm font-medium flex justify-between items-center">
-                      <span className="truncate flex-1">{expense.name}</span>
-                      <span>{formatCurrency(Number(expense.amount))}</span>
+                    <div key={`${expense.id}-${idx}`} className="text-red-500 text-sm font-medium flex justify-between items-center gap-1">
+                      {renderStatus("expense", expense)}
+                      <span className={`truncate flex-1 ${expense.occurrence.override ? "italic" : ""}`} title={expense.occurrence.override ? "Changed for this date only" : undefined}>
+                        {expense.name}
+                      </span>
+                      <span>{formatCurrency(Number(expense.settlement?.amount ?? expense.amount))}</span>
                     </div>
                   ))}
                 </div>
+
+                {lowBalance !== undefined && (
+                  <div className="mt-auto pt-1 text-xs font-medium text-red-600" title="Projected balance is below your threshold">
+                    Balance {formatCurrency(lowBalance)}
+                  </div>
+                )}
               </Button>
             );
           })}
@@ -186,6 +236,17 @@ export default function Calendar({
           incomes={incomes}
         />
       )}
+
+      {settling && (
+        <SettleOccurrenceDialog
+          open={!!settling}
+          onClose={() => setSettling(null)}
+          kind={settling.kind}
+          item={settling.item}
+          occurrence={settling.occurrence}
+          settlement={settling.settlement}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -1,7 +1,15 @@
+import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
-import { formatCurrency, getRecurringDates } from "../lib/utils";
-import { startOfMonth, endOfMonth, isWithinInterval, isBefore, parseISO, format, isAfter, isSameDay, isValid } from "date-fns";
-import type { Expense, Income } from "@shared/schema";
+import OccurrenceEditDialog from "./transactions/OccurrenceEditDialog";
+import OccurrenceStatusIcon from "./transactions/OccurrenceStatusIcon";
+import SettleOccurrenceDialog from "./transactions/SettleOccurrenceDialog";
+import {
+  formatCurrency, occurrenceOfRow, type Occurrence, type OccurrenceKind, type OccurrenceStatus
+} from "../lib/utils";
+import { useHousehold } from "../hooks/use-household";
+import { useOccurrences } from "../hooks/use-occurrences";
+import { startOfMonth, endOfMonth, parseISO, format, isAfter, isSameDay } from "date-fns";
+import type { Expense, Income, Transaction } from "@shared/schema";
 
 interface DaySummaryProps {
   open: boolean;
@@ -11,6 +19,17 @@ interface DaySummaryProps {
   incomes: Income[];
 }
 
+// An item as it falls on one day, with the occurrence it came from and what the ledger says about it.
+// Settled items carry the amount actually paid or received.
+type Listed<T> = T & { occurrence: Occurrence; status: OccurrenceStatus; settlement?: Transaction };
+
+interface EditedOccurrence {
+  kind: OccurrenceKind;
+  item: Expense | Income;
+  occurrence: Occurrence;
+  settlement?: Transaction;
+}
+
 export default function DaySummary({
   open,
   onClose,
@@ -18,54 +37,33 @@ export default function DaySummary({
   expenses,
   incomes,
 }: DaySummaryProps) {
-  try {
-    const monthStart = startOfMonth(date);
-    const monthEnd = endOfMonth(date);
-    const interval = { start: monthStart, end: monthEnd };
-    const today = new Date();
+  const { canEdit } = useHousehold();
+  const [editing, setEditing] = useState<EditedOccurrence | null>(null);
+  const [settling, setSettling] = useState<EditedOccurrence | null>(null);
+  const rows = useOccurrences({ from: startOfMonth(date), to: endOfMonth(date) });
 
+  try {
     // Create a map of transactions by date
-    const transactionsByDate = new Map<string, { incomes: Income[], expenses: Expense[] }>();
+    const transactionsByDate = new Map<string, { incomes: Listed<Income>[], expenses: Listed<Expense>[] }>();
 
-    // Process all incomes
-    incomes.forEach(income => {
-      const incomeDate = typeof income.date === 'string' ? parseISO(income.date) : income.date;
-      if (!isValid(incomeDate)) {
-        console.error("Invalid income date:", income.date);
-        return;
+    rows.forEach(row => {
+      if (!transactionsByDate.has(row.date)) {
+        transactionsByDate.set(row.date, { incomes: [], expenses: [] });
       }
-
-      // Get recurring dates for this income within the current month
-      const recurringDates = getRecurringDates(incomeDate, income.frequency, monthEnd)
-        .filter(d => isWithinInterval(d, interval));
-
-      recurringDates.forEach(recDate => {
-        const dateKey = format(recDate, 'yyyy-MM-dd');
-        if (!transactionsByDate.has(dateKey)) {
-          transactionsByDate.set(dateKey, { incomes: [], expenses: [] });
-        }
-        transactionsByDate.get(dateKey)!.incomes.push({...income, date: format(recDate, 'yyyy-MM-dd')});
-      });
-    });
-
-    // Process all expenses
-    expenses.forEach(expense => {
-      const expenseDate = typeof expense.date === 'string' ? parseISO(expense.date) : expense.date;
-      if (!isValid(expenseDate)) {
-        console.error("Invalid expense date:", expense.date);
-        return;
+      const listed = {
+        date: row.date,
+        amount: row.settlement?.amount ?? String(row.amount),
+        occurrence: occurrenceOfRow(row),
+        status: row.status,
+        settlement: row.settlement ?? undefined,
+      };
+      if (row.kind === 'expense') {
+        const expense = expenses.find(candidate => candidate.id === row.itemId);
+        if (expense) transactionsByDate.get(row.date)!.expenses.push({ ...expense, ...listed });
+      } else {
+        const income = incomes.find(candidate => candidate.id === row.itemId);
+        if (income) transactionsByDate.get(row.date)!.incomes.push({ ...income, ...listed });
       }
-
-      const recurringDates = getRecurringDates(expenseDate, expense.frequency, monthEnd)
-        .filter(d => isWithinInterval(d, interval));
-
-      recurringDates.forEach(recDate => {
-        const dateKey = format(recDate, 'yyyy-MM-dd');
-        if (!transactionsByDate.has(dateKey)) {
-          transactionsByDate.set(dateKey, { incomes: [], expenses: [] });
-        }
-        transactionsByDate.get(dateKey)!.expenses.push({...expense, date: format(recDate, 'yyyy-MM-dd')});
-      });
     });
 
     // Get pending transactions (after selected date)
@@ -84,34 +82,35 @@ export default function DaySummary({
     );
     const clickedDayNetTotal = clickedDayIncomeTotal - clickedDayExpenseTotal;
 
-    // Calculate all totals
+    // Calculate all totals: settled amounts come from the ledger, everything else is still pending
     let totalIncurredIncomes = 0;
     let totalPendingIncomes = 0;
+    let totalOverdueIncomes = 0;
     let totalIncurredExpenses = 0;
     let totalPendingExpenses = 0;
+    let totalOverdueExpenses = 0;
 
     // Process each day's transactions
-    Array.from(transactionsByDate.entries()).forEach(([dateKey, transactions]) => {
-      const transactionDate = parseISO(dateKey);
-      const isPending = !isBefore(transactionDate, today);
-
+    Array.from(transactionsByDate.values()).forEach(transactions => {
       // Sum incomes
       transactions.incomes.forEach(income => {
         const amount = Number(income.amount);
-        if (isPending) {
-          totalPendingIncomes += amount;
-        } else {
+        if (income.status === 'paid') {
           totalIncurredIncomes += amount;
+        } else {
+          totalPendingIncomes += amount;
+          if (income.status === 'overdue') totalOverdueIncomes += amount;
         }
       });
 
       // Sum expenses
       transactions.expenses.forEach(expense => {
         const amount = Number(expense.amount);
-        if (isPending) {
-          totalPendingExpenses += amount;
-        } else {
+        if (expense.status === 'paid') {
           totalIncurredExpenses += amount;
+        } else {
+          totalPendingExpenses += amount;
+          if (expense.status === 'overdue') totalOverdueExpenses += amount;
         }
       });
     });
@@ -122,6 +121,41 @@ export default function DaySummary({
     // Keep track of sequence numbers
     let sequenceNumber = 1;
 
+    const seriesOf = (kind: OccurrenceKind, listed: Listed<Expense> | Listed<Income>) =>
+      (kind === 'expense' ? expenses : incomes).find(candidate => candidate.id === listed.id);
+
+    // Editors can open an occurrence to change it alone, from there on, or for the whole series
+    const renderName = (kind: OccurrenceKind, listed: Listed<Expense> | Listed<Income>) => {
+      const label = listed.occurrence.override ? <em title="Changed for this date only">{listed.name}</em> : listed.name;
+      const item = seriesOf(kind, listed);
+      if (!canEdit || !item) return label;
+      return (
+        <button
+          type="button"
+          className="text-left hover:underline"
+          onClick={() => setEditing({ kind, item, occurrence: listed.occurrence })}
+        >
+          {label}
+        </button>
+      );
+    };
+
+    // ...and mark it paid or received with the actual amount and date
+    const renderStatus = (kind: OccurrenceKind, listed: Listed<Expense> | Listed<Income>) => {
+      const icon = <OccurrenceStatusIcon kind={kind} status={listed.status} className="h-4 w-4" />;
+      const item = seriesOf(kind, listed);
+      if (!canEdit || !item) return icon;
+      return (
+        <button
+          type="button"
+          className="inline-flex items-center"
+          onClick={() => setSettling({ kind, item, occurrence: listed.occurrence, settlement: listed.settlement })}
+        >
+          {icon}
+        </button>
+      );
+    };
+
     return (
       <Dialog open={open} onOpenChange={onClose}>
         <DialogContent className="max-h-[85vh] overflow-y-auto">
@@ -139,9 +173,15 @@ export default function DaySummary({
               <div className="space-y-2">
                 <h3 className="font-semibold text-lg">Monthly Income</h3>
                 <div className="flex justify-between font-medium text-green-500">
-                  <span>Incurred Income</span>
+                  <span>Received Income</span>
                   <span>{formatCurrency(totalIncurredIncomes)}</span>
                 </div>
+                {totalOverdueIncomes > 0 && (
+                  <div className="flex justify-between font-medium text-orange-500">
+                    <span>Overdue Income</span>
+                    <span>{formatCurrency(totalOverdueIncomes)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between font-medium text-green-500/70">
                   <span>Pending Income</span>
                   <span>{formatCurrency(totalPendingIncomes)}</span>
@@ -156,9 +196,15 @@ export default function DaySummary({
               <div className="space-y-2">
                 <h3 className="font-semibold text-lg">Monthly Expenses</h3>
                 <div className="flex justify-between font-medium text-red-500">
-                  <span>Incurred Expenses</span>
+                  <span>Paid Expenses</span>
                   <span>{formatCurrency(totalIncurredExpenses)}</span>
                 </div>
+                {totalOverdueExpenses > 0 && (
+                  <div className="flex justify-between font-medium text-orange-500">
+                    <span>Overdue Expenses</span>
+                    <span>{formatCurrency(totalOverdueExpenses)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between font-medium text-red-500/70">
                   <span>Pending Expenses</span>
                   <span>{formatCurrency(totalPendingExpenses)}</span>
@@ -173,7 +219,7 @@ export default function DaySummary({
               <div className="space-y-2">
                 <h3 className="font-semibold text-lg">Monthly Balance</h3>
                 <div className="flex justify-between font-medium text-blue-500">
-                  <span>Incurred Balance</span>
+                  <span>Settled Balance</span>
                   <span>{formatCurrency(totalIncurredIncomes - totalIncurredExpenses)}</span>
                 </div>
                 <div className="flex justify-between font-medium text-blue-500/70">
@@ -199,7 +245,8 @@ export default function DaySummary({
                         <div key={`${income.id}-${idx}`} className="flex justify-between items-center text-sm">
                           <span className="text-green-500 flex gap-2">
                             <span className="text-muted-foreground font-mono w-6">{sequenceNumber++}.</span>
-                            {income.name}
+                            {renderStatus("income", income)}
+                            {renderName("income", income)}
                           </span>
                           <span className="font-medium text-green-500">{formatCurrency(Number(income.amount))}</span>
                         </div>
@@ -214,7 +261,8 @@ export default function DaySummary({
                         <div key={`${expense.id}-${idx}`} className="flex justify-between items-center text-sm">
                           <span className="text-red-500 flex gap-2">
                             <span className="text-muted-foreground font-mono w-6">{sequenceNumber++}.</span>
-                            {expense.name}
+                            {renderStatus("expense", expense)}
+                            {renderName("expense", expense)}
                           </span>
                           <span className="font-medium text-red-500">{formatCurrency(Number(expense.amount))}</span>
                         </div>
@@ -273,7 +321,8 @@ export default function DaySummary({
                               <div key={`${income.id}-${idx}`} className="flex justify-between items-center text-sm">
                                 <span className="text-green-500 flex gap-2">
                                   <span className="text-muted-foreground font-mono w-6">{sequenceNumber++}.</span>
-                                  {income.name}
+                                  {renderStatus("income", income)}
+                                  {renderName("income", income)}
                                 </span>
                                 <span className="font-medium text-green-500">{formatCurrency(Number(income.amount))}</span>
                               </div>
@@ -288,7 +337,8 @@ export default function DaySummary({
                               <div key={`${expense.id}-${idx}`} className="flex justify-between items-center text-sm">
                                 <span className="text-red-500 flex gap-2">
                                   <span className="text-muted-foreground font-mono w-6">{sequenceNumber++}.</span>
-                                  {expense.name}
+                                  {renderStatus("expense", expense)}
+                                  {renderName("expense", expense)}
                                 </span>
                                 <span className="font-medium text-red-500">{formatCurrency(Number(expense.amount))}</span>
                               </div>
@@ -324,6 +374,27 @@ export default function DaySummary({
               </div>
             )}
           </div>
+
+          {settling && (
+            <SettleOccurrenceDialog
+              open={!!settling}
+              onClose={() => setSettling(null)}
+              kind={settling.kind}
+              item={settling.item}
+              occurrence={settling.occurrence}
+              settlement={settling.settlement}
+            />
+          )}
+
+          {editing && (
+            <OccurrenceEditDialog
+              open={!!editing}
+              onClose={() => setEditing(null)}
+              kind={editing.kind}
+              item={editing.item}
+              occurrence={editing.occurrence}
+            />
+          )}
         </DialogContent>
       </Dialog>
     );
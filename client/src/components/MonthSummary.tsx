@@ -1,83 +1,41 @@
 import React from 'react';
 import { Card } from "./ui/card";
-import { formatCurrency, getRecurringDates } from "../lib/utils";
-import { startOfMonth, endOfMonth, isWithinInterval, isBefore, parseISO, format, isValid } from "date-fns";
-import type { Expense, Income } from "@shared/schema";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { formatCurrency } from "../lib/utils";
+import { useOccurrences } from "../hooks/use-occurrences";
+import { useEnvelopes } from "../hooks/use-envelopes";
+import { useSinkingFunds } from "../hooks/use-sinking-funds";
+import { format, isBefore, parseISO } from "date-fns";
+import { monthIntervalOf } from "@shared/months";
+import type { Category, Expense, Income } from "@shared/schema";
 
 interface MonthSummaryProps {
   date: Date;
   expenses: Expense[];
   incomes: Income[];
+  categories: Category[];
 }
 
-export default function MonthSummary({ date, expenses, incomes }: MonthSummaryProps) {
-  const monthStart = startOfMonth(date);
-  const monthEnd = endOfMonth(date);
-  const interval = { start: monthStart, end: monthEnd };
+export default function MonthSummary({ date, expenses, incomes, categories }: MonthSummaryProps) {
   const today = new Date();
+  const rows = useOccurrences(monthIntervalOf(date));
+  const envelopes = useEnvelopes(date);
+  const sinkingFunds = useSinkingFunds(date);
+  const categoryOf = (id: number) => categories.find((category) => category.id === id);
 
   // Create a map of transactions by date
   const monthTransactions = new Map<string, { incomes: Income[], expenses: Expense[] }>();
 
-  // Process all incomes
-  incomes.forEach(income => {
-    try {
-      // Provide default date if undefined
-      const incomeDate = income.date ? (typeof income.date === 'string' ? parseISO(income.date) : income.date) : new Date();
-      if (!isValid(incomeDate)) {
-        console.warn('Invalid income date. Skipping income:', income);
-        return; // Skip this income if the date is invalid
-      }
-
-      // Provide default frequency if undefined
-      const incomeFrequency = income.frequency || 'ONCE';
-      if (!income.frequency) {
-        console.warn('Frequency is undefined for income. Defaulting to "ONCE". Income:', income);
-      }
-
-      const recurringDates = getRecurringDates(incomeDate, incomeFrequency, monthEnd)
-        .filter(d => isWithinInterval(d, interval));
-
-      recurringDates.forEach(recDate => {
-        const dateKey = format(recDate, 'yyyy-MM-dd');
-        if (!monthTransactions.has(dateKey)) {
-          monthTransactions.set(dateKey, { incomes: [], expenses: [] });
-        }
-        monthTransactions.get(dateKey)!.incomes.push({ ...income, date: recDate.toISOString() });
-      });
-    } catch (error) {
-      console.error("Error processing income:", error);
+  rows.forEach(row => {
+    if (!monthTransactions.has(row.date)) {
+      monthTransactions.set(row.date, { incomes: [], expenses: [] });
     }
-  });
-
-  // Process all expenses
-  expenses.forEach(expense => {
-    try {
-      // Provide default date if undefined
-      const expenseDate = expense.date ? (typeof expense.date === 'string' ? parseISO(expense.date) : expense.date) : new Date();
-      if (!isValid(expenseDate)) {
-        console.warn('Invalid expense date. Skipping expense:', expense);
-        return; // Skip this expense if the date is invalid
-      }
-
-      // Provide default frequency if undefined
-      const expenseFrequency = expense.frequency || 'ONCE';
-      if (!expense.frequency) {
-        console.warn('Frequency is undefined for expense. Defaulting to "ONCE". Expense:', expense);
-      }
-
-      const recurringDates = getRecurringDates(expenseDate, expenseFrequency, monthEnd)
-        .filter(d => isWithinInterval(d, interval));
-
-      recurringDates.forEach(recDate => {
-        const dateKey = format(recDate, 'yyyy-MM-dd');
-        if (!monthTransactions.has(dateKey)) {
-          monthTransactions.set(dateKey, { incomes: [], expenses: [] });
-        }
-        monthTransactions.get(dateKey)!.expenses.push({ ...expense, date: recDate.toISOString() });
-      });
-    } catch (error) {
-      console.error("Error processing expense:", error);
+    if (row.kind === 'expense') {
+      const expense = expenses.find(candidate => candidate.id === row.itemId);
+      if (expense) monthTransactions.get(row.date)!.expenses.push({ ...expense, date: row.date, amount: String(row.amount) });
+    } else {
+      const income = incomes.find(candidate => candidate.id === row.itemId);
+      if (income) monthTransactions.get(row.date)!.incomes.push({ ...income, date: row.date, amount: String(row.amount) });
     }
   });
 
@@ -112,6 +70,8 @@ export default function MonthSummary({ date, expenses, incomes }: MonthSummaryPr
 
   const totalIncomes = totalIncurredIncomes + totalPendingIncomes;
   const totalExpenses = totalIncurredExpenses + totalPendingExpenses;
+  const totalEnvelopes = envelopes.reduce((sum, envelope) => sum + envelope.ending, 0);
+  const totalSetAside = sinkingFunds.reduce((sum, fund) => sum + fund.setAside, 0);
 
   return (
     <div className="flex gap-4 flex-1">
@@ -165,6 +125,97 @@ export default function MonthSummary({ date, expenses, incomes }: MonthSummaryPr
           </p>
         </div>
       </Card>
+
+      {envelopes.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Card className="py-1.5 px-3 flex-1 flex items-center justify-between cursor-pointer hover:bg-muted/50">
+              <div>
+                <h3 className="text-[11px] font-medium text-muted-foreground">Envelopes</h3>
+                <p className={`text-sm font-bold ${totalEnvelopes < 0 ? "text-red-500" : "text-emerald-600"}`}>
+                  {formatCurrency(totalEnvelopes)}
+                </p>
+              </div>
+              <div className="text-[10px] leading-tight text-right text-muted-foreground">
+                <p>{envelopes.length} {envelopes.length === 1 ? "category" : "categories"}</p>
+                <p>remaining</p>
+              </div>
+            </Card>
+          </PopoverTrigger>
+          <PopoverContent className="w-[28rem] p-0 bg-white dark:bg-gray-800" align="end">
+            <table className="w-full text-xs">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Category</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Starting</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Allocated</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Spent</th>
+                  <th className="text-right p-2 font-medium text-muted-foreground">Ending</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {envelopes.map((envelope) => {
+                  const category = categoryOf(envelope.budget.categoryId);
+                  return (
+                    <tr key={envelope.budget.id}>
+                      <td className="p-2 font-medium" style={{ color: category?.color }}>{category?.name ?? 'Category'}</td>
+                      <td className="p-2 text-right">{formatCurrency(envelope.starting)}</td>
+                      <td className="p-2 text-right">{formatCurrency(envelope.allocation)}</td>
+                      <td className="p-2 text-right text-red-500">{formatCurrency(envelope.spending)}</td>
+                      <td className={`p-2 text-right font-medium ${envelope.ending < 0 ? "text-red-600" : "text-emerald-600"}`}>
+                        {formatCurrency(envelope.ending)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </PopoverContent>
+        </Popover>
+      )}
+
+      {sinkingFunds.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Card className="py-1.5 px-3 flex-1 flex items-center justify-between cursor-pointer hover:bg-muted/50">
+              <div>
+                <h3 className="text-[11px] font-medium text-muted-foreground">Set Aside</h3>
+                <p className="text-sm font-bold text-purple-600">
+                  {formatCurrency(totalSetAside)}
+                </p>
+              </div>
+              <div className="text-[10px] leading-tight text-right text-muted-foreground">
+                <p>{sinkingFunds.length} sinking {sinkingFunds.length === 1 ? "fund" : "funds"}</p>
+                <p>this month</p>
+              </div>
+            </Card>
+          </PopoverTrigger>
+          <PopoverContent className="w-96 space-y-3 bg-white dark:bg-gray-800" align="end">
+            {sinkingFunds.map((fund) => (
+              <div key={fund.expense.id} className="space-y-1 text-xs">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium truncate">{fund.expense.name}</span>
+                  <span className="text-purple-600 whitespace-nowrap">{formatCurrency(fund.setAside)} / month</span>
+                </div>
+                <div className="flex items-end gap-0.5 h-8" aria-label="Fund balance by month">
+                  {fund.schedule.map((step) => (
+                    <div
+                      key={step.month}
+                      className={`flex-1 rounded-sm ${step.balance <= fund.balance ? "bg-purple-500" : "bg-purple-200 dark:bg-purple-900"}`}
+                      style={{ height: `${(step.balance / fund.dueAmount) * 100}%` }}
+                      title={`${format(parseISO(`${step.month}-01`), 'MMM yyyy')}: ${formatCurrency(step.balance)}`}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between text-muted-foreground">
+                  <span>{formatCurrency(fund.balance)} saved</span>
+                  <span>{formatCurrency(fund.dueAmount)} due {format(parseISO(fund.dueDate), 'MMM d, yyyy')}</span>
+                </div>
+              </div>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
     </div>
   );
 }
\ No newline at end of file
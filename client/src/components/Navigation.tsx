@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from "react";
 import { Link } from "wouter";
-import { Moon, Sun } from "lucide-react"; // Import dark/light mode icons
+import { Moon, Sun, LogOut, Users } from "lucide-react"; // Import dark/light mode icons
 import {
   NavigationMenu,
   NavigationMenuContent,
@@ -27,6 +27,8 @@ import {
   AlertDialogTitle,
 } from "./ui/alert-dialog";
 import { useToast } from "../hooks/use-toast";
+import { useAuth } from "../hooks/use-auth";
+import { useHousehold } from "../hooks/use-household";
 import { queryClient } from "../lib/queryClient";
 import { apiRequest, ApiRequestParams } from "../lib/queryClient";
 import ExpenseForm from "./transactions/ExpenseForm";
@@ -38,9 +40,17 @@ import IncomeDelete from "./transactions/IncomeDelete";
 import CategoryForm from "./categories/CategoryForm";
 import CategoryList from "./categories/CategoryList";
 import CategoryDelete from "./categories/CategoryDelete";
+import HouseholdDialog from "./households/HouseholdDialog";
 import type { Category, Expense, Income } from "@shared/schema";
+import type { RestoreDiff, RestoreResult, RestoreSelection } from "@shared/backup";
 import ExpenseReport from "./transactions/ExpenseReport";
-import { backupData, restoreData, validateBackupFile } from "../lib/dataSync";
+import { restoreData, validateBackupFile, previewMerge, mergeData, type BackupValidation } from "../lib/dataSync";
+import BackupDialog from "./backup/BackupDialog";
+import SnapshotsDialog from "./backup/SnapshotsDialog";
+import MergePreview, { defaultSelection } from "./backup/MergePreview";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Label } from "./ui/label";
+import { Input } from "./ui/input";
 import { format } from "date-fns";
 
 export default function Navigation() {
@@ -59,6 +69,9 @@ export default function Navigation() {
   const [editIncome, setEditIncome] = useState<Income | undefined>();
   const [deleteIncome, setDeleteIncome] = useState<Income | undefined>();
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
+  const { household, canEdit, isOwner } = useHousehold();
+  const [showHousehold, setShowHousehold] = useState(false);
 
   // Toggle dark mode
   const toggleDarkMode = () => {
@@ -110,32 +123,51 @@ export default function Navigation() {
     setShowIncomeList(false);
   };
 
-  const handleBackup = async () => {
+  const [showBackupDialog, setShowBackupDialog] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+
+  const [restorePreview, setRestorePreview] = useState<BackupValidation | null>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  // Passphrase of an encrypted backup, kept once it has unlocked the file
+  const [restorePassphrase, setRestorePassphrase] = useState<string | undefined>();
+  const [passphraseInput, setPassphraseInput] = useState('');
+  // Replacing wipes the household's data, so only owners get that choice
+  const [restoreMode, setRestoreMode] = useState<'replace' | 'merge'>('merge');
+  const [mergeDiff, setMergeDiff] = useState<RestoreDiff | null>(null);
+  const [mergeSelection, setMergeSelection] = useState<RestoreSelection | null>(null);
+
+  const loadMergePreview = async (file: File, passphrase?: string) => {
     try {
-      await backupData();
-      toast({
-        title: "Backup Successful",
-        description: "Your data has been successfully backed up.",
-      });
+      const diff = await previewMerge(file, passphrase);
+      setMergeDiff(diff);
+      setMergeSelection(defaultSelection(diff));
     } catch (error) {
       toast({
-        title: "Backup Failed",
-        description: "Failed to backup data. Please try again.",
+        title: "Preview Failed",
+        description: "Could not compare the backup with your current data.",
         variant: "destructive",
       });
     }
   };
 
-  const [restorePreview, setRestorePreview] = useState<{
-    isValid: boolean;
-    summary: {
-      expenses: number;
-      incomes: number;
-      categories: number;
-      timestamp: string;
-    };
-  } | null>(null);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const handleRestoreModeChange = (mode: 'replace' | 'merge') => {
+    setRestoreMode(mode);
+    if (mode === 'merge' && !mergeDiff && selectedFile) {
+      loadMergePreview(selectedFile, restorePassphrase);
+    }
+  };
+
+  const handleUnlockBackup = async () => {
+    if (!selectedFile) return;
+
+    const validation = await validateBackupFile(selectedFile, passphraseInput);
+    setRestorePreview(validation);
+    if (validation.isValid) {
+      setRestorePassphrase(passphraseInput);
+      setPassphraseInput('');
+      if (!isOwner) loadMergePreview(selectedFile, passphraseInput);
+    }
+  };
 
   const handleRestore = () => {
     // Create file input
@@ -151,6 +183,10 @@ export default function Navigation() {
         const validation = await validateBackupFile(file);
         setRestorePreview(validation);
         setSelectedFile(file);
+        setMergeDiff(null);
+        setMergeSelection(null);
+        setRestoreMode(isOwner ? 'replace' : 'merge');
+        if (!isOwner && validation.isValid) loadMergePreview(file);
       } catch (error) {
         toast({
           title: "Invalid Backup File",
@@ -167,13 +203,22 @@ export default function Navigation() {
     if (!selectedFile) return;
 
     try {
-      await restoreData(selectedFile);
+      let result: RestoreResult;
+      if (restoreMode === 'merge') {
+        if (!mergeSelection) return;
+        result = await mergeData(selectedFile, mergeSelection, restorePassphrase);
+      } else {
+        result = await restoreData(selectedFile, restorePassphrase);
+      }
+
+      const { inserted, updated, skipped, remapped } = result;
+      const total = (counts: typeof inserted) => counts.categories + counts.expenses + counts.incomes;
       toast({
         title: "Restore Successful",
-        description: "Your data has been successfully restored.",
+        description: `Added ${total(inserted)} and updated ${total(updated)} rows` +
+          ` (${total(skipped)} skipped, ${total(remapped)} IDs remapped).`,
       });
-      setRestorePreview(null);
-      setSelectedFile(null);
+      handleCancelRestore();
     } catch (error) {
       toast({
         title: "Restore Failed",
@@ -186,6 +231,10 @@ export default function Navigation() {
   const handleCancelRestore = () => {
     setRestorePreview(null);
     setSelectedFile(null);
+    setMergeDiff(null);
+    setMergeSelection(null);
+    setRestorePassphrase(undefined);
+    setPassphraseInput('');
   };
 
   const [showClearDataDialog, setShowClearDataDialog] = useState(false);
@@ -224,74 +273,79 @@ export default function Navigation() {
               </Link>
             </NavigationMenuItem>
 
-            <NavigationMenuItem className="relative">
-              <NavigationMenuTrigger onClick={(e) => e.preventDefault()}>Expenses</NavigationMenuTrigger>
-              <NavigationMenuContent className="absolute top-[calc(100%+0.5rem)] left-1/2 -translate-x-1/2 z-40 bg-white">
-                <div className="rounded-md border bg-popover p-4 shadow-md w-[200px] space-y-2">
-                  <Button
-                    onClick={() => setShowExpenseList(true)}
-                    className="w-full"
-                  >
-                    List/Edit/Delete
-                  </Button>
-                  <Button
-                    onClick={() => {
-                      setEditExpense(undefined);
-                      setShowExpenseForm(true);
-                    }}
-                    className="w-full"
-                  >
-                    Add
-                  </Button>
-                </div>
-              </NavigationMenuContent>
-            </NavigationMenuItem>
-
-            <NavigationMenuItem className="relative">
-              <NavigationMenuTrigger onClick={(e) => e.preventDefault()}>Income</NavigationMenuTrigger>
-              <NavigationMenuContent className="absolute top-[calc(100%+0.5rem)] left-1/2 -translate-x-1/2 z-40 bg-white">
-                <div className="rounded-md border bg-popover p-4 shadow-md w-[200px] space-y-2">
-                  <Button
-                    onClick={() => setShowIncomeList(true)}
-                    className="w-full"
-                  >
-                    List/Edit/Delete
-                  </Button>
-                  <Button
-                    onClick={() => {
-                      setEditIncome(undefined);
-                      setShowIncomeForm(true);
-                    }}
-                    className="w-full"
-                  >
-                    Add
-                  </Button>
-                </div>
-              </NavigationMenuContent>
-            </NavigationMenuItem>
-
-            <NavigationMenuItem className="relative">
-              <NavigationMenuTrigger onClick={(e) => e.preventDefault()}>Categories</NavigationMenuTrigger>
-              <NavigationMenuContent className="absolute top-[calc(100%+0.5rem)] left-1/2 -translate-x-1/2 z-40 bg-white">
-                <div className="rounded-md border bg-popover p-4 shadow-md w-[200px] space-y-2">
-                  <Button
-                    onClick={() => setShowCategoryList(true)}
-                    className="w-full"
-                  >
-                    List/Edit/Delete
-                  </Button>
-                  <Button
-                    onClick={() => {
-                      setEditCategory(undefined);
-                      setShowCategoryForm(true);
-                    }}
-                    className="w-full"
-                  >
-                    Add
-                  </Button>
-                </div>
-              </NavigationMenuContent>
-            </NavigationMenuItem>
+            {/* Viewers can browse reports but not change data */}
+            {canEdit && (
+              <>
+              <NavigationMenuItem className="relative">
+                <NavigationMenuTrigger onClick={(e) => e.preventDefault()}>Expenses</NavigationMenuTrigger>
+                <NavigationMenuContent className="absolute top-[calc(100%+0.5rem)] left-1/2 -translate-x-1/2 z-40 bg-white">
+                  <div className="rounded-md border bg-popover p-4 shadow-md w-[200px] space-y-2">
+                    <Button
+                      onClick={() => setShowExpenseList(true)}
+                      className="w-full"
+                    >
+                      List/Edit/Delete
+                    </Button>
+                    <Button
+                      onClick={() => {
+                        setEditExpense(undefined);
+                        setShowExpenseForm(true);
+                      }}
+                      className="w-full"
+                    >
+                      Add
+                    </Button>
+                  </div>
+                </NavigationMenuContent>
+              </NavigationMenuItem>
+
+              <NavigationMenuItem className="relative">
+                <NavigationMenuTrigger onClick={(e) => e.preventDefault()}>Income</NavigationMenuTrigger>
+                <NavigationMenuContent className="absolute top-[calc(100%+0.5rem)] left-1/2 -translate-x-1/2 z-40 bg-white">
+                  <div className="rounded-md border bg-popover p-4 shadow-md w-[200px] space-y-2">
+                    <Button
+                      onClick={() => setShowIncomeList(true)}
+                      className="w-full"
+                    >
+                      List/Edit/Delete
+                    </Button>
+                    <Button
+                      onClick={() => {
+                        setEditIncome(undefined);
+                        setShowIncomeForm(true);
+                      }}
+                      className="w-full"
+                    >
+                      Add
+                    </Button>
+                  </div>
+                </NavigationMenuContent>
+              </NavigationMenuItem>
+
+              <NavigationMenuItem className="relative">
+                <NavigationMenuTrigger onClick={(e) => e.preventDefault()}>Categories</NavigationMenuTrigger>
+                <NavigationMenuContent className="absolute top-[calc(100%+0.5rem)] left-1/2 -translate-x-1/2 z-40 bg-white">
+                  <div className="rounded-md border bg-popover p-4 shadow-md w-[200px] space-y-2">
+                    <Button
+                      onClick={() => setShowCategoryList(true)}
+                      className="w-full"
+                    >
+                      List/Edit/Delete
+                    </Button>
+                    <Button
+                      onClick={() => {
+                        setEditCategory(undefined);
+                        setShowCategoryForm(true);
+                      }}
+                      className="w-full"
+                    >
+                      Add
+                    </Button>
+                  </div>
+                </NavigationMenuContent>
+              </NavigationMenuItem>
+              </>
+            )}
 
             <NavigationMenuItem>
               <Link href="/reports">
@@ -304,29 +358,49 @@ export default function Navigation() {
               <NavigationMenuContent className="absolute top-[calc(100%+0.5rem)] left-1/2 -translate-x-1/2 z-40 bg-white">
                 <div className="rounded-md border bg-popover p-4 shadow-md w-[200px] space-y-2">
                   <Button
-                    onClick={handleBackup}
+                    onClick={() => setShowBackupDialog(true)}
                     className="w-full"
                   >
                     Backup
                   </Button>
+                  {canEdit && (
+                    <Button
+                      onClick={handleRestore}
+                      className="w-full"
+                    >
+                      Restore
+                    </Button>
+                  )}
                   <Button
-                    onClick={handleRestore}
+                    onClick={() => setShowSnapshots(true)}
                     className="w-full"
                   >
-                    Restore
+                    Snapshots
                   </Button>
                 </div>
               </NavigationMenuContent>
             </NavigationMenuItem>
-            <NavigationMenuItem>
-              <Button
-                variant="destructive"
-                className="text-sm"
-                onClick={() => setShowClearDataDialog(true)}
-              >
-                Clear Database
-              </Button>
-            </NavigationMenuItem>
+            {isOwner && (
+              <NavigationMenuItem>
+                <Button
+                  variant="destructive"
+                  className="text-sm"
+                  onClick={() => setShowClearDataDialog(true)}
+                >
+                  Clear Database
+                </Button>
+              </NavigationMenuItem>
+            )}
+
+            {/* Active household */}
+            {household && (
+              <NavigationMenuItem>
+                <Button variant="ghost" onClick={() => setShowHousehold(true)}>
+                  <Users className="h-5 w-5 mr-2" />
+                  {household.name}
+                </Button>
+              </NavigationMenuItem>
+            )}
 
             {/* Dark Mode Toggle Button */}
             <NavigationMenuItem>
@@ -339,6 +413,22 @@ export default function Navigation() {
                 {isDarkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
               </Button>
             </NavigationMenuItem>
+
+            {/* Current user and logout */}
+            {user && (
+              <NavigationMenuItem className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">{user.username}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => logoutMutation.mutate()}
+                  disabled={logoutMutation.isPending}
+                  aria-label="Log out"
+                >
+                  <LogOut className="h-5 w-5" />
+                </Button>
+              </NavigationMenuItem>
+            )}
           </NavigationMenuList>
         </NavigationMenu>
       </div>
@@ -437,34 +527,130 @@ export default function Navigation() {
         />
       )}
 
+      {showHousehold && (
+        <HouseholdDialog
+          open={showHousehold}
+          onClose={() => setShowHousehold(false)}
+        />
+      )}
+
+      {showBackupDialog && (
+        <BackupDialog
+          open={showBackupDialog}
+          onClose={() => setShowBackupDialog(false)}
+        />
+      )}
+
+      {showSnapshots && (
+        <SnapshotsDialog
+          open={showSnapshots}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+
       {restorePreview && (
         <Dialog open={!!restorePreview} onOpenChange={handleCancelRestore}>
-          <DialogContent>
+          <DialogContent className={restoreMode === 'merge' ? 'max-w-3xl' : undefined}>
             <DialogHeader>
               <DialogTitle>Restore Backup</DialogTitle>
             </DialogHeader>
             <div className="space-y-4">
-              <p className="text-sm text-muted-foreground">
-                Backup created on: {format(new Date(restorePreview.summary.timestamp), 'MMM dd, yyyy HH:mm')}
-              </p>
-              <div className="space-y-2">
-                <p>This backup contains:</p>
-                <ul className="list-disc list-inside space-y-1">
-                  <li>{restorePreview.summary.categories} categories</li>
-                  <li>{restorePreview.summary.expenses} expenses</li>
-                  <li>{restorePreview.summary.incomes} incomes</li>
-                </ul>
-              </div>
-              <p className="text-sm text-muted-foreground">
-                Are you sure you want to restore this backup? This will replace your current data.
-              </p>
+              {restorePreview.needsPassphrase ? (
+                <form
+                  className="space-y-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleUnlockBackup();
+                  }}
+                >
+                  <Label htmlFor="restore-passphrase">This backup is encrypted. Enter its passphrase:</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="restore-passphrase"
+                      type="password"
+                      autoComplete="off"
+                      value={passphraseInput}
+                      onChange={(e) => setPassphraseInput(e.target.value)}
+                    />
+                    <Button type="submit" disabled={!passphraseInput}>Unlock</Button>
+                  </div>
+                  {restorePreview.problems.map((problem, index) => (
+                    <p key={index} className="text-sm text-destructive">{problem}</p>
+                  ))}
+                </form>
+              ) : !restorePreview.isValid ? (
+                <div className="space-y-2">
+                  <p className="text-destructive">This backup cannot be restored:</p>
+                  <ul className="list-disc list-inside space-y-1 text-sm max-h-[40vh] overflow-y-auto">
+                    {restorePreview.problems.map((problem, index) => (
+                      <li key={index}>{problem}</li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Backup created on: {format(new Date(restorePreview.summary.timestamp), 'MMM dd, yyyy HH:mm')}
+                  </p>
+                  <div className="space-y-2">
+                    <p>This backup contains:</p>
+                    <ul className="list-disc list-inside space-y-1">
+                      <li>{restorePreview.summary.categories} categories</li>
+                      <li>{restorePreview.summary.expenses} expenses</li>
+                      <li>{restorePreview.summary.incomes} incomes</li>
+                    </ul>
+                  </div>
+                  {isOwner && (
+                    <RadioGroup
+                      value={restoreMode}
+                      onValueChange={(value) => handleRestoreModeChange(value as 'replace' | 'merge')}
+                      className="flex gap-6"
+                    >
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="replace" id="restore-replace" />
+                        <Label htmlFor="restore-replace">Replace</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="merge" id="restore-merge" />
+                        <Label htmlFor="restore-merge">Merge</Label>
+                      </div>
+                    </RadioGroup>
+                  )}
+                  {restoreMode === 'replace' ? (
+                    <p className="text-sm text-muted-foreground">
+                      Are you sure you want to restore this backup? This will replace your current data.
+                    </p>
+                  ) : mergeDiff && mergeSelection ? (
+                    <MergePreview
+                      diff={mergeDiff}
+                      selection={mergeSelection}
+                      onSelectionChange={setMergeSelection}
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Comparing with your current data...</p>
+                  )}
+                  {restorePreview.notes.length > 0 && (
+                    <div className="space-y-1">
+                      <p className="text-sm">Adjusted while upgrading this older backup:</p>
+                      <ul className="list-disc list-inside text-sm text-muted-foreground">
+                        {restorePreview.notes.map((note, index) => (
+                          <li key={index}>{note}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              )}
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={handleCancelRestore}>
                 Cancel
               </Button>
-              <Button onClick={handleConfirmRestore}>
-                Restore Backup
+              <Button
+                onClick={handleConfirmRestore}
+                disabled={!restorePreview.isValid || (restoreMode === 'merge' && !mergeSelection)}
+              >
+                {restoreMode === 'merge' ? 'Merge Selected' : 'Restore Backup'}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -476,9 +662,10 @@ export default function Navigation() {
           <AlertDialogHeader>
             <AlertDialogTitle>Clear All Data</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete all your data including expenses, incomes, and categories.
-              You can restore data later using a backup file, or manually add new data.
-              This action cannot be undone.
+              This will delete all your data including expenses, incomes, categories, accounts, goals,
+              debts, budgets and the recorded transactions. Household members and settings are kept.
+              A snapshot is taken first, so you can roll back from Data Sync &gt; Snapshots, restore
+              a backup file, or manually add new data.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
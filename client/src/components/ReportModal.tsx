@@ -1,12 +1,27 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
-import { formatCurrency, getRecurringDates } from "../lib/utils";
-import { isWithinInterval, format, parseISO, startOfMonth, endOfMonth, isSameMonth, isBefore, isValid } from "date-fns";
+import {
+  formatCurrency, occurrenceOfRow, type Occurrence, type OccurrenceKind, type OccurrenceStatus
+} from "../lib/utils";
+import { useOccurrences } from "../hooks/use-occurrences";
+import { useEnvelopes } from "../hooks/use-envelopes";
+import { useSinkingFunds } from "../hooks/use-sinking-funds";
+import { useHousehold } from "../hooks/use-household";
+import { statusLabel } from "./transactions/OccurrenceStatusIcon";
+import SettleOccurrenceDialog from "./transactions/SettleOccurrenceDialog";
+import { describeRecurrence, recurrenceOf, type RecurrenceRule } from "@shared/recurrence";
+import type { AmountSchedule } from "@shared/amountSchedule";
+import { localDateKey } from "@shared/occurrences";
+import { formatVariance, formatVariancePercent, reportVariance } from "@shared/reports";
+import { varianceColor } from "@shared/reportDocuments";
+import { ALL_ACCOUNTS } from "@shared/accounts";
+import { apiDownload } from "../lib/queryClient";
+import { downloadFile } from "../lib/dataSync";
+import { useToast } from "../hooks/use-toast";
+import { format, parseISO, startOfMonth, endOfMonth, isSameMonth, isValid } from "date-fns";
 import { Button } from "./ui/button";
 import { Download } from "lucide-react";
 import { Separator } from "./ui/separator";
-import jsPDF from "jspdf";
-import * as XLSX from "xlsx";
 
 // Define types locally since @shared/schema is not available
 type Category = {
@@ -24,6 +39,10 @@ type Expense = {
   amount: string;
   date: string;
   frequency: string;
+  recurrence?: RecurrenceRule | null;
+  endDate?: string | null;
+  occurrenceCount?: number | null;
+  amountSchedule?: AmountSchedule | null;
   categoryId: number;
   createdAt: string | null;
   updatedAt: string | null;
@@ -35,6 +54,10 @@ type Income = {
   amount: string;
   date: string;
   frequency: string;
+  recurrence?: RecurrenceRule | null;
+  endDate?: string | null;
+  occurrenceCount?: number | null;
+  amountSchedule?: AmountSchedule | null;
   createdAt: string | null;
   updatedAt: string | null;
 };
@@ -58,38 +81,42 @@ function ensureValidDate(date: Date | string | undefined): Date {
   }
 }
 
-// Helper function to convert hex to RGB
-const hexToRgb = (hex: string) => {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : { r: 0, g: 0, b: 0 };
-};
-
-type FilterType = "all-expenses" | "all-incomes" | "all-categories" | "single-expense" | "single-category";
+type FilterType = "all-expenses" | "all-incomes" | "all-categories" | "single-expense" | "single-category" | "variance";
 
 interface CategoryGroup {
   category: Category;
   expenses: ProcessedExpense[];
   totalAmount: number;
   incurredAmount: number;
+  overdueAmount: number;
   pendingAmount: number;
 }
 
+// Paid (or received) per the transactions ledger; isPending is anything not settled yet,
+// overdue or upcoming. Paid occurrences carry the amount actually paid.
+interface OccurrenceEntry {
+  date: Date;
+  status: OccurrenceStatus;
+  isPending: boolean;
+  amount: number;
+  planned: number;
+  occurrence: Occurrence;
+}
+
 interface ProcessedExpense extends Omit<Expense, 'amount'> {
   amount: number;
-  dates: { date: Date; isPending: boolean; amount: number }[];
+  dates: OccurrenceEntry[];
   incurredAmount: number;
+  overdueAmount: number;
   pendingAmount: number;
   totalAmount: number;
 }
 
 interface ProcessedIncome extends Omit<Income, 'amount'> {
   amount: number;
-  dates: { date: Date; isPending: boolean; amount: number }[];
+  dates: OccurrenceEntry[];
   incurredAmount: number;
+  overdueAmount: number;
   pendingAmount: number;
   totalAmount: number;
 }
@@ -106,61 +133,13 @@ interface ReportModalProps {
   selectedExpenseId?: string;
   selectedCategoryId?: string;
   isMonthlyBudget?: boolean;
+  // The account filter the expenses and incomes were narrowed by
+  account?: string;
 }
 
-const addTableHeader = (doc: jsPDF, headers: string[], y: number, options: {
-  bgColor?: string;
-  textColor?: string;
-} = {}): number => {
-  const { bgColor = '#f8fafc', textColor = '#0f172a' } = options;
-  const rgb = hexToRgb(bgColor);
-  doc.setFillColor(rgb.r, rgb.g, rgb.b);
-  doc.rect(15, y - 5, 180, 10, 'F');
-
-  doc.setFont("helvetica", "bold");
-  doc.setFontSize(10);
-  doc.setTextColor(textColor);
-
-  const colWidth = 180 / headers.length;
-  headers.forEach((header, index) => {
-    const x = 15 + (index * colWidth);
-    const align = index === 0 ? "left" : "right";
-    doc.text(header, align === "left" ? x + 2 : x + colWidth - 2, y, { align });
-  });
-
-  return y + 10;
-};
-
-const addTableRow = (doc: jsPDF, data: string[], y: number, options: {
-  isAlternate?: boolean;
-  color?: string;
-  isPending?: boolean;
-} = {}): number => {
-  const { isAlternate = false, color = "#334155", isPending = false } = options;
-
-  if (isAlternate) {
-    doc.setFillColor(250, 250, 250);
-    doc.rect(15, y - 5, 180, 8, 'F');
-  }
-
-  doc.setFont("helvetica", "normal");
-  doc.setFontSize(9);
-
-  // Set text color with opacity for pending entries
-  if (color) {
-    const rgb = hexToRgb(color);
-    doc.setTextColor(rgb.r, rgb.g, rgb.b, isPending ? 0.6 : 1); // 60% opacity for pending
-  }
-
-  const colWidth = 180 / data.length;
-  data.forEach((cell, index) => {
-    const x = 15 + (index * colWidth);
-    const align = index === 0 ? "left" : "right";
-    doc.text(cell, align === "left" ? x + 2 : x + colWidth - 2, y, { align });
-  });
-
-  return y + 8;
-};
+// Due date of an unsettled occurrence, flagging the ones past due
+const dueLabel = (entry: OccurrenceEntry) =>
+  `${format(entry.date, 'MMM dd')}${entry.status === 'overdue' ? ' (overdue)' : ''}`;
 
 export default function ReportModal({
   open,
@@ -174,38 +153,56 @@ export default function ReportModal({
   selectedExpenseId,
   selectedCategoryId,
   isMonthlyBudget = false,
+  account = ALL_ACCOUNTS,
 }: ReportModalProps) {
   const startDate = ensureValidDate(date);
   const endingDate = ensureValidDate(endDate);
   const isMonthlyView = isSameMonth(startDate, endingDate);
-  const generationDate = new Date();
+  const { canEdit } = useHousehold();
+  const { toast } = useToast();
+  const [recording, setRecording] = useState<{ expense: ProcessedExpense; entry: OccurrenceEntry } | null>(null);
 
   const interval = isMonthlyView
     ? { start: startOfMonth(startDate), end: endOfMonth(startDate) }
     : { start: startDate, end: endingDate };
+  const rows = useOccurrences({ from: interval.start, to: interval.end });
+  const allEnvelopes = useEnvelopes(startDate);
+  const allSinkingFunds = useSinkingFunds(startDate);
+
+  // One item's occurrences in the report period
+  const entriesOf = (kind: OccurrenceKind, id: number) => rows
+    .filter(row => row.kind === kind && row.itemId === id)
+    .map((row): OccurrenceEntry => {
+      const occurrence = occurrenceOfRow(row);
+      return {
+        date: occurrence.date,
+        status: row.status,
+        isPending: row.status !== "paid",
+        amount: row.settlement ? Number(row.settlement.amount) : row.amount,
+        planned: row.amount,
+        occurrence
+      };
+    });
 
   // Process incomes only for Monthly Budget and All Incomes report
   const processedIncomes = (isMonthlyBudget || filterType === "all-incomes") ? incomes.map(income => {
     try {
-      const incomeDate = ensureValidDate(income.date);
-      const dates = getRecurringDates(incomeDate, income.frequency, interval.end)
-        .filter(d => isWithinInterval(d, interval))
-        .map(d => ({
-          date: d,
-          isPending: !isBefore(d, generationDate),
-          amount: Number(income.amount)
-        }));
+      const dates = entriesOf("income", income.id);
 
-      const incurredAmount = dates.reduce((sum, date) => sum + (date.isPending ? 0 : date.amount), 0);
-      const pendingAmount = dates.reduce((sum, date) => sum + (date.isPending ? date.amount : 0), 0);
+      const amountWith = (status: OccurrenceStatus) =>
+        dates.reduce((sum, date) => sum + (date.status === status ? date.amount : 0), 0);
+      const incurredAmount = amountWith("paid");
+      const overdueAmount = amountWith("overdue");
+      const pendingAmount = amountWith("upcoming");
 
       return {
         ...income,
         amount: Number(income.amount),
         dates,
         incurredAmount,
+        overdueAmount,
         pendingAmount,
-        totalAmount: incurredAmount + pendingAmount
+        totalAmount: incurredAmount + overdueAmount + pendingAmount
       };
     } catch (error) {
       console.error("Error processing recurring income dates:", error);
@@ -214,6 +211,7 @@ export default function ReportModal({
         amount: Number(income.amount),
         dates: [],
         incurredAmount: 0,
+        overdueAmount: 0,
         pendingAmount: 0,
         totalAmount: 0
       };
@@ -233,25 +231,22 @@ export default function ReportModal({
     })
     .map(expense => {
       try {
-        const expenseDate = ensureValidDate(expense.date);
-        const dates = getRecurringDates(expenseDate, expense.frequency, interval.end)
-          .filter(d => isWithinInterval(d, interval))
-          .map(d => ({
-            date: d,
-            isPending: !isBefore(d, generationDate),
-            amount: Number(expense.amount)
-          }));
+        const dates = entriesOf("expense", expense.id);
 
-        const incurredAmount = dates.reduce((sum, date) => sum + (date.isPending ? 0 : date.amount), 0);
-        const pendingAmount = dates.reduce((sum, date) => sum + (date.isPending ? date.amount : 0), 0);
+        const amountWith = (status: OccurrenceStatus) =>
+          dates.reduce((sum, date) => sum + (date.status === status ? date.amount : 0), 0);
+        const incurredAmount = amountWith("paid");
+        const overdueAmount = amountWith("overdue");
+        const pendingAmount = amountWith("upcoming");
 
         return {
           ...expense,
           amount: Number(expense.amount),
           dates,
           incurredAmount,
+          overdueAmount,
           pendingAmount,
-          totalAmount: incurredAmount + pendingAmount
+          totalAmount: incurredAmount + overdueAmount + pendingAmount
         };
       } catch (error) {
         console.error("Error processing recurring expense dates:", error);
@@ -260,6 +255,7 @@ export default function ReportModal({
           amount: Number(expense.amount),
           dates: [],
           incurredAmount: 0,
+          overdueAmount: 0,
           pendingAmount: 0,
           totalAmount: 0
         };
@@ -268,12 +264,14 @@ export default function ReportModal({
 
   // Calculate totals
   const totalIncurredIncomes = processedIncomes.reduce((sum, inc) => sum + inc.incurredAmount, 0);
+  const totalOverdueIncomes = processedIncomes.reduce((sum, inc) => sum + inc.overdueAmount, 0);
   const totalPendingIncomes = processedIncomes.reduce((sum, inc) => sum + inc.pendingAmount, 0);
-  const totalIncomes = totalIncurredIncomes + totalPendingIncomes;
+  const totalIncomes = totalIncurredIncomes + totalOverdueIncomes + totalPendingIncomes;
 
   const totalIncurredExpenses = processedExpenses.reduce((sum, exp) => sum + exp.incurredAmount, 0);
+  const totalOverdueExpenses = processedExpenses.reduce((sum, exp) => sum + exp.overdueAmount, 0);
   const totalPendingExpenses = processedExpenses.reduce((sum, exp) => sum + exp.pendingAmount, 0);
-  const totalExpenses = totalIncurredExpenses + totalPendingExpenses;
+  const totalExpenses = totalIncurredExpenses + totalOverdueExpenses + totalPendingExpenses;
 
   // Get selected category for single category view
   const selectedCategoryDetails = filterType === "single-category"
@@ -286,6 +284,7 @@ export default function ReportModal({
       const categoryExpenses = expenses.filter(expense => expense.categoryId === category.id);
       const totalAmount = categoryExpenses.reduce((sum, exp) => sum + exp.totalAmount, 0);
       const incurredAmount = categoryExpenses.reduce((sum, exp) => sum + exp.incurredAmount, 0);
+      const overdueAmount = categoryExpenses.reduce((sum, exp) => sum + exp.overdueAmount, 0);
       const pendingAmount = categoryExpenses.reduce((sum, exp) => sum + exp.pendingAmount, 0);
 
       return {
@@ -293,6 +292,7 @@ export default function ReportModal({
         expenses: categoryExpenses,
         totalAmount,
         incurredAmount,
+        overdueAmount,
         pendingAmount
       };
     }).filter(group => group.expenses.length > 0)
@@ -303,6 +303,31 @@ export default function ReportModal({
     ? groupExpensesByCategory(processedExpenses, categories)
     : [];
 
+  // Envelope balances only make sense for a single month of category spending
+  const envelopes = isMonthlyView && filterType !== "all-incomes" && filterType !== "single-expense"
+    ? allEnvelopes
+      .filter(envelope => filterType !== "single-category" || String(envelope.budget.categoryId) === selectedCategoryId)
+      .map(envelope => ({ ...envelope, category: categories.find(category => category.id === envelope.budget.categoryId) }))
+    : [];
+  const envelopeHeaders = ["Category", "Starting", "Allocated", "Spent", "Ending"];
+
+  // What each sinking fund needs set aside this month, next to the lump sum it is saving for
+  const sinkingFunds = isMonthlyView && filterType !== "all-incomes"
+    ? allSinkingFunds.filter(fund => {
+      // The expenses passed in may be narrowed to one account
+      if (!expenses.some(expense => expense.id === fund.expense.id)) return false;
+      if (filterType === "single-expense") return String(fund.expense.id) === selectedExpenseId;
+      if (filterType === "single-category") return String(fund.expense.categoryId) === selectedCategoryId;
+      return true;
+    })
+    : [];
+  const sinkingFundHeaders = ["Expense", "Set Aside", "Fund Balance", "Due", "Due Date"];
+
+  // The occurrences of the items passed in, which may be narrowed to one account
+  const reportRows = rows.filter(row => (row.kind === "expense" ? expenses : incomes).some(item => item.id === row.itemId));
+
+  const variance = reportVariance(filterType === "variance" ? reportRows : []);
+
   // Get report title
   const getReportTitle = () => {
     if (isMonthlyBudget) {
@@ -323,425 +348,31 @@ export default function ReportModal({
       case "single-category": {
         return `Category Report - ${selectedCategoryDetails?.name || 'Unknown'}`;
       }
+      case "variance":
+        return "Planned vs Actual Report";
       default:
         return "Budget Report";
     }
   };
 
-  const handlePDFDownload = () => {
-    const doc = new jsPDF();
-    let y = 25;
-
-    // Title
-    doc.setFontSize(20);
-    doc.setFont("helvetica", "bold");
-    doc.setTextColor("#0f172a");
-    doc.text(getReportTitle(), 15, y);
-    y += 10;
-
-    // Subtitle with date range
-    doc.setFontSize(12);
-    doc.setFont("helvetica", "normal");
-    doc.setTextColor("#475569");
-    const dateRange = isMonthlyBudget
-      ? `${format(startOfMonth(startDate), 'MMMM dd, yyyy')} - ${format(endOfMonth(startDate), 'MMMM dd, yyyy')}`
-      : `${format(startDate, 'MMMM dd, yyyy')} - ${format(endingDate, 'MMMM dd, yyyy')}`;
-    doc.text(dateRange, 15, y);
-    y += 8;
-
-    // Generation date
-    doc.setFontSize(10);
-    doc.text(`Generated on ${format(new Date(), 'MMMM dd, yyyy')}`, 15, y);
-    y += 20;
-
-    // Summary Section
-    doc.setFillColor(241, 245, 249);
-    doc.rect(15, y - 5, 180, 10, 'F');
-    doc.setFont("helvetica", "bold");
-    doc.setFontSize(14);
-    doc.setTextColor("#0f172a");
-    doc.text("Summary", 15, y);
-    y += 15;
-
-    // Summary Table
-    const summaryHeaders = ["Category", "Total", "Occurred", "Pending"];
-    y = addTableHeader(doc, summaryHeaders, y);
-
-    if (isMonthlyBudget || filterType === "all-incomes") {
-      y = addTableRow(doc, [
-        "Income",
-        formatCurrency(totalIncomes),
-        formatCurrency(totalIncurredIncomes),
-        formatCurrency(totalPendingIncomes)
-      ], y, {
-        color: "#047857" // green color for income
-      });
-    }
-
-    y = addTableRow(doc, [
-      filterType === "single-category" ? selectedCategoryDetails?.name || "Expenses" : "Expenses",
-      formatCurrency(totalExpenses),
-      formatCurrency(totalIncurredExpenses),
-      formatCurrency(totalPendingExpenses)
-    ], y, {
-      color: filterType === "single-category" ? selectedCategoryDetails?.color : "#dc2626"
-    });
-
-    if (isMonthlyBudget || filterType === "all-incomes") {
-      y = addTableRow(doc, [
-        "Balance",
-        formatCurrency(totalIncomes - totalExpenses),
-        formatCurrency(totalIncurredIncomes - totalIncurredExpenses),
-        formatCurrency(totalPendingIncomes - totalPendingExpenses)
-      ], y, {
-        isAlternate: true,
-        color: "#2563eb"
-      });
-    }
-    y += 15;
-
-    // Current Transactions Section
-    if ((isMonthlyBudget || filterType === "all-incomes") && processedIncomes.some(income => income.dates.some(date => !date.isPending))) {
-      // Income Transactions
-      doc.setFillColor(240, 253, 244);
-      doc.rect(15, y - 5, 180, 10, 'F');
-      doc.setFont("helvetica", "bold");
-      doc.setFontSize(14);
-      doc.setTextColor("#047857");
-      doc.text("Received Income", 15, y);
-      y += 15;
-
-      const incomeHeaders = ["#", "Name", "Amount", "Date"];
-      y = addTableHeader(doc, incomeHeaders, y, {
-        bgColor: '#f0fdf4',
-        textColor: '#047857'
-      });
-
-      let alternate = true;
-      processedIncomes.forEach((income, index) => {
-        income.dates
-          .filter(date => !date.isPending)
-          .forEach((date, dateIndex) => {
-            if (y > 270) {
-              doc.addPage();
-              y = 20;
-              y = addTableHeader(doc, incomeHeaders, y, {
-                bgColor: '#f0fdf4',
-                textColor: '#047857'
-              });
-            }
-            y = addTableRow(doc, [
-              (dateIndex + 1).toString(),
-              income.name,
-              formatCurrency(date.amount),
-              format(date.date, 'MMM dd')
-            ], y, {
-              isAlternate: alternate,
-              color: "#047857"
-            });
-            alternate = !alternate;
-          });
-      });
-      y += 15;
-    }
-
-    // Expense Transactions
-    if (processedExpenses.some(expense => expense.dates.some(date => !date.isPending))) {
-      doc.setFillColor(254, 242, 242);
-      doc.rect(15, y - 5, 180, 10, 'F');
-      doc.setFont("helvetica", "bold");
-      doc.setFontSize(14);
-      doc.setTextColor("#dc2626");
-      doc.text("Paid Expenses", 15, y);
-      y += 15;
-
-      const expenseHeaders = ["#", "Name", "Amount", "Date"];
-      y = addTableHeader(doc, expenseHeaders, y, {
-        bgColor: '#fef2f2',
-        textColor: '#dc2626'
-      });
-
-      let alternate = true;
-      processedExpenses.forEach((expense, index) => {
-        expense.dates
-          .filter(date => !date.isPending)
-          .forEach((date, dateIndex) => {
-            if (y > 270) {
-              doc.addPage();
-              y = 20;
-              y = addTableHeader(doc, expenseHeaders, y, {
-                bgColor: '#fef2f2',
-                textColor: '#dc2626'
-              });
-            }
-            y = addTableRow(doc, [
-              (dateIndex + 1).toString(),
-              expense.name,
-              formatCurrency(date.amount),
-              format(date.date, 'MMM dd')
-            ], y, {
-              isAlternate: alternate,
-              color: filterType === "single-category" ? selectedCategoryDetails?.color : "#dc2626",
-              isPending: date.isPending
-            });
-            alternate = !alternate;
-          });
-      });
-      y += 15;
-    }
-
-    // Pending Transactions Section
-    if (y > 240) {
-      doc.addPage();
-      y = 20;
-    }
-
-    doc.setFillColor(241, 245, 249);
-    doc.rect(15, y - 5, 180, 10, 'F');
-    doc.setFont("helvetica", "bold");
-    doc.setFontSize(14);
-    doc.setTextColor("#0f172a");
-    doc.text("Pending Transactions", 15, y);
-    y += 15;
-
-    // Pending Income
-    if ((isMonthlyBudget || filterType === "all-incomes") && processedIncomes.some(income => income.dates.some(date => date.isPending))) {
-      doc.setFont("helvetica", "bold");
-      doc.setFontSize(12);
-      doc.setTextColor("#047857");
-      doc.text("Upcoming Income", 15, y);
-      y += 10;
-
-      const pendingIncomeHeaders = ["#", "Name", "Amount", "Due Date"];
-      y = addTableHeader(doc, pendingIncomeHeaders, y, {
-        bgColor: '#f0fdf4',
-        textColor: '#047857'
-      });
-
-      let alternate = true;
-      processedIncomes.forEach((income, index) => {
-        income.dates
-          .filter(date => date.isPending)
-          .forEach((date, dateIndex) => {
-            if (y > 270) {
-              doc.addPage();
-              y = 20;
-              y = addTableHeader(doc, pendingIncomeHeaders, y, {
-                bgColor: '#f0fdf4',
-                textColor: '#047857'
-              });
-            }
-            y = addTableRow(doc, [
-              (dateIndex + 1).toString(),
-              income.name,
-              formatCurrency(date.amount),
-              format(date.date, 'MMM dd')
-            ], y, {
-              isAlternate: alternate,
-              color: "#047857",
-              isPending: true
-            });
-            alternate = !alternate;
-          });
-      });
-      y += 15;
-    }
-
-    // Pending Expenses
-    if (processedExpenses.some(expense => expense.dates.some(date => date.isPending))) {
-      doc.setFont("helvetica", "bold");
-      doc.setFontSize(12);
-      doc.setTextColor("#dc2626");
-      doc.text("Upcoming Expenses", 15, y);
-      y += 10;
-
-      const pendingExpenseHeaders = ["#", "Name", "Amount", "Due Date"];
-      y = addTableHeader(doc, pendingExpenseHeaders, y, {
-        bgColor: '#fef2f2',
-        textColor: '#dc2626'
-      });
-
-      let alternate = true;
-      processedExpenses.forEach((expense, index) => {
-        expense.dates
-          .filter(date => date.isPending)
-          .forEach((date, dateIndex) => {
-            if (y > 270) {
-              doc.addPage();
-              y = 20;
-              y = addTableHeader(doc, pendingExpenseHeaders, y, {
-                bgColor: '#fef2f2',
-                textColor: '#dc2626'
-              });
-            }
-            y = addTableRow(doc, [
-              (dateIndex + 1).toString(),
-              expense.name,
-              formatCurrency(date.amount),
-              format(date.date, 'MMM dd')
-            ], y, {
-              isAlternate: alternate,
-              color: filterType === "single-category" ? selectedCategoryDetails?.color : "#dc2626",
-              isPending: true
-            });
-            alternate = !alternate;
-          });
-      });
-    }
-
-    // Save the PDF
-    const fileName = isMonthlyBudget ? 'monthly-budget' :
-      filterType === "all-categories" ? 'category-report' :
-        filterType === "single-category" ? `category-${selectedCategoryDetails?.name.toLowerCase() || 'unknown'}-report` :
-          filterType === "all-incomes" ? 'income-report' : 'expense-report';
-
-    doc.save(`${fileName}-${format(startDate, 'yyyy-MM-dd')}.pdf`);
-  };
+  // The server renders the downloads, so they match what /api/reports/:type.pdf and .xlsx give scripts
+  const handleDownload = async (extension: "pdf" | "xlsx") => {
+    const type = isMonthlyBudget ? "monthly-budget" : filterType;
+    const params = new URLSearchParams({ from: localDateKey(interval.start), to: localDateKey(interval.end) });
+    if (filterType === "single-expense" && selectedExpenseId) params.set("expenseId", selectedExpenseId);
+    if (filterType === "single-category" && selectedCategoryId) params.set("categoryId", selectedCategoryId);
+    if (account !== ALL_ACCOUNTS) params.set("accountId", account);
 
-  const handleExcelDownload = () => {
-    const wsData = [
-      [getReportTitle()],
-      [isMonthlyBudget
-        ? `${format(startOfMonth(startDate), 'MMMM dd, yyyy')} - ${format(endOfMonth(startDate), 'MMMM dd, yyyy')}`
-        : `${format(startDate, 'MMMM dd, yyyy')} - ${format(endingDate, 'MMMM dd, yyyy')}`
-      ],
-      [`Generated on: ${format(new Date(), 'MMMM dd, yyyy')}`],
-      [],
-      ["Summary"],
-      ["Category", "Total", "Occurred", "Pending"]
-    ];
-
-    if (isMonthlyBudget || filterType === "all-incomes") {
-      wsData.push([
-        "Income",
-        formatCurrency(totalIncomes),
-        formatCurrency(totalIncurredIncomes),
-        formatCurrency(totalPendingIncomes)
-      ]);
-    }
-
-    wsData.push([
-      filterType === "single-category" ? selectedCategoryDetails?.name || "Expenses" : "Expenses",
-      formatCurrency(totalExpenses),
-      formatCurrency(totalIncurredExpenses),
-      formatCurrency(totalPendingExpenses)
-    ]);
-
-    if (isMonthlyBudget || filterType === "all-incomes") {
-      wsData.push([
-        "Balance",
-        formatCurrency(totalIncomes - totalExpenses),
-        formatCurrency(totalIncurredIncomes - totalIncurredExpenses),
-        formatCurrency(totalPendingIncomes - totalPendingExpenses)
-      ]);
-    }
-
-    wsData.push([]);
-
-    // Add Current Transactions section
-    if ((isMonthlyBudget || filterType === "all-incomes") && processedIncomes.some(income => income.dates.some(date => !date.isPending))) {
-      wsData.push(
-        ["Current Transactions"],
-        ["Received Income"],
-        ["#", "Name", "Amount", "Date"]
-      );
-
-      processedIncomes.forEach((income, index) => {
-        income.dates
-          .filter(date => !date.isPending)
-          .forEach((date, dateIndex) => {
-            wsData.push([
-              (dateIndex + 1).toString(),
-              income.name,
-              formatCurrency(date.amount),
-              format(date.date, 'MMM dd')
-            ]);
-          });
-      });
-      wsData.push([]);
-    }
-
-    if (processedExpenses.some(expense => expense.dates.some(date => !date.isPending))) {
-      wsData.push(
-        ["Paid Expenses"],
-        ["#", "Name", "Amount", "Date"]
-      );
-
-      processedExpenses.forEach((expense, index) => {
-        expense.dates
-          .filter(date => !date.isPending)
-          .forEach((date, dateIndex) => {
-            wsData.push([
-              (dateIndex + 1).toString(),
-              expense.name,
-              formatCurrency(date.amount),
-              format(date.date, 'MMM dd')
-            ]);
-          });
-      });
-      wsData.push([]);
-    }
-
-    // Add Pending Transactions section
-    wsData.push(["Pending Transactions"]);
-
-    if ((isMonthlyBudget || filterType === "all-incomes") && processedIncomes.some(income => income.dates.some(date => date.isPending))) {
-      wsData.push(
-        ["Upcoming Income"],
-        ["#", "Name", "Amount", "Due Date"]
-      );
-
-      processedIncomes.forEach((income, index) => {
-        income.dates
-          .filter(date => date.isPending)
-          .forEach((date, dateIndex) => {
-            wsData.push([
-              (dateIndex + 1).toString(),
-              income.name,
-              formatCurrency(date.amount),
-              format(date.date, 'MMM dd')
-            ]);
-          });
-      });
-      wsData.push([]);
-    }
-
-    if (processedExpenses.some(expense => expense.dates.some(date => date.isPending))) {
-      wsData.push(
-        ["Upcoming Expenses"],
-        ["#", "Name", "Amount", "Due Date"]
-      );
-
-      processedExpenses.forEach((expense, index) => {
-        expense.dates
-          .filter(date => date.isPending)
-          .forEach((date, dateIndex) => {
-            wsData.push([
-              (dateIndex + 1).toString(),
-              expense.name,
-              formatCurrency(date.amount),
-              format(date.date, 'MMM dd')
-            ]);
-          });
+    try {
+      const { blob, fileName } = await apiDownload(`/api/reports/${type}.${extension}?${params}`);
+      downloadFile(blob, fileName ?? `${type}.${extension}`);
+    } catch (error) {
+      toast({
+        title: "Download Failed",
+        description: "Failed to download the report. Please try again.",
+        variant: "destructive",
       });
     }
-
-    const ws = XLSX.utils.aoa_to_sheet(wsData);
-    ws['!cols'] = [
-      { wch: 5 },  // #
-      { wch: 30 }, // Name
-      { wch: 15 }, // Amount
-      { wch: 15 }  // Date
-    ];
-
-    const wb = XLSX.utils.book_new();
-    const fileName = isMonthlyBudget ? 'Monthly Budget' :
-      filterType === "all-categories" ? 'Category Report' :
-        filterType === "single-category" ? `Category - ${selectedCategoryDetails?.name || 'Unknown'}` :
-          filterType === "all-incomes" ? 'Income Report' : 'Expense Report';
-
-    XLSX.utils.book_append_sheet(wb, ws, fileName);
-    XLSX.writeFile(wb, `${fileName.toLowerCase().replace(/\s+/g, '-')}-${format(startDate, 'yyyy-MM-dd')}.xlsx`);
   };
 
   return (
@@ -762,11 +393,11 @@ export default function ReportModal({
               </div>
             </div>
             <div className="flex gap-2">
-              <Button onClick={handlePDFDownload} variant="outline" size="sm">
+              <Button onClick={() => handleDownload("pdf")} variant="outline" size="sm">
                 <Download className="mr-2 h-4 w-4" />
                 PDF Report
               </Button>
-              <Button onClick={handleExcelDownload} variant="outline" size="sm">
+              <Button onClick={() => handleDownload("xlsx")} variant="outline" size="sm">
                 <Download className="mr-2 h-4 w-4" />
                 Excel Report
               </Button>
@@ -784,8 +415,9 @@ export default function ReportModal({
                     <tr>
                       <th className="text-left p-2 font-medium text-muted-foreground">Category</th>
                       <th className="text-right p-2 font-medium text-muted-foreground">Total</th>
-                      <th className="text-right p-2 font-medium text-muted-foreground">Occurred</th>
-                      <th className="text-right p-2 font-medium text-muted-foreground">Pending</th>
+                      <th className="text-right p-2 font-medium text-muted-foreground">Paid</th>
+                      <th className="text-right p-2 font-medium text-muted-foreground">Overdue</th>
+                      <th className="text-right p-2 font-medium text-muted-foreground">Upcoming</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y">
@@ -794,6 +426,7 @@ export default function ReportModal({
                         <td className="p-2 font-medium text-green-600">Income</td>
                         <td className="p-2 text-right text-green-600">{formatCurrency(totalIncomes)}</td>
                         <td className="p-2 text-right text-green-600">{formatCurrency(totalIncurredIncomes)}</td>
+                        <td className="p-2 text-right text-orange-500">{formatCurrency(totalOverdueIncomes)}</td>
                         <td className="p-2 text-right text-green-600/70">{formatCurrency(totalPendingIncomes)}</td>
                       </tr>
                     )}
@@ -807,6 +440,9 @@ export default function ReportModal({
                       <td className="p-2 text-right" style={{ color: filterType === "single-category" ? selectedCategoryDetails?.color : '#dc2626' }}>
                         {formatCurrency(totalIncurredExpenses)}
                       </td>
+                      <td className="p-2 text-right text-orange-500">
+                        {formatCurrency(totalOverdueExpenses)}
+                      </td>
                       <td className="p-2 text-right" style={{ color: filterType === "single-category" ? `${selectedCategoryDetails?.color}B3` : '#dc2626B3' }}>
                         {formatCurrency(totalPendingExpenses)}
                       </td>
@@ -816,6 +452,7 @@ export default function ReportModal({
                         <td className="p-2 font-medium text-left text-blue-600">Balance</td>
                         <td className="p-2 text-right text-blue-600">{formatCurrency(totalIncomes - totalExpenses)}</td>
                         <td className="p-2 text-right text-blue-600">{formatCurrency(totalIncurredIncomes - totalIncurredExpenses)}</td>
+                        <td className="p-2 text-right text-orange-500">{formatCurrency(totalOverdueIncomes - totalOverdueExpenses)}</td>
                         <td className="p-2 text-right text-blue-600/70">{formatCurrency(totalPendingIncomes - totalPendingExpenses)}</td>
                       </tr>
                     )}
@@ -824,6 +461,66 @@ export default function ReportModal({
               </div>
             </div>
 
+            {/* Envelope Section */}
+            {envelopes.length > 0 && (
+              <div className="rounded-lg border bg-card">
+                <h3 className="p-2 font-semibold">Envelopes</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-muted">
+                      <tr>
+                        {envelopeHeaders.map((header, index) => (
+                          <th key={header} className={`${index === 0 ? "text-left" : "text-right"} p-2 font-medium text-muted-foreground`}>{header}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {envelopes.map((envelope, index) => (
+                        <tr key={envelope.budget.id} className={index % 2 === 0 ? "bg-muted/50" : ""}>
+                          <td className="p-2 font-medium text-left" style={{ color: envelope.category?.color }}>{envelope.category?.name ?? "Category"}</td>
+                          <td className="p-2 text-right">{formatCurrency(envelope.starting)}</td>
+                          <td className="p-2 text-right">{formatCurrency(envelope.allocation)}</td>
+                          <td className="p-2 text-right text-red-600">{formatCurrency(envelope.spending)}</td>
+                          <td className={`p-2 text-right font-medium ${envelope.ending < 0 ? "text-red-600" : "text-green-600"}`}>
+                            {formatCurrency(envelope.ending)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {/* Sinking Fund Section */}
+            {sinkingFunds.length > 0 && (
+              <div className="rounded-lg border bg-card">
+                <h3 className="p-2 font-semibold">Sinking Funds</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-muted">
+                      <tr>
+                        {sinkingFundHeaders.map((header, index) => (
+                          <th key={header} className={`${index === 0 ? "text-left" : "text-right"} p-2 font-medium text-muted-foreground`}>{header}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {sinkingFunds.map((fund, index) => (
+                        <tr key={fund.expense.id} className={index % 2 === 0 ? "bg-muted/50" : ""}>
+                          <td className="p-2 font-medium text-left">{fund.expense.name}</td>
+                          <td className="p-2 text-right text-purple-600">{formatCurrency(fund.setAside)}</td>
+                          <td className="p-2 text-right">{formatCurrency(fund.balance)}</td>
+                          <td className="p-2 text-right text-red-600">{formatCurrency(fund.dueAmount)}</td>
+                          <td className="p-2 text-right">{format(parseISO(fund.dueDate), 'MMM d, yyyy')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
             {filterType === "all-categories" && (
               <div className="space-y-6">
                 {/* Category Summary Table */}
@@ -834,8 +531,9 @@ export default function ReportModal({
                         <tr>
                           <th className="text-left p-2 font-medium text-muted-foreground">Category</th>
                           <th className="text-right p-2 font-medium text-muted-foreground">Total</th>
-                          <th className="text-right p-2 font-medium text-muted-foreground">Occurred</th>
-                          <th className="text-right p-2 font-medium text-muted-foreground">Pending</th>
+                          <th className="text-right p-2 font-medium text-muted-foreground">Paid</th>
+                          <th className="text-right p-2 font-medium text-muted-foreground">Overdue</th>
+                          <th className="text-right p-2 font-medium text-muted-foreground">Upcoming</th>
                         </tr>
                       </thead>
                       <tbody className="divide-y">
@@ -844,6 +542,7 @@ export default function ReportModal({
                             <td className="p-2 font-medium text-left" style={{ color: group.category.color }}>{group.category.name}</td>
                             <td className="p-2 text-right" style={{ color: group.category.color }}>{formatCurrency(group.totalAmount)}</td>
                             <td className="p-2 text-right" style={{ color: group.category.color }}>{formatCurrency(group.incurredAmount)}</td>
+                            <td className="p-2 text-right text-orange-500">{formatCurrency(group.overdueAmount)}</td>
                             <td className="p-2 text-right" style={{ color: `${group.category.color}B3` }}>{formatCurrency(group.pendingAmount)}</td>
                           </tr>
                         ))}
@@ -856,6 +555,9 @@ export default function ReportModal({
                             <td className="p-2 text-right">
                               {formatCurrency(groupedExpenses.reduce((sum, group) => sum + group.incurredAmount, 0))}
                             </td>
+                            <td className="p-2 text-right">
+                              {formatCurrency(groupedExpenses.reduce((sum, group) => sum + group.overdueAmount, 0))}
+                            </td>
                             <td className="p-2 text-right">
                               {formatCurrency(groupedExpenses.reduce((sum, group) => sum + group.pendingAmount, 0))}
                             </td>
@@ -875,8 +577,11 @@ export default function ReportModal({
                       </h3>
                       <div className="text-sm space-x-4">
                         <span>Total: <span style={{ color: group.category.color }}>{formatCurrency(group.totalAmount)}</span></span>
-                        <span>Occurred: <span style={{ color: group.category.color }}>{formatCurrency(group.incurredAmount)}</span></span>
-                        <span>Pending: <span style={{ color: `${group.category.color}B3` }}>{formatCurrency(group.pendingAmount)}</span></span>
+                        <span>Paid: <span style={{ color: group.category.color }}>{formatCurrency(group.incurredAmount)}</span></span>
+                        {group.overdueAmount > 0 && (
+                          <span>Overdue: <span className="text-orange-500">{formatCurrency(group.overdueAmount)}</span></span>
+                        )}
+                        <span>Upcoming: <span style={{ color: `${group.category.color}B3` }}>{formatCurrency(group.pendingAmount)}</span></span>
                       </div>
                     </div>
 
@@ -900,8 +605,11 @@ export default function ReportModal({
                                     {formatCurrency(date.amount)}
                                   </td>
                                   <td className="p-2 text-center">{format(date.date, 'MMM dd')}</td>
-                                  <td className="p-2 text-center" style={{ color: date.isPending ? `${group.category.color}B3` : group.category.color }}>
-                                    {date.isPending ? "Pending" : "Paid"}
+                                  <td
+                                    className={`p-2 text-center ${date.status === "overdue" ? "text-orange-500 font-medium" : ""}`}
+                                    style={date.status === "overdue" ? undefined : { color: date.isPending ? `${group.category.color}B3` : group.category.color }}
+                                  >
+                                    {statusLabel("expense", date.status)}
                                   </td>
                                 </tr>
                               ))
@@ -915,8 +623,89 @@ export default function ReportModal({
               </div>
             )}
 
+            {filterType === "variance" && (
+              <div className="space-y-6">
+                <p className="text-sm text-muted-foreground">
+                  Differences compare the payments recorded for each occurrence with what was planned for it; occurrences without a
+                  payment yet are pending at their planned amount. Positive differences are over plan.
+                </p>
+                {variance.groups.map(group => (
+                  <div key={group.category.id} className="space-y-2">
+                    <h3 className="text-lg font-semibold" style={{ color: group.category.color }}>
+                      {group.category.name}
+                    </h3>
+                    <div className="rounded-lg border bg-card">
+                      <div className="overflow-x-auto">
+                        <table className="w-full">
+                          <thead className="bg-muted">
+                            <tr>
+                              <th className="text-left p-2 font-medium text-muted-foreground">Expense</th>
+                              <th className="text-right p-2 font-medium text-muted-foreground">Planned</th>
+                              <th className="text-right p-2 font-medium text-muted-foreground">Actual</th>
+                              <th className="text-right p-2 font-medium text-muted-foreground">Difference</th>
+                              <th className="text-right p-2 font-medium text-muted-foreground">%</th>
+                              <th className="text-right p-2 font-medium text-muted-foreground">Running</th>
+                              <th className="text-right p-2 font-medium text-muted-foreground">Pending</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y">
+                            {group.lines.map(row => {
+                              const expense = processedExpenses.find(candidate => candidate.id === row.itemId);
+                              const unrecorded = expense?.dates.find(date => date.status !== "paid");
+                              return (
+                                <tr key={row.itemId} className="hover:bg-muted/50">
+                                  <td className="p-2 text-left">
+                                    <span className="font-medium">{row.name}</span>
+                                    <span className="text-xs text-muted-foreground ml-2">{row.recorded} of {row.occurrences} recorded</span>
+                                    {canEdit && expense && unrecorded && (
+                                      <Button
+                                        variant="link"
+                                        size="sm"
+                                        className="h-auto p-0 ml-2"
+                                        onClick={() => setRecording({ expense, entry: unrecorded })}
+                                      >
+                                        Record {format(unrecorded.date, 'MMM dd')}
+                                      </Button>
+                                    )}
+                                  </td>
+                                  <td className="p-2 text-right">{formatCurrency(row.planned)}</td>
+                                  <td className="p-2 text-right">{formatCurrency(row.actual)}</td>
+                                  <td className="p-2 text-right" style={{ color: varianceColor(row.difference) }}>{formatVariance(row.difference)}</td>
+                                  <td className="p-2 text-right" style={{ color: varianceColor(row.difference) }}>{formatVariancePercent(row.percent)}</td>
+                                  <td className="p-2 text-right" style={{ color: varianceColor(row.runningVariance) }}>{formatVariance(row.runningVariance)}</td>
+                                  <td className="p-2 text-right text-muted-foreground">{formatCurrency(row.pending)}</td>
+                                </tr>
+                              );
+                            })}
+                            <tr className="font-semibold bg-muted">
+                              <td className="p-2 text-left">{group.total.name}</td>
+                              <td className="p-2 text-right">{formatCurrency(group.total.planned)}</td>
+                              <td className="p-2 text-right">{formatCurrency(group.total.actual)}</td>
+                              <td className="p-2 text-right" style={{ color: varianceColor(group.total.difference) }}>{formatVariance(group.total.difference)}</td>
+                              <td className="p-2 text-right" style={{ color: varianceColor(group.total.difference) }}>{formatVariancePercent(group.total.percent)}</td>
+                              <td className="p-2 text-right" style={{ color: varianceColor(group.total.runningVariance) }}>{formatVariance(group.total.runningVariance)}</td>
+                              <td className="p-2 text-right text-muted-foreground">{formatCurrency(group.total.pending)}</td>
+                            </tr>
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-between rounded-lg border bg-muted p-2 font-semibold">
+                  <span>
+                    Total: {formatCurrency(variance.total.planned)} planned, {formatCurrency(variance.total.actual)} actual,
+                    {" "}{formatCurrency(variance.total.pending)} pending
+                  </span>
+                  <span style={{ color: varianceColor(variance.total.difference) }}>
+                    {formatVariance(variance.total.difference)} ({formatVariancePercent(variance.total.percent)})
+                  </span>
+                </div>
+              </div>
+            )}
+
             {/* Current Transactions */}
-            {filterType !== "all-categories" && (
+            {filterType !== "all-categories" && filterType !== "variance" && (
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold">Current Transactions</h3>
 
@@ -944,7 +733,7 @@ export default function ReportModal({
                                     <td className="p-2 text-sm text-muted-foreground text-left">{dateIndex + 1}</td>
                                     <td className="p-2 text-left">
                                       <span className="font-medium text-green-600">{income.name}</span>
-                                      <span className="text-sm text-muted-foreground ml-2">({income.frequency})</span>
+                                      <span className="text-sm text-muted-foreground ml-2">({describeRecurrence(recurrenceOf(income))})</span>
                                     </td>
                                     <td className="p-2 text-right text-green-600">{formatCurrency(date.amount)}</td>
                                     <td className="p-2 text-center">{format(date.date, 'MMM dd')}</td>
@@ -994,17 +783,17 @@ export default function ReportModal({
                 )}
               </div>
             )}
-            {filterType !== "all-categories" && <Separator />}
+            {filterType !== "all-categories" && filterType !== "variance" && <Separator />}
 
             {/* Pending Transactions */}
-            {filterType !== "all-categories" && (
+            {filterType !== "all-categories" && filterType !== "variance" && (
               <div className="space-y-4">
                 <h3 className="text-lg font-semibold">Pending Transactions</h3>
 
                 {/* Pending Income Section - show for Monthly Budget or Income reports */}
                 {(isMonthlyBudget || filterType === "all-incomes") && processedIncomes.some(income => income.dates.some(date => date.isPending)) && (
                   <div className="space-y-2">
-                    <h4 className="font-medium text-green-600/70">Upcoming Income</h4>
+                    <h4 className="font-medium text-green-600/70">Income Not Yet Received</h4>
                     <div className="rounded-lg border bg-card/50">
                       <div className="overflow-x-auto">
                         <table className="w-full">
@@ -1025,10 +814,10 @@ export default function ReportModal({
                                     <td className="p-2 text-sm text-muted-foreground text-left">{dateIndex + 1}</td>
                                     <td className="p-2 text-left">
                                       <span className="font-medium text-green-600/70">{income.name}</span>
-                                      <span className="text-sm text-muted-foreground ml-2">({income.frequency})</span>
+                                      <span className="text-sm text-muted-foreground ml-2">({describeRecurrence(recurrenceOf(income))})</span>
                                     </td>
                                     <td className="p-2 text-right text-green-600/70">{formatCurrency(date.amount)}</td>
-                                    <td className="p-2 text-center">{format(date.date, 'MMM dd')}</td>
+                                    <td className={`p-2 text-center ${date.status === "overdue" ? "text-orange-500 font-medium" : ""}`}>{dueLabel(date)}</td>
                                   </tr>
                                 ))
                             ))}
@@ -1042,7 +831,7 @@ export default function ReportModal({
                 {/* Pending Expenses Section */}
                 {processedExpenses.some(expense => expense.dates.some(date => date.isPending)) && (
                   <div className="space-y-2">
-                    <h4 className="font-medium text-red-600/70">Upcoming Expenses</h4>
+                    <h4 className="font-medium text-red-600/70">Unpaid Expenses</h4>
                     <div className="rounded-lg border bg-card/50">
                       <div className="overflow-x-auto">
                         <table className="w-full">
@@ -1063,7 +852,7 @@ export default function ReportModal({
                                     <td className="p-2 text-sm text-muted-foreground text-left">{dateIndex + 1}</td>
                                     <td className="p-2 text-left font-medium text-red-600/70">{expense.name}</td>
                                     <td className="p-2 text-right text-red-600/70">{formatCurrency(date.amount)}</td>
-                                    <td className="p-2 text-center">{format(date.date, 'MMM dd')}</td>
+                                    <td className={`p-2 text-center ${date.status === "overdue" ? "text-orange-500 font-medium" : ""}`}>{dueLabel(date)}</td>
                                   </tr>
                                 ))
                             ))}
@@ -1078,6 +867,16 @@ export default function ReportModal({
           </div>
         </div>
       </DialogContent>
+
+      {recording && (
+        <SettleOccurrenceDialog
+          open={!!recording}
+          onClose={() => setRecording(null)}
+          kind="expense"
+          item={recording.expense}
+          occurrence={recording.entry.occurrence}
+        />
+      )}
     </Dialog>
   );
 }
\ No newline at end of file
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { apiRequest } from "../../lib/queryClient";
+import { useToast } from "../../hooks/use-toast";
+import { ACCOUNT_TYPE_LABELS } from "@shared/accounts";
+import { AccountType, type Account, type AccountTypeType } from "@shared/schema";
+
+const selectClassName = "bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg rounded-md";
+
+interface AccountFormProps {
+  open: boolean;
+  onClose: () => void;
+  account?: Account;
+}
+
+export default function AccountForm({ open, onClose, account }: AccountFormProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountTypeType>('CHECKING');
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [openingDate, setOpeningDate] = useState('');
+  const [currency, setCurrency] = useState('USD');
+
+  useEffect(() => {
+    if (open) {
+      setName(account?.name ?? '');
+      setType(account ? account.type as AccountTypeType : 'CHECKING');
+      setOpeningBalance(account ? String(Number(account.openingBalance)) : '');
+      setOpeningDate(account?.openingDate ?? format(new Date(), 'yyyy-MM-dd'));
+      setCurrency(account?.currency ?? 'USD');
+    }
+  }, [open, account]);
+
+  const onSuccess = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/accounts'] });
+    toast({ title: "Saved", description });
+    onClose();
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const save = useMutation({
+    mutationFn: () => apiRequest({
+      url: account ? `/api/accounts/${account.id}` : '/api/accounts',
+      method: account ? 'PATCH' : 'POST',
+      body: { name, type, openingBalance: openingBalance || '0', openingDate, currency: currency.trim().toUpperCase() },
+    }),
+    onSuccess: () => onSuccess(`${name} saved.`),
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: () => apiRequest({ url: `/api/accounts/${account!.id}`, method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/incomes'] });
+      onSuccess(`${account!.name} removed; its expenses and incomes are kept without an account.`);
+    },
+    onError,
+  });
+
+  const isPending = save.isPending || remove.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{account ? 'Edit' : 'Add'} Account</DialogTitle>
+          <DialogDescription>
+            Pick the account on an expense or income to track its balance and statement
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="account-name">Name</Label>
+              <Input id="account-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="CC 9550" />
+            </div>
+            <div className="space-y-2 w-40">
+              <Label>Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as AccountTypeType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className={selectClassName}>
+                  {AccountType.options.map((option) => (
+                    <SelectItem key={option} value={option}>{ACCOUNT_TYPE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="account-opening">Opening balance</Label>
+              <Input
+                id="account-opening"
+                type="number"
+                step="0.01"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+                placeholder={type === 'CREDIT_CARD' ? "-250.00 while it carries a balance" : "0.00"}
+              />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="account-opened">As of</Label>
+              <Input id="account-opened" type="date" value={openingDate} onChange={(e) => setOpeningDate(e.target.value)} />
+            </div>
+            <div className="space-y-2 w-20">
+              <Label htmlFor="account-currency">Currency</Label>
+              <Input id="account-currency" value={currency} maxLength={3} onChange={(e) => setCurrency(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {account && (
+            <Button
+              variant="outline"
+              className="text-red-500 hover:text-red-700"
+              onClick={() => remove.mutate()}
+              disabled={isPending}
+            >
+              Remove Account
+            </Button>
+          )}
+          <Button
+            onClick={() => save.mutate()}
+            disabled={isPending || !name.trim() || !openingDate || !/^[a-zA-Z]{3}$/.test(currency.trim())}
+          >
+            Save Account
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
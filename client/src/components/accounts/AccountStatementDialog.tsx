@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { addMonths, format, parseISO, startOfMonth } from "date-fns";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Button } from "../ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "../ui/chart";
+import { useAccountStatement } from "../../hooks/use-accounts";
+import { statusLabel } from "../transactions/OccurrenceStatusIcon";
+import { ACCOUNT_TYPE_LABELS, formatAccountAmount } from "@shared/accounts";
+import type { Account, AccountTypeType } from "@shared/schema";
+
+const chartConfig = {
+  balance: { label: "Balance", color: "#2563eb" },
+} satisfies ChartConfig;
+
+interface AccountStatementDialogProps {
+  account: Account | null;
+  onClose: () => void;
+}
+
+// One month of an account: its opening and closing balance, every occurrence on it with the
+// running balance, and the day-by-day balance history
+export default function AccountStatementDialog({ account, onClose }: AccountStatementDialogProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+
+  useEffect(() => {
+    if (account) setMonth(startOfMonth(new Date()));
+  }, [account]);
+
+  return (
+    <Dialog open={!!account} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl">
+        {account && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{account.name}</DialogTitle>
+              <DialogDescription>
+                {ACCOUNT_TYPE_LABELS[account.type as AccountTypeType]} · {account.currency} · opened {format(parseISO(account.openingDate), 'MMM d, yyyy')}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex items-center justify-between">
+              <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, -1))} aria-label="Previous month">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="font-medium">{format(month, 'MMMM yyyy')}</span>
+              <Button variant="outline" size="sm" onClick={() => setMonth(addMonths(month, 1))} aria-label="Next month">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <Statement account={account} month={month} />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function Statement({ account, month }: { account: Account; month: Date }) {
+  const statement = useAccountStatement(account, month);
+  const money = (amount: number) => formatAccountAmount(amount, account.currency);
+
+  if (statement.history.length === 0) {
+    return <p className="text-sm text-muted-foreground">The account wasn't open yet this month.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+        <AreaChart data={statement.history} margin={{ left: 12, right: 12 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="date"
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+            tickFormatter={(date: string) => format(parseISO(date), 'MMM d')}
+          />
+          <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={(balance: number) => money(balance)} />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(date: string) => format(parseISO(date), 'EEE, MMM d, yyyy')} />}
+          />
+          <Area
+            dataKey="balance"
+            type="stepAfter"
+            stroke="var(--color-balance)"
+            fill="var(--color-balance)"
+            fillOpacity={0.15}
+          />
+        </AreaChart>
+      </ChartContainer>
+
+      <div className="max-h-72 overflow-y-auto rounded-lg border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted sticky top-0">
+            <tr>
+              <th className="text-left p-2 font-medium text-muted-foreground">Date</th>
+              <th className="text-left p-2 font-medium text-muted-foreground">Description</th>
+              <th className="text-left p-2 font-medium text-muted-foreground">Status</th>
+              <th className="text-right p-2 font-medium text-muted-foreground">Amount</th>
+              <th className="text-right p-2 font-medium text-muted-foreground">Balance</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            <tr className="bg-muted/50">
+              <td className="p-2" colSpan={4}>Opening balance</td>
+              <td className="p-2 text-right font-medium">{money(statement.opening)}</td>
+            </tr>
+            {statement.lines.map((line) => (
+              <tr key={`${line.row.kind}-${line.row.itemId}-${line.row.originalDate}`}>
+                <td className="p-2 whitespace-nowrap">{format(parseISO(line.row.date), 'MMM d')}</td>
+                <td className="p-2">{line.row.name}</td>
+                <td className="p-2 text-muted-foreground">{statusLabel(line.row.kind, line.row.status)}</td>
+                <td className={`p-2 text-right ${line.amount < 0 ? "text-red-600" : "text-green-600"}`}>{money(line.amount)}</td>
+                <td className="p-2 text-right">{money(line.balance)}</td>
+              </tr>
+            ))}
+            <tr className="bg-muted/50 font-medium">
+              <td className="p-2" colSpan={4}>Closing balance</td>
+              <td className={`p-2 text-right ${statement.closing < 0 ? "text-red-600" : ""}`}>{money(statement.closing)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
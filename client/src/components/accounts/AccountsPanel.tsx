@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Pencil, Plus } from "lucide-react";
+import { Card } from "../ui/card";
+import { Button } from "../ui/button";
+import { useAccountBalances, useAccounts } from "../../hooks/use-accounts";
+import { useHousehold } from "../../hooks/use-household";
+import { ACCOUNT_TYPE_LABELS, formatAccountAmount } from "@shared/accounts";
+import type { Account, AccountTypeType } from "@shared/schema";
+import AccountForm from "./AccountForm";
+import AccountStatementDialog from "./AccountStatementDialog";
+
+// Every account with its balance today; each opens its statement
+export default function AccountsPanel() {
+  const { canEdit } = useHousehold();
+  const accounts = useAccounts();
+  const balances = useAccountBalances(accounts);
+  const [editing, setEditing] = useState<{ account?: Account } | null>(null);
+  const [viewing, setViewing] = useState<Account | null>(null);
+
+  if (accounts.length === 0 && !canEdit) return null;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Accounts</h2>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => setEditing({})}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Account
+          </Button>
+        )}
+      </div>
+
+      {accounts.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No accounts yet. Add your checking account and cards, then pick one on each expense and income.
+        </p>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+        {accounts.map((account) => {
+          const balance = balances.get(account.id) ?? Number(account.openingBalance);
+          return (
+            <div key={account.id} className="flex items-center justify-between gap-2 rounded-lg border p-3">
+              <button className="min-w-0 text-left hover:underline" onClick={() => setViewing(account)}>
+                <div className="font-medium truncate">{account.name}</div>
+                <div className="text-xs text-muted-foreground">{ACCOUNT_TYPE_LABELS[account.type as AccountTypeType]}</div>
+              </button>
+              <div className="flex items-center gap-2">
+                <span className={`font-semibold whitespace-nowrap ${balance < 0 ? "text-red-600" : ""}`}>
+                  {formatAccountAmount(balance, account.currency)}
+                </span>
+                {canEdit && (
+                  <button
+                    className="text-muted-foreground hover:text-foreground"
+                    onClick={() => setEditing({ account })}
+                    aria-label="Edit account"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {editing && (
+        <AccountForm
+          open={!!editing}
+          onClose={() => setEditing(null)}
+          account={editing.account}
+        />
+      )}
+      <AccountStatementDialog account={viewing} onClose={() => setViewing(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { useToast } from "../../hooks/use-toast";
+import { backupData } from "../../lib/dataSync";
+
+interface BackupDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Leaving the passphrase empty downloads a plain JSON backup
+export default function BackupDialog({ open, onClose }: BackupDialogProps) {
+  const { toast } = useToast();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const mismatch = passphrase !== confirmation;
+
+  const handleBackup = async () => {
+    setIsSaving(true);
+    try {
+      await backupData(passphrase || undefined);
+      toast({
+        title: "Backup Successful",
+        description: passphrase
+          ? "Your encrypted backup has been downloaded. Keep the passphrase safe, it cannot be recovered."
+          : "Your data has been successfully backed up.",
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Backup Failed",
+        description: "Failed to backup data. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Backup Data</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Optionally protect the backup with a passphrase. It will be needed to restore the file.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="backup-passphrase">Passphrase</Label>
+            <Input
+              id="backup-passphrase"
+              type="password"
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+          </div>
+          {passphrase && (
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase-confirm">Confirm passphrase</Label>
+              <Input
+                id="backup-passphrase-confirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+              {mismatch && confirmation && (
+                <p className="text-sm text-destructive">Passphrases do not match</p>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleBackup} disabled={isSaving || mismatch}>
+            {passphrase ? 'Download Encrypted Backup' : 'Download Backup'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table";
+import { Checkbox } from "../ui/checkbox";
+import { Badge } from "../ui/badge";
+import type { RestoreDiff, RestoreDiffRow, RestoreSelection } from "@shared/backup";
+
+interface MergePreviewProps {
+  diff: RestoreDiff;
+  selection: RestoreSelection;
+  onSelectionChange: (selection: RestoreSelection) => void;
+}
+
+const sections: { key: keyof RestoreDiff; title: string }[] = [
+  { key: 'categories', title: 'Categories' },
+  { key: 'expenses', title: 'Expenses' },
+  { key: 'incomes', title: 'Incomes' },
+];
+
+const statusClasses: Record<RestoreDiffRow['status'], string> = {
+  added: 'bg-green-100 text-green-800',
+  changed: 'bg-amber-100 text-amber-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+};
+
+// Everything that would be added or changed starts ticked
+export function defaultSelection(diff: RestoreDiff): RestoreSelection {
+  const pick = (rows: RestoreDiffRow[]) => rows.filter((r) => r.status !== 'unchanged').map((r) => r.backupId);
+  return {
+    categories: pick(diff.categories),
+    expenses: pick(diff.expenses),
+    incomes: pick(diff.incomes),
+  };
+}
+
+export default function MergePreview({ diff, selection, onSelectionChange }: MergePreviewProps) {
+  const toggle = (key: keyof RestoreDiff, id: number, checked: boolean) => {
+    const ids = selection[key].filter((selectedId) => selectedId !== id);
+    onSelectionChange({ ...selection, [key]: checked ? [...ids, id] : ids });
+  };
+
+  return (
+    <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+      {sections.map(({ key, title }) => (
+        <div key={key} className="space-y-2">
+          <h3 className="font-semibold">
+            {title}{' '}
+            <span className="text-sm font-normal text-muted-foreground">
+              ({diff[key].filter((r) => r.status === 'added').length} added,{' '}
+              {diff[key].filter((r) => r.status === 'changed').length} changed,{' '}
+              {diff[key].filter((r) => r.status === 'unchanged').length} unchanged)
+            </span>
+          </h3>
+          {diff[key].length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing in the backup</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Name</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Differences</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff[key].map((row, index) => (
+                  <TableRow key={`${row.backupId}-${index}`}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selection[key].includes(row.backupId)}
+                        disabled={row.status === 'unchanged'}
+                        onCheckedChange={(checked) => toggle(key, row.backupId, checked === true)}
+                        aria-label={`Apply ${row.name}`}
+                      />
+                    </TableCell>
+                    <TableCell>{row.name}</TableCell>
+                    <TableCell>
+                      <Badge className={statusClasses[row.status]}>{row.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {row.changes.map((change) => (
+                        <div key={change.field}>
+                          <span className="font-medium">{change.field}:</span>{' '}
+                          <span className="line-through text-muted-foreground">{change.current}</span>{' '}
+                          &rarr; {change.backup}
+                        </div>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../ui/alert-dialog";
+import { Button } from "../ui/button";
+import { apiRequest } from "../../lib/queryClient";
+import { downloadSnapshot } from "../../lib/dataSync";
+import { useToast } from "../../hooks/use-toast";
+import { useHousehold } from "../../hooks/use-household";
+import type { SnapshotInfo, SnapshotReasonType } from "@shared/backup";
+
+interface SnapshotsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const reasonLabels: Record<SnapshotReasonType, string> = {
+  'scheduled': 'Scheduled',
+  'manual': 'Manual',
+  'before-clear': 'Before clearing data',
+  'before-restore': 'Before restore',
+  'before-rollback': 'Before rollback',
+};
+
+export default function SnapshotsDialog({ open, onClose }: SnapshotsDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { canEdit, isOwner } = useHousehold();
+  const [rollbackTarget, setRollbackTarget] = useState<SnapshotInfo | undefined>();
+
+  const { data: snapshots = [], isLoading } = useQuery<SnapshotInfo[]>({
+    queryKey: ['/api/snapshots'],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest({ url: '/api/snapshots', method: 'POST' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/snapshots'] });
+      toast({ title: "Snapshot Created" });
+    },
+    onError,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (snapshot: SnapshotInfo) =>
+      apiRequest({ url: `/api/snapshots/${snapshot.id}/rollback`, method: 'POST' }),
+    onSuccess: () => {
+      // Data and the snapshot list (which gained a "before rollback" entry) both changed
+      queryClient.invalidateQueries();
+      setRollbackTarget(undefined);
+      toast({
+        title: "Rollback Successful",
+        description: "Your data has been restored from the snapshot.",
+      });
+    },
+    onError,
+  });
+
+  const handleDownload = async (snapshot: SnapshotInfo) => {
+    try {
+      await downloadSnapshot(snapshot);
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="bg-white max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Snapshots</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              The server snapshots your data on a schedule and before data is cleared or replaced.
+            </p>
+            {canEdit && (
+              <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+                Take Snapshot
+              </Button>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div>Loading snapshots...</div>
+          ) : snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No snapshots yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Taken</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Contents</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {snapshots.map((snapshot) => (
+                  <TableRow key={snapshot.id}>
+                    <TableCell>{format(new Date(snapshot.createdAt), 'MMM dd, yyyy HH:mm')}</TableCell>
+                    <TableCell>{reasonLabels[snapshot.reason] ?? snapshot.reason}</TableCell>
+                    <TableCell className="text-sm">
+                      {snapshot.counts.categories} categories, {snapshot.counts.expenses} expenses, {snapshot.counts.incomes} incomes
+                    </TableCell>
+                    <TableCell className="space-x-2 whitespace-nowrap">
+                      <Button variant="ghost" onClick={() => handleDownload(snapshot)}>
+                        Download
+                      </Button>
+                      {isOwner && (
+                        <Button
+                          variant="ghost"
+                          className="text-red-500 hover:text-red-700"
+                          onClick={() => setRollbackTarget(snapshot)}
+                        >
+                          Roll Back
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <AlertDialog open={!!rollbackTarget} onOpenChange={(isOpen) => !isOpen && setRollbackTarget(undefined)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Roll Back to Snapshot</AlertDialogTitle>
+              <AlertDialogDescription>
+                This replaces all current expenses, incomes and categories with the snapshot from{' '}
+                {rollbackTarget && format(new Date(rollbackTarget.createdAt), 'MMM dd, yyyy HH:mm')}.
+                A snapshot of the current data is taken first, so this can be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => rollbackTarget && rollbackMutation.mutate(rollbackTarget)}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Roll Back
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { apiRequest } from "../../lib/queryClient";
+import { useToast } from "../../hooks/use-toast";
+import { BUDGET_PERIOD_LABELS, ROLLOVER_POLICY_LABELS } from "@shared/budgets";
+import {
+  BudgetPeriod, RolloverPolicy, type BudgetPeriodType, type Category, type CategoryBudget, type RolloverPolicyType
+} from "@shared/schema";
+
+const selectClassName = "bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg rounded-md";
+
+interface CategoryBudgetFormProps {
+  open: boolean;
+  onClose: () => void;
+  categories: Category[];
+  // Editing replaces this budget; without one the form picks a category that has none yet
+  budget?: CategoryBudget;
+  budgetedCategoryIds: number[];
+}
+
+// "80, 100" -> [80, 100]; anything that isn't a whole percentage is dropped
+const parseThresholds = (text: string) => text
+  .split(',')
+  .map((part) => Number(part.trim()))
+  .filter((value) => Number.isInteger(value) && value > 0);
+
+export default function CategoryBudgetForm({ open, onClose, categories, budget, budgetedCategoryIds }: CategoryBudgetFormProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [categoryId, setCategoryId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [period, setPeriod] = useState<BudgetPeriodType>('MONTHLY');
+  const [thresholds, setThresholds] = useState('80, 100');
+  const [rollover, setRollover] = useState<RolloverPolicyType>('NONE');
+  const available = categories.filter((category) => category.id === budget?.categoryId || !budgetedCategoryIds.includes(category.id));
+
+  useEffect(() => {
+    if (open) {
+      setCategoryId(budget ? String(budget.categoryId) : '');
+      setAmount(budget ? String(Number(budget.amount)) : '');
+      setPeriod(budget ? budget.period as BudgetPeriodType : 'MONTHLY');
+      setThresholds(budget ? budget.thresholds.join(', ') : '80, 100');
+      setRollover(budget ? budget.rollover as RolloverPolicyType : 'NONE');
+    }
+  }, [open, budget]);
+
+  const onSuccess = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/category-budgets'] });
+    toast({ title: "Saved", description });
+    onClose();
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+  const categoryName = categories.find((category) => String(category.id) === categoryId)?.name ?? 'Category';
+
+  const save = useMutation({
+    mutationFn: () => apiRequest({
+      url: '/api/category-budgets',
+      method: 'PUT',
+      body: { categoryId: Number(categoryId), amount, period, thresholds: parseThresholds(thresholds), rollover },
+    }),
+    onSuccess: () => onSuccess(`${categoryName} budget saved.`),
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: () => apiRequest({ url: `/api/category-budgets/${budget!.id}`, method: 'DELETE' }),
+    onSuccess: () => onSuccess(`${categoryName} no longer has a budget.`),
+    onError,
+  });
+
+  const isPending = save.isPending || remove.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{budget ? 'Edit' : 'Set'} Category Budget</DialogTitle>
+          <DialogDescription>
+            Warnings appear once planned or actual spending reaches a threshold
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={categoryId} onValueChange={setCategoryId} disabled={!!budget}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a category" />
+              </SelectTrigger>
+              <SelectContent className={selectClassName}>
+                {available.map((category) => (
+                  <SelectItem key={category.id} value={String(category.id)}>{category.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="budget-amount">Limit</Label>
+              <Input
+                id="budget-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 w-36">
+              <Label>Per</Label>
+              <Select value={period} onValueChange={(value) => setPeriod(value as BudgetPeriodType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className={selectClassName}>
+                  {BudgetPeriod.options.map((option) => (
+                    <SelectItem key={option} value={option}>{BUDGET_PERIOD_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="budget-thresholds">Warn at (% of limit)</Label>
+            <Input
+              id="budget-thresholds"
+              value={thresholds}
+              onChange={(e) => setThresholds(e.target.value)}
+              placeholder="80, 100"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Leftover and overspending</Label>
+            <Select value={rollover} onValueChange={(value) => setRollover(value as RolloverPolicyType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className={selectClassName}>
+                {RolloverPolicy.options.map((option) => (
+                  <SelectItem key={option} value={option}>{ROLLOVER_POLICY_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {budget && (
+            <Button
+              variant="outline"
+              className="text-red-500 hover:text-red-700"
+              onClick={() => remove.mutate()}
+              disabled={isPending}
+            >
+              Remove Budget
+            </Button>
+          )}
+          <Button onClick={() => save.mutate()} disabled={isPending || categoryId === '' || !(Number(amount) > 0)}>
+            Save Budget
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { startOfYear, endOfYear, format } from "date-fns";
+import { AlertTriangle, Pencil, Plus } from "lucide-react";
+import { Card } from "../ui/card";
+import { Button } from "../ui/button";
+import { Progress } from "../ui/progress";
+import { formatCurrency } from "../../lib/utils";
+import { useOccurrences } from "../../hooks/use-occurrences";
+import { useCategoryBudgets } from "../../hooks/use-category-budgets";
+import { useHousehold } from "../../hooks/use-household";
+import { budgetProgress, BUDGET_PERIOD_LABELS, type BudgetProgress } from "@shared/budgets";
+import type { BudgetPeriodType, Category, CategoryBudget } from "@shared/schema";
+import CategoryBudgetForm from "./CategoryBudgetForm";
+
+interface CategoryBudgetsProps {
+  date: Date;
+  categories: Category[];
+  accountId?: number;
+}
+
+// Amber until spending reaches the whole limit, red from there
+const warningColor = (threshold: number) => threshold >= 100 ? "text-red-600" : "text-amber-600";
+
+const warningText = ({ warning, plannedPercent, actualPercent }: BudgetProgress) => {
+  if (!warning) return null;
+  const percent = warning.by === 'actual' ? actualPercent : plannedPercent;
+  return `${warning.by === 'actual' ? 'Spent' : 'Planned'} ${Math.round(percent)}% of the limit`;
+};
+
+// Budget vs planned vs actual spending per category for the period containing date;
+// every budget period falls inside date's calendar year
+export default function CategoryBudgets({ date, categories, accountId }: CategoryBudgetsProps) {
+  const { canEdit } = useHousehold();
+  const budgets = useCategoryBudgets();
+  const rows = useOccurrences({ from: startOfYear(date), to: endOfYear(date), accountId });
+  const [editing, setEditing] = useState<{ budget?: CategoryBudget } | null>(null);
+
+  const progress = useMemo(
+    () => budgets.map((budget) => budgetProgress(budget, rows, date)),
+    [budgets, rows, date]
+  );
+  const categoryOf = (id: number) => categories.find((category) => category.id === id);
+
+  if (budgets.length === 0 && !canEdit) return null;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Category Budgets</h2>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => setEditing({})}>
+            <Plus className="mr-2 h-4 w-4" />
+            Set Budget
+          </Button>
+        )}
+      </div>
+
+      {budgets.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No budgets yet. Set a limit such as Groceries: 3,000 a month to track spending against it.
+        </p>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {progress.map((item) => {
+          const category = categoryOf(item.budget.categoryId);
+          const warning = warningText(item);
+          return (
+            <div key={item.budget.id} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: category?.color }} />
+                  <span className="font-medium truncate">{category?.name ?? 'Category'}</span>
+                  {canEdit && (
+                    <button
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={() => setEditing({ budget: item.budget })}
+                      aria-label="Edit budget"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+                <span className="text-sm text-muted-foreground whitespace-nowrap">
+                  {formatCurrency(item.limit)} / {BUDGET_PERIOD_LABELS[item.budget.period as BudgetPeriodType]}
+                </span>
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Planned</span>
+                  <span>{formatCurrency(item.planned)}</span>
+                </div>
+                <Progress
+                  value={Math.min(item.plannedPercent, 100)}
+                  className={`h-2 ${item.plannedPercent >= 100 ? "[&>div]:bg-red-300" : "[&>div]:bg-slate-300"}`}
+                />
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Actual</span>
+                  <span>{formatCurrency(item.actual)}</span>
+                </div>
+                <Progress
+                  value={Math.min(item.actualPercent, 100)}
+                  className={`h-2 ${item.actualPercent >= 100 ? "[&>div]:bg-red-500" : ""}`}
+                />
+              </div>
+
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">
+                  {format(item.from, 'MMM d')} - {format(item.to, 'MMM d')}
+                </span>
+                {item.warning && (
+                  <span className={`flex items-center gap-1 font-medium ${warningColor(item.warning.threshold)}`}>
+                    <AlertTriangle className="h-3 w-3" />
+                    {warning}
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {editing && (
+        <CategoryBudgetForm
+          open={!!editing}
+          onClose={() => setEditing(null)}
+          categories={categories}
+          budget={editing.budget}
+          budgetedCategoryIds={budgets.map((budget) => budget.categoryId)}
+        />
+      )}
+    </Card>
+  );
+}
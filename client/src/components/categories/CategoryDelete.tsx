@@ -29,6 +29,7 @@ export default function CategoryDelete({ open, onClose, category }: CategoryDele
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/category-budgets'] });
       toast({
         title: "Category Deleted",
         description: `Category "${category.name}" was successfully deleted.`
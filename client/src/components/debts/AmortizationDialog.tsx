@@ -0,0 +1,57 @@
+import React from 'react';
+import { format, parseISO } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "../ui/dialog";
+import { formatCurrency } from "../../lib/utils";
+import type { DebtSchedule } from "@shared/debts";
+
+interface AmortizationDialogProps {
+  schedule: DebtSchedule | null;
+  onClose: () => void;
+}
+
+// Every payment of one debt with its interest, principal and the balance left after it
+export default function AmortizationDialog({ schedule, onClose }: AmortizationDialogProps) {
+  return (
+    <Dialog open={!!schedule} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        {schedule && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{schedule.debt.name}</DialogTitle>
+              <DialogDescription>
+                {schedule.payoffDate
+                  ? `Paid off ${format(parseISO(schedule.payoffDate), 'MMM d, yyyy')} after ${schedule.rows.length} payments and ${formatCurrency(schedule.totalInterest)} in interest`
+                  : 'The payments never cover the interest; raise the minimum or extra payment'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="max-h-96 overflow-y-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead className="bg-muted sticky top-0">
+                  <tr>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Date</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Payment</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Interest</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Principal</th>
+                    <th className="text-right p-2 font-medium text-muted-foreground">Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {schedule.rows.map((row, index) => (
+                    <tr key={row.date} className={index % 2 === 0 ? "bg-muted/50" : ""}>
+                      <td className="p-2">{format(parseISO(row.date), 'MMM d, yyyy')}</td>
+                      <td className="p-2 text-right">{formatCurrency(row.payment)}</td>
+                      <td className="p-2 text-right text-red-600">{formatCurrency(row.interest)}</td>
+                      <td className="p-2 text-right">{formatCurrency(row.principal)}</td>
+                      <td className="p-2 text-right font-medium">{formatCurrency(row.balance)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
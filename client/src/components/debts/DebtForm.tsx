@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { addMonths, format, startOfMonth } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { apiRequest } from "../../lib/queryClient";
+import { useToast } from "../../hooks/use-toast";
+import type { Category, Debt } from "@shared/schema";
+
+const selectClassName = "bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg rounded-md";
+
+interface DebtFormProps {
+  open: boolean;
+  onClose: () => void;
+  categories: Category[];
+  debt?: Debt;
+}
+
+export default function DebtForm({ open, onClose, categories, debt }: DebtFormProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [principal, setPrincipal] = useState('');
+  const [apr, setApr] = useState('');
+  const [minimumPayment, setMinimumPayment] = useState('');
+  const [extraPayment, setExtraPayment] = useState('');
+  const [firstPaymentDate, setFirstPaymentDate] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setName(debt?.name ?? '');
+      setPrincipal(debt ? String(Number(debt.principal)) : '');
+      setApr(debt ? String(Number(debt.apr)) : '');
+      setMinimumPayment(debt ? String(Number(debt.minimumPayment)) : '');
+      setExtraPayment(debt && Number(debt.extraPayment) > 0 ? String(Number(debt.extraPayment)) : '');
+      setFirstPaymentDate(debt?.firstPaymentDate ?? format(startOfMonth(addMonths(new Date(), 1)), 'yyyy-MM-dd'));
+      setCategoryId(debt ? String(debt.categoryId) : '');
+    }
+  }, [open, debt]);
+
+  const onSuccess = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/debts/plans'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+    toast({ title: "Saved", description });
+    onClose();
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const save = useMutation({
+    mutationFn: () => apiRequest({
+      url: debt ? `/api/debts/${debt.id}` : '/api/debts',
+      method: debt ? 'PATCH' : 'POST',
+      body: {
+        name,
+        principal,
+        apr: apr || '0',
+        minimumPayment,
+        extraPayment: extraPayment || '0',
+        firstPaymentDate,
+        categoryId: Number(categoryId),
+      },
+    }),
+    onSuccess: () => onSuccess(`${name} saved; its payments are scheduled until it is paid off.`),
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: () => apiRequest({ url: `/api/debts/${debt!.id}`, method: 'DELETE' }),
+    onSuccess: () => onSuccess(`${debt!.name} removed; its payments stay as an expense.`),
+    onError,
+  });
+
+  const isPending = save.isPending || remove.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{debt ? 'Edit' : 'Add'} Debt</DialogTitle>
+          <DialogDescription>
+            Payments are added as a monthly expense that follows the payoff plan
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="debt-name">Name</Label>
+            <Input id="debt-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="SoFi Personal Loan" />
+          </div>
+
+          <div className="flex gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="debt-principal">Balance</Label>
+              <Input
+                id="debt-principal"
+                type="number"
+                step="0.01"
+                min="0"
+                value={principal}
+                onChange={(e) => setPrincipal(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 w-28">
+              <Label htmlFor="debt-apr">APR %</Label>
+              <Input
+                id="debt-apr"
+                type="number"
+                step="0.01"
+                min="0"
+                value={apr}
+                onChange={(e) => setApr(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="debt-minimum">Minimum payment</Label>
+              <Input
+                id="debt-minimum"
+                type="number"
+                step="0.01"
+                min="0"
+                value={minimumPayment}
+                onChange={(e) => setMinimumPayment(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="debt-extra">Extra payment</Label>
+              <Input
+                id="debt-extra"
+                type="number"
+                step="0.01"
+                min="0"
+                value={extraPayment}
+                onChange={(e) => setExtraPayment(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="debt-first">First payment</Label>
+              <Input id="debt-first" type="date" value={firstPaymentDate} onChange={(e) => setFirstPaymentDate(e.target.value)} />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label>Category</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent className={selectClassName}>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={String(category.id)}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {debt && (
+            <Button
+              variant="outline"
+              className="text-red-500 hover:text-red-700"
+              onClick={() => remove.mutate()}
+              disabled={isPending}
+            >
+              Remove Debt
+            </Button>
+          )}
+          <Button
+            onClick={() => save.mutate()}
+            disabled={isPending || !name.trim() || !(Number(principal) > 0) || !(Number(minimumPayment) > 0) || !firstPaymentDate || !categoryId}
+          >
+            Save Debt
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
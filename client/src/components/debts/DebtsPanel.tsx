@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Pencil, Plus } from "lucide-react";
+import { Card } from "../ui/card";
+import { Button } from "../ui/button";
+import { Progress } from "../ui/progress";
+import { apiRequest } from "../../lib/queryClient";
+import { formatCurrency } from "../../lib/utils";
+import { useDebtPlans } from "../../hooks/use-debts";
+import { useHousehold } from "../../hooks/use-household";
+import { useToast } from "../../hooks/use-toast";
+import { balanceOn, DEBT_STRATEGY_LABELS, type DebtSchedule } from "@shared/debts";
+import type { Category, Debt, DebtStrategyType } from "@shared/schema";
+import AmortizationDialog from "./AmortizationDialog";
+import DebtForm from "./DebtForm";
+
+interface DebtsPanelProps {
+  categories: Category[];
+}
+
+const formatPayoff = (date: string | null) => date ? format(parseISO(date), 'MMM yyyy') : 'Never';
+
+// Each debt's balance and payoff under the household's strategy, and how the strategies compare
+export default function DebtsPanel({ categories }: DebtsPanelProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { canEdit } = useHousehold();
+  const data = useDebtPlans();
+  const [editing, setEditing] = useState<{ debt?: Debt } | null>(null);
+  const [viewing, setViewing] = useState<DebtSchedule | null>(null);
+
+  const strategyMutation = useMutation({
+    mutationFn: (strategy: DebtStrategyType) => apiRequest({ url: '/api/debts/strategy', method: 'PUT', body: { strategy } }),
+    onSuccess: (_data, strategy) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/debts/plans'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+      toast({ title: "Saved", description: `Debt payments now follow ${DEBT_STRATEGY_LABELS[strategy].toLowerCase()}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const plan = data?.plans.find((option) => option.strategy === data.strategy);
+  const schedules = plan?.schedules ?? [];
+  const baseline = data?.plans.find((option) => option.strategy === 'NONE');
+  const today = new Date();
+
+  if (schedules.length === 0 && !canEdit) return null;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Debt Payoff</h2>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => setEditing({})}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Debt
+          </Button>
+        )}
+      </div>
+
+      {schedules.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No debts yet. Add a loan or card to see its payoff date and schedule its payments until the balance reaches zero.
+        </p>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {schedules.map((schedule) => {
+          const principal = Number(schedule.debt.principal);
+          const balance = balanceOn(schedule, today);
+          const next = schedule.rows.find((row) => row.date >= format(today, 'yyyy-MM-dd'));
+          return (
+            <div key={schedule.debt.id} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium truncate">{schedule.debt.name}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">{Number(schedule.debt.apr)}% APR</span>
+                  {canEdit && (
+                    <button
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={() => setEditing({ debt: schedule.debt })}
+                      aria-label="Edit debt"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+                <span className={`text-sm whitespace-nowrap ${schedule.payoffDate ? "text-muted-foreground" : "text-red-600"}`}>
+                  Paid off {formatPayoff(schedule.payoffDate)}
+                </span>
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>{formatCurrency(balance)} of {formatCurrency(principal)} left</span>
+                  <span>{formatCurrency(schedule.totalInterest)} interest</span>
+                </div>
+                <Progress value={principal > 0 ? ((principal - balance) / principal) * 100 : 100} className="h-2" />
+              </div>
+
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">
+                  {next && `Next payment ${formatCurrency(next.payment)} on ${format(parseISO(next.date), 'MMM d')}`}
+                </span>
+                <button className="text-blue-600 hover:underline" onClick={() => setViewing(schedule)}>
+                  Schedule
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {data && schedules.length > 0 && (
+        <div className="rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="text-left p-2 font-medium text-muted-foreground">Strategy</th>
+                <th className="text-right p-2 font-medium text-muted-foreground">Debt-free</th>
+                <th className="text-right p-2 font-medium text-muted-foreground">Total interest</th>
+                <th className="text-right p-2 font-medium text-muted-foreground">Saves</th>
+                {canEdit && <th className="p-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {data.plans.map((option) => {
+                const active = option.strategy === data.strategy;
+                const saves = baseline ? baseline.totalInterest - option.totalInterest : 0;
+                return (
+                  <tr key={option.strategy} className={active ? "bg-muted/50 font-medium" : ""}>
+                    <td className="p-2">{DEBT_STRATEGY_LABELS[option.strategy]}</td>
+                    <td className="p-2 text-right">{formatPayoff(option.payoffDate)}</td>
+                    <td className="p-2 text-right text-red-600">{formatCurrency(option.totalInterest)}</td>
+                    <td className="p-2 text-right text-green-600">{saves > 0 ? formatCurrency(saves) : '—'}</td>
+                    {canEdit && (
+                      <td className="p-2 text-right">
+                        {active ? (
+                          <span className="text-xs text-muted-foreground">In use</span>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => strategyMutation.mutate(option.strategy)}
+                            disabled={strategyMutation.isPending}
+                          >
+                            Use
+                          </Button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing && (
+        <DebtForm
+          open={!!editing}
+          onClose={() => setEditing(null)}
+          categories={categories}
+          debt={editing.debt}
+        />
+      )}
+      <AmortizationDialog schedule={viewing} onClose={() => setViewing(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { addMonths, format, parseISO } from "date-fns";
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
+import { AlertTriangle, Wallet } from "lucide-react";
+import { Card } from "../ui/card";
+import { Button } from "../ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "../ui/chart";
+import { formatCurrency } from "../../lib/utils";
+import { useForecast } from "../../hooks/use-forecast";
+import { useHousehold } from "../../hooks/use-household";
+import { FORECAST_HORIZONS } from "@shared/forecast";
+import { TODAY } from "../../pages/Dashboard";
+import StartingBalanceDialog from "./StartingBalanceDialog";
+
+const chartConfig = {
+  balance: { label: "Balance", color: "#2563eb" },
+} satisfies ChartConfig;
+
+interface CashFlowForecastProps {
+  accountId?: number;
+}
+
+// The projected day-by-day balance over the next few months, with the days it runs low
+export default function CashFlowForecast({ accountId }: CashFlowForecastProps) {
+  const { canEdit } = useHousehold();
+  const [horizon, setHorizon] = useState(FORECAST_HORIZONS[0]);
+  const [editing, setEditing] = useState(false);
+  const to = useMemo(() => addMonths(TODAY, horizon), [horizon]);
+  const { days, threshold, configured } = useForecast(to, accountId);
+
+  // Days before today only carry the balance forward
+  const shown = useMemo(() => days.filter((day) => day.date >= format(TODAY, 'yyyy-MM-dd')), [days]);
+  const lowest = shown.reduce<typeof shown[number] | null>((min, day) => (!min || day.balance < min.balance ? day : min), null);
+  const firstLow = shown.find((day) => day.low);
+
+  if (!configured && !canEdit) return null;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Cash-Flow Forecast</h2>
+        <div className="flex items-center gap-2">
+          {FORECAST_HORIZONS.map((months) => (
+            <Button
+              key={months}
+              variant={months === horizon ? "default" : "outline"}
+              size="sm"
+              onClick={() => setHorizon(months)}
+            >
+              {months} mo
+            </Button>
+          ))}
+          {canEdit && (
+            <Button variant="outline" size="sm" onClick={() => setEditing(true)}>
+              <Wallet className="mr-2 h-4 w-4" />
+              Starting Balance
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {!configured && (
+        <p className="text-sm text-muted-foreground">
+          Enter what is in the bank today to project the balance forward through every upcoming income and expense.
+        </p>
+      )}
+
+      {configured && shown.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+            <span>
+              Ends at <span className="font-semibold">{formatCurrency(shown[shown.length - 1].balance)}</span> on {format(parseISO(shown[shown.length - 1].date), 'MMM d, yyyy')}
+            </span>
+            {lowest && (
+              <span>
+                Lowest <span className={`font-semibold ${lowest.low ? "text-red-600" : ""}`}>{formatCurrency(lowest.balance)}</span> on {format(parseISO(lowest.date), 'MMM d')}
+              </span>
+            )}
+            {firstLow && (
+              <span className="flex items-center gap-1 text-red-600">
+                <AlertTriangle className="h-4 w-4" />
+                Below {formatCurrency(threshold)} from {format(parseISO(firstLow.date), 'MMM d')}
+              </span>
+            )}
+          </div>
+
+          <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+            <AreaChart data={shown} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+                tickFormatter={(date: string) => format(parseISO(date), 'MMM d')}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={80}
+                tickFormatter={(balance: number) => formatCurrency(balance)}
+              />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(date: string) => format(parseISO(date), 'EEE, MMM d, yyyy')} />}
+              />
+              <ReferenceLine y={threshold} stroke="#dc2626" strokeDasharray="4 4" />
+              <Area
+                dataKey="balance"
+                type="stepAfter"
+                stroke="var(--color-balance)"
+                fill="var(--color-balance)"
+                fillOpacity={0.15}
+              />
+            </AreaChart>
+          </ChartContainer>
+        </>
+      )}
+
+      <StartingBalanceDialog open={editing} onClose={() => setEditing(false)} />
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { apiRequest } from "../../lib/queryClient";
+import { useHousehold } from "../../hooks/use-household";
+import { useToast } from "../../hooks/use-toast";
+
+interface StartingBalanceDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function StartingBalanceDialog({ open, onClose }: StartingBalanceDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { household } = useHousehold();
+  const [startingBalance, setStartingBalance] = useState('');
+  const [startingBalanceDate, setStartingBalanceDate] = useState('');
+  const [lowBalanceThreshold, setLowBalanceThreshold] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setStartingBalance(household?.startingBalance != null ? String(Number(household.startingBalance)) : '');
+      setStartingBalanceDate(household?.startingBalanceDate ?? format(new Date(), 'yyyy-MM-dd'));
+      setLowBalanceThreshold(household ? String(Number(household.lowBalanceThreshold)) : '0');
+    }
+  }, [open, household]);
+
+  const save = useMutation({
+    mutationFn: () => apiRequest({
+      url: '/api/household/forecast',
+      method: 'PUT',
+      body: { startingBalance, startingBalanceDate, lowBalanceThreshold: lowBalanceThreshold || '0' },
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/household'] });
+      toast({ title: "Saved", description: "The forecast now starts from this balance." });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Starting Balance</DialogTitle>
+          <DialogDescription>
+            What was on hand before that day's incomes and expenses; every occurrence from then on moves the forecast
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="forecast-balance">Balance</Label>
+              <Input
+                id="forecast-balance"
+                type="number"
+                step="0.01"
+                value={startingBalance}
+                onChange={(e) => setStartingBalance(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="forecast-date">As of</Label>
+              <Input
+                id="forecast-date"
+                type="date"
+                value={startingBalanceDate}
+                onChange={(e) => setStartingBalanceDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="forecast-threshold">Flag days below</Label>
+            <Input
+              id="forecast-threshold"
+              type="number"
+              step="0.01"
+              value={lowBalanceThreshold}
+              onChange={(e) => setLowBalanceThreshold(e.target.value)}
+              placeholder="0.00"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => save.mutate()}
+            disabled={save.isPending || startingBalance.trim() === '' || !startingBalanceDate}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
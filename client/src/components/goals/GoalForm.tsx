@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { addYears, format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { apiRequest } from "../../lib/queryClient";
+import { useToast } from "../../hooks/use-toast";
+import type { Goal } from "@shared/schema";
+
+interface GoalFormProps {
+  open: boolean;
+  onClose: () => void;
+  goal?: Goal;
+}
+
+export default function GoalForm({ open, onClose, goal }: GoalFormProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [targetAmount, setTargetAmount] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+  const [balance, setBalance] = useState('');
+  const [color, setColor] = useState('#2563eb');
+
+  useEffect(() => {
+    if (open) {
+      setName(goal?.name ?? '');
+      setTargetAmount(goal ? String(Number(goal.targetAmount)) : '');
+      setTargetDate(goal?.targetDate ?? format(addYears(new Date(), 1), 'yyyy-MM-dd'));
+      setBalance(goal ? String(Number(goal.balance)) : '');
+      setColor(goal?.color ?? '#2563eb');
+    }
+  }, [open, goal]);
+
+  const onSuccess = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/goals'] });
+    toast({ title: "Saved", description });
+    onClose();
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const save = useMutation({
+    mutationFn: () => apiRequest({
+      url: goal ? `/api/goals/${goal.id}` : '/api/goals',
+      method: goal ? 'PATCH' : 'POST',
+      body: { name, targetAmount, targetDate, balance: balance || '0', color },
+    }),
+    onSuccess: () => onSuccess(`${name} saved.`),
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: () => apiRequest({ url: `/api/goals/${goal!.id}`, method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+      onSuccess(`${goal!.name} removed; its contributions stay as expenses.`);
+    },
+    onError,
+  });
+
+  const isPending = save.isPending || remove.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{goal ? 'Edit' : 'Add'} Savings Goal</DialogTitle>
+          <DialogDescription>
+            Link recurring expenses to the goal as contributions; paying them adds to its balance
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="goal-name">Name</Label>
+            <Input id="goal-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Car down payment" />
+          </div>
+
+          <div className="flex gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="goal-target">Target</Label>
+              <Input
+                id="goal-target"
+                type="number"
+                step="0.01"
+                min="0"
+                value={targetAmount}
+                onChange={(e) => setTargetAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="goal-date">By</Label>
+              <Input id="goal-date" type="date" value={targetDate} onChange={(e) => setTargetDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="goal-balance">Already saved</Label>
+              <Input
+                id="goal-balance"
+                type="number"
+                step="0.01"
+                min="0"
+                value={balance}
+                onChange={(e) => setBalance(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2 w-24">
+              <Label htmlFor="goal-color">Color</Label>
+              <Input id="goal-color" type="color" value={color} onChange={(e) => setColor(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {goal && (
+            <Button
+              variant="outline"
+              className="text-red-500 hover:text-red-700"
+              onClick={() => remove.mutate()}
+              disabled={isPending}
+            >
+              Remove Goal
+            </Button>
+          )}
+          <Button
+            onClick={() => save.mutate()}
+            disabled={isPending || !name.trim() || !(Number(targetAmount) > 0) || !targetDate}
+          >
+            Save Goal
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
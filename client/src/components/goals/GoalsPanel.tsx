@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, CheckCircle2, Pencil, Plus } from "lucide-react";
+import { Card } from "../ui/card";
+import { Button } from "../ui/button";
+import { Progress } from "../ui/progress";
+import { formatCurrency } from "../../lib/utils";
+import { useGoalProgress } from "../../hooks/use-goals";
+import { useHousehold } from "../../hooks/use-household";
+import type { Goal } from "@shared/schema";
+import type { GoalProgress } from "@shared/goals";
+import GoalForm from "./GoalForm";
+
+const projectionText = ({ remaining, projectedDate }: GoalProgress) => {
+  if (remaining === 0) return 'Reached';
+  if (!projectedDate) return 'No contributions scheduled to reach it';
+  return `Projected ${format(parseISO(projectedDate), 'MMM d, yyyy')}`;
+};
+
+// Savings goals with how far along each is and whether its scheduled contributions get there in time
+export default function GoalsPanel() {
+  const { canEdit } = useHousehold();
+  const progress = useGoalProgress();
+  const [editing, setEditing] = useState<{ goal?: Goal } | null>(null);
+
+  if (progress.length === 0 && !canEdit) return null;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Savings Goals</h2>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => setEditing({})}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Goal
+          </Button>
+        )}
+      </div>
+
+      {progress.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No goals yet. Add one such as a car down payment, then link a recurring expense to it as the contribution.
+        </p>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {progress.map((item) => (
+          <div key={item.goal.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: item.goal.color }} />
+                <span className="font-medium truncate">{item.goal.name}</span>
+                {canEdit && (
+                  <button
+                    className="text-muted-foreground hover:text-foreground"
+                    onClick={() => setEditing({ goal: item.goal })}
+                    aria-label="Edit goal"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+              <span className="text-sm text-muted-foreground whitespace-nowrap">
+                by {format(parseISO(item.goal.targetDate), 'MMM d, yyyy')}
+              </span>
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{formatCurrency(item.saved)} of {formatCurrency(Number(item.goal.targetAmount))}</span>
+                <span>{Math.round(item.percent)}%</span>
+              </div>
+              <Progress value={Math.min(item.percent, 100)} className="h-2" />
+            </div>
+
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground">
+                {item.remaining > 0 && `${formatCurrency(item.requiredMonthly)} a month to stay on track`}
+              </span>
+              <span className={`flex items-center gap-1 font-medium ${item.onTrack ? "text-green-600" : "text-amber-600"}`}>
+                {item.onTrack ? <CheckCircle2 className="h-3 w-3" /> : <AlertTriangle className="h-3 w-3" />}
+                {projectionText(item)}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <GoalForm
+          open={!!editing}
+          onClose={() => setEditing(null)}
+          goal={editing.goal}
+        />
+      )}
+    </Card>
+  );
+}
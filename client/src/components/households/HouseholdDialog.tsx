@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { Separator } from "../ui/separator";
+import { Switch } from "../ui/switch";
+import { apiRequest } from "../../lib/queryClient";
+import { useToast } from "../../hooks/use-toast";
+import { useAuth } from "../../hooks/use-auth";
+import { useHousehold } from "../../hooks/use-household";
+import type { HouseholdInvitation, HouseholdRoleType, PendingInvitation, Household } from "@shared/schema";
+
+interface HouseholdDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const roleLabels: Record<HouseholdRoleType, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+function RoleSelect({ value, onChange, disabled }: {
+  value: HouseholdRoleType;
+  onChange: (role: HouseholdRoleType) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as HouseholdRoleType)} disabled={disabled}>
+      <SelectTrigger className="w-28">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="z-[1000] bg-white rounded-md shadow-lg">
+        {(Object.keys(roleLabels) as HouseholdRoleType[]).map((role) => (
+          <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function HouseholdDialog({ open, onClose }: HouseholdDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { household, isOwner } = useHousehold();
+  const [inviteUsername, setInviteUsername] = useState('');
+  const [inviteRole, setInviteRole] = useState<HouseholdRoleType>('viewer');
+  const [newHouseholdName, setNewHouseholdName] = useState('');
+
+  const { data: households = [] } = useQuery<(Household & { role: HouseholdRoleType })[]>({
+    queryKey: ['/api/households'],
+  });
+
+  const { data: sentInvitations = [] } = useQuery<HouseholdInvitation[]>({
+    queryKey: ['/api/household/invitations'],
+    enabled: isOwner,
+  });
+
+  const { data: myInvitations = [] } = useQuery<PendingInvitation[]>({
+    queryKey: ['/api/invitations'],
+  });
+
+  // Any change of membership or active household affects every cached query
+  const onChanged = (title: string) => () => {
+    queryClient.invalidateQueries();
+    toast({ title });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const switchMutation = useMutation({
+    mutationFn: (id: number) => apiRequest({ url: `/api/households/${id}/switch`, method: 'POST' }),
+    onSuccess: onChanged("Household switched"),
+    onError,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (name: string) => apiRequest({ url: '/api/households', method: 'POST', body: { name } }),
+    onSuccess: () => {
+      setNewHouseholdName('');
+      onChanged("Household created")();
+    },
+    onError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: number; role: HouseholdRoleType }) =>
+      apiRequest({ url: `/api/household/members/${userId}`, method: 'PATCH', body: { role } }),
+    onSuccess: onChanged("Role updated"),
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: number) => apiRequest({ url: `/api/household/members/${userId}`, method: 'DELETE' }),
+    onSuccess: onChanged("Member removed"),
+    onError,
+  });
+
+  const zeroBasedMutation = useMutation({
+    mutationFn: (zeroBased: boolean) => apiRequest({ url: '/api/household', method: 'PATCH', body: { zeroBased } }),
+    onSuccess: (_data, zeroBased) => onChanged(zeroBased ? "Zero-based budgeting on" : "Zero-based budgeting off")(),
+    onError,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: () =>
+      apiRequest({
+        url: '/api/household/invitations',
+        method: 'POST',
+        body: { username: inviteUsername, role: inviteRole },
+      }),
+    onSuccess: () => {
+      setInviteUsername('');
+      queryClient.invalidateQueries({ queryKey: ['/api/household/invitations'] });
+      toast({ title: "Invitation sent" });
+    },
+    onError,
+  });
+
+  const cancelInviteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest({ url: `/api/household/invitations/${id}`, method: 'DELETE' }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/household/invitations'] }),
+    onError,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ id, accept }: { id: number; accept: boolean }) =>
+      apiRequest({ url: `/api/invitations/${id}/${accept ? 'accept' : 'decline'}`, method: 'POST' }),
+    onSuccess: (_data, { accept }) => onChanged(accept ? "Invitation accepted" : "Invitation declined")(),
+    onError,
+  });
+
+  if (!household || !user) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="bg-white max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{household.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Pending invitations for the current user */}
+          {myInvitations.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="font-semibold">Invitations</h3>
+              {myInvitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    {invitation.invitedBy} invited you to <strong>{invitation.householdName}</strong> as {roleLabels[invitation.role].toLowerCase()}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => respondMutation.mutate({ id: invitation.id, accept: true })}>
+                      Accept
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => respondMutation.mutate({ id: invitation.id, accept: false })}>
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Separator />
+            </div>
+          )}
+
+          {/* Members */}
+          <div className="space-y-2">
+            <h3 className="font-semibold">Members</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {household.members.map((member) => (
+                  <TableRow key={member.userId}>
+                    <TableCell>{member.username}{member.userId === user.id && " (you)"}</TableCell>
+                    <TableCell>
+                      {isOwner ? (
+                        <RoleSelect
+                          value={member.role}
+                          onChange={(role) => roleMutation.mutate({ userId: member.userId, role })}
+                          disabled={roleMutation.isPending}
+                        />
+                      ) : roleLabels[member.role]}
+                    </TableCell>
+                    <TableCell>
+                      {(isOwner || member.userId === user.id) && (
+                        <Button
+                          variant="ghost"
+                          className="text-red-500 hover:text-red-700"
+                          onClick={() => removeMutation.mutate(member.userId)}
+                          disabled={removeMutation.isPending}
+                        >
+                          {member.userId === user.id ? 'Leave' : 'Remove'}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Invite (owners only) */}
+          {isOwner && (
+            <div className="space-y-2">
+              <h3 className="font-semibold">Invite a member</h3>
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (inviteUsername.trim()) inviteMutation.mutate();
+                }}
+              >
+                <Input
+                  placeholder="Username"
+                  value={inviteUsername}
+                  onChange={(e) => setInviteUsername(e.target.value)}
+                />
+                <RoleSelect value={inviteRole} onChange={setInviteRole} />
+                <Button type="submit" disabled={inviteMutation.isPending}>Invite</Button>
+              </form>
+
+              {sentInvitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>{invitation.username} ({roleLabels[invitation.role as HouseholdRoleType]}) - pending</span>
+                  <Button variant="ghost" size="sm" onClick={() => cancelInviteMutation.mutate(invitation.id)}>
+                    Cancel
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Budgeting mode (owners only) */}
+          {isOwner && (
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h3 className="font-semibold">Zero-based budgeting</h3>
+                <p className="text-sm text-muted-foreground">
+                  Assign every month's expected income before the month can be closed
+                </p>
+              </div>
+              <Switch
+                checked={household.zeroBased}
+                onCheckedChange={(checked: boolean) => zeroBasedMutation.mutate(checked)}
+                disabled={zeroBasedMutation.isPending}
+              />
+            </div>
+          )}
+
+          <Separator />
+
+          {/* Switch or create households */}
+          <div className="space-y-2">
+            <h3 className="font-semibold">Your households</h3>
+            {households.map((h) => (
+              <div key={h.id} className="flex items-center justify-between text-sm">
+                <span>{h.name} <span className="text-muted-foreground">({roleLabels[h.role]})</span></span>
+                {h.id === household.id ? (
+                  <span className="text-muted-foreground">Active</span>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => switchMutation.mutate(h.id)}>
+                    Switch
+                  </Button>
+                )}
+              </div>
+            ))}
+            <form
+              className="flex gap-2 pt-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (newHouseholdName.trim()) createMutation.mutate(newHouseholdName.trim());
+              }}
+            >
+              <Input
+                placeholder="New household name"
+                value={newHouseholdName}
+                onChange={(e) => setNewHouseholdName(e.target.value)}
+              />
+              <Button type="submit" variant="outline" disabled={createMutation.isPending}>Create</Button>
+            </form>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
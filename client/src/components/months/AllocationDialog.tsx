@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { Separator } from "../ui/separator";
+import { apiRequest } from "../../lib/queryClient";
+import { formatCurrency } from "../../lib/utils";
+import { useToast } from "../../hooks/use-toast";
+import { monthDateOf, type MonthBudget } from "@shared/months";
+import type { AllocationTargetType, Category, InsertMonthAllocation } from "@shared/schema";
+
+interface AllocationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  budget: MonthBudget;
+  categories: Category[];
+  readOnly: boolean;
+}
+
+// One input per category plus savings and the buffer, keyed 'CATEGORY:3', 'SAVINGS', 'BUFFER'
+const keyOf = (target: AllocationTargetType, categoryId?: number | null) =>
+  target === 'CATEGORY' ? `${target}:${categoryId}` : target;
+
+const allocationOf = (key: string, amount: string): InsertMonthAllocation => {
+  const [target, categoryId] = key.split(':');
+  return categoryId === undefined
+    ? { target: target as AllocationTargetType, amount }
+    : { target: 'CATEGORY', categoryId: Number(categoryId), amount };
+};
+
+const savedAmounts = (budget: MonthBudget): Record<string, string> => Object.fromEntries(budget.allocations.map((allocation) =>
+  [keyOf(allocation.target as AllocationTargetType, allocation.categoryId), String(Number(allocation.amount))]
+));
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const leftColor = (left: number) => left === 0 ? "text-green-600" : left > 0 ? "text-amber-600" : "text-red-600";
+
+// Assigns the month's expected income to categories, savings and the buffer
+export default function AllocationDialog({ open, onClose, budget, categories, readOnly }: AllocationDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (open) setAmounts(savedAmounts(budget));
+  }, [open, budget]);
+
+  const assigned = Object.values(amounts).reduce((sum, amount) => sum + (Number(amount) || 0), 0);
+  const left = toCents(budget.expectedIncome - assigned);
+  const plannedFor = (categoryId: number) => budget.planned.find((planned) => planned.categoryId === categoryId)?.amount ?? 0;
+
+  // Only the amounts that changed are sent
+  const save = useMutation({
+    mutationFn: () => {
+      const saved = savedAmounts(budget);
+      return Promise.all(Object.entries(amounts)
+        .filter(([key, amount]) => (Number(amount) || 0) !== Number(saved[key] ?? 0))
+        .map(([key, amount]) => apiRequest({
+          url: `/api/months/${budget.month}/allocations`,
+          method: 'PUT',
+          body: allocationOf(key, String(Number(amount) || 0)),
+        })));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/months/${budget.month}`] });
+      toast({ title: "Saved", description: "Allocations saved." });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const amountInput = (key: string, label: string) => (
+    <Input
+      type="number"
+      step="0.01"
+      min="0"
+      className="w-32 text-right"
+      value={amounts[key] ?? ''}
+      onChange={(e) => setAmounts({ ...amounts, [key]: e.target.value })}
+      placeholder="0.00"
+      disabled={readOnly}
+      aria-label={`${label} allocation`}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Assign {format(monthDateOf(budget.month), 'MMMM yyyy')}</DialogTitle>
+          <DialogDescription>
+            Give every dollar of expected income a job until nothing is left to assign
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div>
+            <p className="text-xs text-muted-foreground">Expected income</p>
+            <p className="font-semibold text-green-600">{formatCurrency(budget.expectedIncome)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Assigned</p>
+            <p className="font-semibold">{formatCurrency(assigned)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Left to assign</p>
+            <p className={`font-semibold ${leftColor(left)}`}>{formatCurrency(left)}</p>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Categories</h3>
+          {categories.map((category) => (
+            <div key={category.id} className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: category.color }} />
+                <span className="truncate">{category.name}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  planned {formatCurrency(plannedFor(category.id))}
+                </span>
+              </div>
+              {amountInput(keyOf('CATEGORY', category.id), category.name)}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Savings and buffer</h3>
+          <div className="flex items-center justify-between gap-2">
+            <span>Savings</span>
+            {amountInput('SAVINGS', 'Savings')}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span>Buffer</span>
+              {!readOnly && left > 0 && (
+                <button
+                  className="text-xs text-blue-600 hover:underline"
+                  onClick={() => setAmounts({ ...amounts, BUFFER: String(toCents((Number(amounts.BUFFER) || 0) + left)) })}
+                >
+                  Add what's left
+                </button>
+              )}
+            </div>
+            {amountInput('BUFFER', 'Buffer')}
+          </div>
+        </div>
+
+        {!readOnly && (
+          <DialogFooter>
+            <Button onClick={() => save.mutate()} disabled={save.isPending}>
+              Save Allocations
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CheckCircle2, Lock } from "lucide-react";
+import { Card } from "../ui/card";
+import { Button } from "../ui/button";
+import { apiRequest } from "../../lib/queryClient";
+import { formatCurrency } from "../../lib/utils";
+import { useToast } from "../../hooks/use-toast";
+import { useHousehold } from "../../hooks/use-household";
+import { useMonthBudget } from "../../hooks/use-month-budget";
+import { closeBlockerOf, monthDateOf } from "@shared/months";
+import type { Category } from "@shared/schema";
+import AllocationDialog from "./AllocationDialog";
+
+interface LeftToAssignProps {
+  date: Date;
+  categories: Category[];
+  accountId?: number;
+}
+
+// Zero-based households only: how much of date's month's expected income still needs a job,
+// and closing the month once none does
+export default function LeftToAssign({ date, categories, accountId }: LeftToAssignProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { household, canEdit, isOwner } = useHousehold();
+  const budget = useMonthBudget(date, accountId);
+  const [assigning, setAssigning] = useState(false);
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/months/${budget!.month}`] });
+    toast({ title });
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const close = useMutation({
+    mutationFn: () => apiRequest({ url: `/api/months/${budget!.month}/close`, method: 'POST' }),
+    onSuccess: onSuccess("Month closed"),
+    onError,
+  });
+
+  const reopen = useMutation({
+    mutationFn: () => apiRequest({ url: `/api/months/${budget!.month}/close`, method: 'DELETE' }),
+    onSuccess: onSuccess("Month reopened"),
+    onError,
+  });
+
+  if (!household?.zeroBased || !budget) return null;
+
+  const blocker = closeBlockerOf(budget);
+  const monthName = format(monthDateOf(budget.month), 'MMMM');
+  const leftColor = budget.leftToAssign === 0 ? "text-green-600" : budget.leftToAssign > 0 ? "text-amber-600" : "text-red-600";
+
+  return (
+    <Card className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+      <div>
+        <h2 className="text-sm font-medium text-muted-foreground">Left to assign in {monthName}</h2>
+        <p className={`text-3xl font-bold ${leftColor}`}>{formatCurrency(budget.leftToAssign)}</p>
+        <p className="text-xs text-muted-foreground">
+          {formatCurrency(budget.assigned)} of {formatCurrency(budget.expectedIncome)} expected income assigned
+        </p>
+      </div>
+
+      <div className="flex flex-col items-stretch sm:items-end gap-2">
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setAssigning(true)}>
+            {canEdit && !budget.close ? 'Assign' : 'View Allocations'}
+          </Button>
+          {budget.close ? (
+            isOwner && (
+              <Button variant="outline" onClick={() => reopen.mutate()} disabled={reopen.isPending}>
+                Reopen Month
+              </Button>
+            )
+          ) : (
+            canEdit && (
+              <Button onClick={() => close.mutate()} disabled={!!blocker || close.isPending}>
+                <Lock className="mr-2 h-4 w-4" />
+                Close Month
+              </Button>
+            )
+          )}
+        </div>
+        {budget.close ? (
+          <span className="flex items-center gap-1 text-xs text-green-600">
+            <CheckCircle2 className="h-3 w-3" />
+            {monthName} is closed
+          </span>
+        ) : blocker && (
+          <span className="text-xs text-muted-foreground">{blocker}</span>
+        )}
+      </div>
+
+      <AllocationDialog
+        open={assigning}
+        onClose={() => setAssigning(false)}
+        budget={budget}
+        categories={categories}
+        readOnly={!canEdit || !!budget.close}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+import * as React from 'react';
+import type { Control, FieldPath, FieldValues } from "react-hook-form";
+import { FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../ui/form";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import { CalendarIcon, Plus, X } from "lucide-react";
+import { parseISO } from "date-fns";
+import { formatDateForDisplay, formatDateForServer } from "../../lib/utils";
+import { describeAmountSchedule, MONTH_NAMES, type AmountSchedule } from "@shared/amountSchedule";
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+
+const EMPTY_SCHEDULE: AmountSchedule = { seasonal: null, changes: [] };
+
+// The form value these fields edit
+export interface AmountScheduleValues extends FieldValues {
+  amountSchedule: AmountSchedule | null;
+}
+
+interface AmountScheduleFieldsProps<T extends AmountScheduleValues> {
+  control: Control<T>;
+}
+
+// Shared by the expense and income forms. The amount above stays the base; seasonal months and
+// dated changes only replace it where they are filled in.
+export default function AmountScheduleFields<T extends AmountScheduleValues>({ control }: AmountScheduleFieldsProps<T>) {
+  return (
+    <FormField
+      control={control}
+      name={"amountSchedule" as FieldPath<T>}
+      render={({ field }) => {
+        const schedule = (field.value as AmountSchedule | null) ?? EMPTY_SCHEDULE;
+        const update = (changes: Partial<AmountSchedule>) => field.onChange({ ...schedule, ...changes });
+        const setMonth = (month: number, amount: string) =>
+          update({ seasonal: schedule.seasonal!.map((value, index) => (index === month ? amount || null : value)) });
+        const setChange = (index: number, change: Partial<AmountSchedule['changes'][number]>) =>
+          update({ changes: schedule.changes.map((value, i) => (i === index ? { ...value, ...change } : value)) });
+
+        return (
+          <FormItem className="space-y-3">
+            <FormLabel>Amount Schedule</FormLabel>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={schedule.seasonal !== null}
+                onCheckedChange={(checked) => update({ seasonal: checked === true ? Array(12).fill(null) : null })}
+              />
+              Different amount by month (e.g. heating in winter)
+            </label>
+
+            {schedule.seasonal && (
+              <div className="grid grid-cols-4 gap-2">
+                {MONTH_NAMES.map((month, index) => (
+                  <div key={month} className="space-y-1">
+                    <span className="text-xs text-muted-foreground">{month}</span>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Base"
+                      value={schedule.seasonal![index] ?? ''}
+                      onChange={(e) => setMonth(index, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {schedule.changes.map((change, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <DatePicker
+                    selected={change.from ? parseISO(change.from) : null}
+                    onChange={(date: Date | null) => date && setChange(index, { from: formatDateForServer(date) })}
+                    dateFormat="MMMM d, yyyy"
+                    customInput={
+                      <Button type="button" variant="outline" className="justify-start text-left font-normal">
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {change.from ? `From ${formatDateForDisplay(parseISO(change.from))}` : 'Pick a date'}
+                      </Button>
+                    }
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="New amount"
+                    value={change.amount}
+                    onChange={(e) => setChange(index, { amount: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => update({ changes: schedule.changes.filter((_, i) => i !== index) })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => update({ changes: [...schedule.changes, { from: formatDateForServer(new Date()), amount: '' }] })}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Amount Change
+              </Button>
+            </div>
+
+            <FormDescription>{describeAmountSchedule(field.value)}</FormDescription>
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
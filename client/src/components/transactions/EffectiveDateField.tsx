@@ -0,0 +1,35 @@
+import * as React from 'react';
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { CalendarIcon } from "lucide-react";
+import { formatDateForDisplay } from "../../lib/utils";
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+
+interface EffectiveDateFieldProps {
+  value: Date;
+  onChange: (date: Date) => void;
+}
+
+// Shown when editing a recurring item: changes to its amount, frequency or date apply from here on
+export default function EffectiveDateField({ value, onChange }: EffectiveDateFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Changes Take Effect</Label>
+      <DatePicker
+        selected={value}
+        onChange={(date: Date | null) => date && onChange(date)}
+        dateFormat="MMMM d, yyyy"
+        customInput={
+          <Button type="button" variant="outline" className="w-full justify-start text-left font-normal">
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {formatDateForDisplay(value)}
+          </Button>
+        }
+      />
+      <p className="text-sm text-muted-foreground">
+        Earlier occurrences keep the old amount and schedule
+      </p>
+    </div>
+  );
+}
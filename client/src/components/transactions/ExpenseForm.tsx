@@ -1,18 +1,30 @@
 import * as React from 'react';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "../ui/form";
 import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Checkbox } from "../ui/checkbox";
 import { Button } from "../ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
 import { CalendarIcon } from "lucide-react";
 import { parseISO } from "date-fns";
 import { insertExpenseSchema, type Category, type Expense } from "../../../../shared/schema";
 import { useToast } from "../../hooks/use-toast";
+import { useGoals } from "../../hooks/use-goals";
+import { useAccounts } from "../../hooks/use-accounts";
 import { formatDateForServer, formatDateForDisplay } from "../../lib/utils";
+import RecurrenceLimitFields from "./RecurrenceLimitFields";
+import AmountScheduleFields from "./AmountScheduleFields";
+import EffectiveDateField from "./EffectiveDateField";
+import RecurrenceRuleFields, { frequencyOptions, ruleForFrequency } from "./RecurrenceRuleFields";
+import { ruleFromFrequency, type RecurrenceRule } from "@shared/recurrence";
+import { hasAmountSchedule, type AmountSchedule } from "@shared/amountSchedule";
+import { fromStart } from "@shared/history";
+import { SINKING_FUND_FREQUENCIES } from "@shared/sinkingFunds";
 import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
 
@@ -59,6 +71,14 @@ export default function ExpenseForm({ open, onClose, editExpense }: ExpenseFormP
     }
   });
 
+  const goals = useGoals();
+  const accounts = useAccounts();
+  const [effectiveDate, setEffectiveDate] = useState<Date>(new Date());
+  // 'none' or a goal ID; Select items can't have an empty value
+  const [goalId, setGoalId] = useState('none');
+  const [accountId, setAccountId] = useState('none');
+  const [sinkingFund, setSinkingFund] = useState(false);
+
   const form = useForm({
     resolver: zodResolver(insertExpenseSchema),
     defaultValues: {
@@ -66,18 +86,30 @@ export default function ExpenseForm({ open, onClose, editExpense }: ExpenseFormP
       amount: '',
       date: new Date(),
       frequency: '',
+      recurrence: null as RecurrenceRule | null,
+      endDate: null as Date | null,
+      occurrenceCount: null as number | null,
+      amountSchedule: null as AmountSchedule | null,
       categoryId: ''
     }
   });
 
   useEffect(() => {
     if (open) {
+      setEffectiveDate(new Date());
+      setGoalId(editExpense?.goalId ? String(editExpense.goalId) : 'none');
+      setAccountId(editExpense?.accountId ? String(editExpense.accountId) : 'none');
+      setSinkingFund(editExpense?.sinkingFund ?? false);
       if (editExpense) {
         form.reset({
           name: editExpense.name,
           amount: editExpense.amount,
           date: parseISO(editExpense.date),
           frequency: editExpense.frequency,
+          recurrence: editExpense.recurrence ?? ruleFromFrequency(editExpense.frequency),
+          endDate: editExpense.endDate ? parseISO(editExpense.endDate) : null,
+          occurrenceCount: editExpense.occurrenceCount,
+          amountSchedule: editExpense.amountSchedule,
           categoryId: editExpense.categoryId?.toString() || ''
         });
       } else {
@@ -86,6 +118,10 @@ export default function ExpenseForm({ open, onClose, editExpense }: ExpenseFormP
           amount: '',
           date: new Date(),
           frequency: '',
+          recurrence: null,
+          endDate: null,
+          occurrenceCount: null,
+          amountSchedule: null,
           categoryId: ''
         });
       }
@@ -99,7 +135,20 @@ export default function ExpenseForm({ open, onClose, editExpense }: ExpenseFormP
         amount: values.amount,
         date: formatDateForServer(values.date),
         frequency: values.frequency,
-        category_id: Number(values.categoryId)
+        recurrence: ruleForFrequency(values.frequency, values.recurrence),
+        endDate: values.endDate ? formatDateForServer(values.endDate) : null,
+        occurrenceCount: values.occurrenceCount ?? null,
+        amountSchedule: hasAmountSchedule(values.amountSchedule) ? values.amountSchedule : null,
+        category_id: Number(values.categoryId),
+        goalId: goalId === 'none' ? null : Number(goalId),
+        accountId: accountId === 'none' ? null : Number(accountId),
+        sinkingFund: sinkingFund && SINKING_FUND_FREQUENCIES.includes(values.frequency),
+        // One-off expenses are corrected outright; recurring ones change from the chosen date
+        ...(editExpense && {
+          effectiveDate: values.frequency === 'ONCE'
+            ? fromStart(editExpense.date, formatDateForServer(values.date))
+            : formatDateForServer(effectiveDate)
+        })
       };
 
       const url = editExpense ? `/api/expenses/${editExpense.id}` : '/api/expenses';
@@ -121,6 +170,7 @@ export default function ExpenseForm({ open, onClose, editExpense }: ExpenseFormP
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/item-changes'] });
       toast({
         title: `Expense ${editExpense ? 'Updated' : 'Created'}`,
         description: `Expense was successfully ${editExpense ? 'updated' : 'created'}.`
@@ -216,7 +266,10 @@ export default function ExpenseForm({ open, onClose, editExpense }: ExpenseFormP
                   <FormLabel>Frequency</FormLabel>
                   <Select
                     value={field.value}
-                    onValueChange={field.onChange}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      form.setValue('recurrence', ruleForFrequency(value, form.getValues('recurrence')));
+                    }}
                   >
                     <FormControl>
                       <SelectTrigger>
@@ -224,9 +277,9 @@ export default function ExpenseForm({ open, onClose, editExpense }: ExpenseFormP
                       </SelectTrigger>
                     </FormControl>
                     <StyledSelectContent>
-                      <SelectItem value="MONTHLY">Monthly</SelectItem>
-                      <SelectItem value="YEARLY">Yearly</SelectItem>
-                      <SelectItem value="ONCE">Once</SelectItem>
+                      {frequencyOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
                     </StyledSelectContent>
                   </Select>
                   <FormMessage />
@@ -234,6 +287,32 @@ export default function ExpenseForm({ open, onClose, editExpense }: ExpenseFormP
               )}
             />
 
+            {form.watch('frequency') === 'CUSTOM' && <RecurrenceRuleFields control={form.control} />}
+
+            {form.watch('frequency') !== 'ONCE' && <RecurrenceLimitFields control={form.control} />}
+
+            {form.watch('frequency') !== 'ONCE' && <AmountScheduleFields control={form.control} />}
+
+            {editExpense && form.watch('frequency') !== 'ONCE' && (
+              <EffectiveDateField value={effectiveDate} onChange={setEffectiveDate} />
+            )}
+
+            {SINKING_FUND_FREQUENCIES.includes(form.watch('frequency')) && (
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="expense-sinking-fund"
+                  checked={sinkingFund}
+                  onCheckedChange={(checked: boolean | 'indeterminate') => setSinkingFund(checked === true)}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="expense-sinking-fund">Accrue as a sinking fund</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Set aside a share every month so the payment doesn't land on a single month
+                  </p>
+                </div>
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="categoryId"
@@ -268,6 +347,40 @@ export default function ExpenseForm({ open, onClose, editExpense }: ExpenseFormP
               }}
             />
 
+            {goals.length > 0 && (
+              <div className="space-y-2">
+                <Label>Contributes to goal</Label>
+                <Select value={goalId} onValueChange={setGoalId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <StyledSelectContent>
+                    <SelectItem value="none">No goal</SelectItem>
+                    {goals.map((goal) => (
+                      <SelectItem key={goal.id} value={goal.id.toString()}>{goal.name}</SelectItem>
+                    ))}
+                  </StyledSelectContent>
+                </Select>
+              </div>
+            )}
+
+            {accounts.length > 0 && (
+              <div className="space-y-2">
+                <Label>Paid from</Label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <StyledSelectContent>
+                    <SelectItem value="none">No account</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id.toString()}>{account.name}</SelectItem>
+                    ))}
+                  </StyledSelectContent>
+                </Select>
+              </div>
+            )}
+
             <Button type="submit" disabled={mutation.isPending}>
               {mutation.isPending ? 'Saving...' : editExpense ? 'Update' : 'Add'} Expense
             </Button>
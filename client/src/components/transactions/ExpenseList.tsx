@@ -7,6 +7,10 @@ import { parseISO } from "date-fns";
 import { Button } from "../ui/button";
 import { formatDateForDisplay } from "../../lib/utils";
 import { useToast } from "../../hooks/use-toast";
+import { describeRecurrence, recurrenceOf } from "@shared/recurrence";
+import { describeAmountSchedule, hasAmountSchedule } from "@shared/amountSchedule";
+import { describeHistory } from "@shared/history";
+import { useItemChanges } from "../../hooks/use-item-changes";
 
 interface ExpenseListProps {
   open: boolean;
@@ -21,6 +25,7 @@ export default function ExpenseList({ open, onClose, onEdit, onDelete }: Expense
   const { data: expenses } = useQuery<Expense[]>({
     queryKey: ['/api/expenses']
   });
+  const changes = useItemChanges();
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -105,10 +110,20 @@ export default function ExpenseList({ open, onClose, onEdit, onDelete }: Expense
 
                 return (
                   <TableRow key={expense.id}>
-                    <TableCell>{expense.name}</TableCell>
-                    <TableCell>${expense.amount}</TableCell>
+                    <TableCell>
+                      {expense.name}
+                      {describeHistory(expense, 'expense', changes).map((line) => (
+                        <div key={line} className="text-xs text-muted-foreground">{line}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      ${expense.amount}
+                      {hasAmountSchedule(expense.amountSchedule) && (
+                        <div className="text-xs text-muted-foreground">{describeAmountSchedule(expense.amountSchedule)}</div>
+                      )}
+                    </TableCell>
                     <TableCell>{formatDateForDisplay(utcDate)}</TableCell>
-                    <TableCell>{expense.frequency}</TableCell>
+                    <TableCell>{describeRecurrence(recurrenceOf(expense))}</TableCell>
                     <TableCell>
                       <div className="flex gap-2">
                         <Button 
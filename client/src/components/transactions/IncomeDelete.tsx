@@ -17,51 +17,17 @@ export default function IncomeDelete({ open, onClose, income }: IncomeDeleteProp
 
   const mutation = useMutation({
     mutationFn: async () => {
-      const isPartOfTwiceMonthly = income.name.includes("1st Payment") || income.name.includes("2nd Payment");
-      const baseName = income.name.replace(" - 1st Payment", "").replace(" - 2nd Payment", "");
-
-      if (isPartOfTwiceMonthly) {
-        // Get all incomes to find the related entry
-        const response = await fetch('/api/incomes');
-        if (!response.ok) {
-          throw new Error('Failed to fetch incomes');
-        }
-        const allIncomes = await response.json();
-
-        // Find the related income entry
-        const relatedIncome = allIncomes.find((inc: Income) => 
-          inc.id !== income.id && 
-          inc.name.startsWith(baseName) && 
-          (inc.name.includes("1st Payment") || inc.name.includes("2nd Payment"))
-        );
-
-        // Delete both entries
-        const deletePromises = [
-          fetch(`/api/incomes/${income.id}`, { method: "DELETE" }),
-          relatedIncome && fetch(`/api/incomes/${relatedIncome.id}`, { method: "DELETE" })
-        ].filter(Boolean);
-
-        const results = await Promise.all(deletePromises);
-
-        if (!results.every(res => res.ok)) {
-          throw new Error('Failed to delete one or more income entries');
-        }
-
+      const response = await fetch(`/api/incomes/${income.id}`, {
+        method: "DELETE"
+      });
+      if (!response.ok) {
+        throw new Error('Failed to delete income');
+      }
+      // For 204 No Content responses, we don't try to parse JSON
+      if (response.status === 204) {
         return null;
-      } else {
-        // Regular single income deletion
-        const response = await fetch(`/api/incomes/${income.id}`, {
-          method: "DELETE"
-        });
-        if (!response.ok) {
-          throw new Error('Failed to delete income');
-        }
-        // For 204 No Content responses, we don't try to parse JSON
-        if (response.status === 204) {
-          return null;
-        }
-        return response.json();
       }
+      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/incomes'] });
@@ -87,8 +53,6 @@ export default function IncomeDelete({ open, onClose, income }: IncomeDeleteProp
           <DialogTitle>Delete Income</DialogTitle>
           <DialogDescription>
             Are you sure you want to delete the income "{income.name}"? This action cannot be undone.
-            {(income.name.includes("1st Payment") || income.name.includes("2nd Payment")) && 
-              " Both entries of this twice-monthly income will be deleted."}
           </DialogDescription>
         </DialogHeader>
 
@@ -1,5 +1,5 @@
 import * as React from 'react';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
@@ -12,7 +12,15 @@ import { CalendarIcon } from "lucide-react";
 import { parseISO } from "date-fns";
 import { insertIncomeSchema, type Income } from "../../../../shared/schema";
 import { useToast } from "../../hooks/use-toast";
+import { useAccounts } from "../../hooks/use-accounts";
 import { formatDateForServer, formatDateForDisplay } from "../../lib/utils";
+import RecurrenceLimitFields from "./RecurrenceLimitFields";
+import AmountScheduleFields from "./AmountScheduleFields";
+import EffectiveDateField from "./EffectiveDateField";
+import RecurrenceRuleFields, { frequencyOptions, ruleForFrequency } from "./RecurrenceRuleFields";
+import { ruleFromFrequency, type RecurrenceRule } from "@shared/recurrence";
+import { hasAmountSchedule } from "@shared/amountSchedule";
+import { fromStart } from "@shared/history";
 import DatePicker from "react-datepicker";
 import "react-datepicker/dist/react-datepicker.css";
 
@@ -59,6 +67,13 @@ export default function IncomeForm({ open, onClose, editIncome }: IncomeFormProp
       })()
     : today;
 
+  const [effectiveDate, setEffectiveDate] = useState<Date>(new Date());
+  const accounts = useAccounts();
+
+  useEffect(() => {
+    if (open) setEffectiveDate(new Date());
+  }, [open]);
+
   const form = useForm({
     resolver: zodResolver(insertIncomeSchema),
     defaultValues: {
@@ -66,7 +81,12 @@ export default function IncomeForm({ open, onClose, editIncome }: IncomeFormProp
       amount: editIncome?.amount ?? "",
       date: initialDate,
       frequency: editIncome?.frequency ?? "",
-      source: editIncome?.source ?? ""
+      recurrence: editIncome ? editIncome.recurrence ?? ruleFromFrequency(editIncome.frequency) : null,
+      endDate: editIncome?.endDate ? parseISO(editIncome.endDate) : null,
+      occurrenceCount: editIncome?.occurrenceCount ?? null,
+      amountSchedule: editIncome?.amountSchedule ?? null,
+      source: editIncome?.source ?? "",
+      accountId: editIncome?.accountId ?? null
     }
   });
 
@@ -75,7 +95,16 @@ export default function IncomeForm({ open, onClose, editIncome }: IncomeFormProp
       const formattedData = {
         ...values,
         date: formatDateForServer(values.date),
-        amount: String(values.amount)
+        recurrence: ruleForFrequency(values.frequency, values.recurrence),
+        endDate: values.endDate ? formatDateForServer(values.endDate) : null,
+        amountSchedule: hasAmountSchedule(values.amountSchedule) ? values.amountSchedule : null,
+        amount: String(values.amount),
+        // One-off incomes are corrected outright; recurring ones change from the chosen date
+        ...(editIncome && {
+          effectiveDate: values.frequency === 'ONCE'
+            ? fromStart(editIncome.date, formatDateForServer(values.date))
+            : formatDateForServer(effectiveDate)
+        })
       };
 
       const response = await fetch(
@@ -98,6 +127,7 @@ export default function IncomeForm({ open, onClose, editIncome }: IncomeFormProp
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['incomes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/item-changes'] });
       toast({
         title: `Income ${editIncome ? 'Updated' : 'Created'}`,
         description: `Income was successfully ${editIncome ? 'updated' : 'created'}.`
@@ -198,7 +228,10 @@ export default function IncomeForm({ open, onClose, editIncome }: IncomeFormProp
                   <FormLabel>Frequency</FormLabel>
                   <Select
                     value={field.value}
-                    onValueChange={field.onChange}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      form.setValue('recurrence', ruleForFrequency(value, form.getValues('recurrence')));
+                    }}
                   >
                     <FormControl>
                       <SelectTrigger>
@@ -206,10 +239,9 @@ export default function IncomeForm({ open, onClose, editIncome }: IncomeFormProp
                       </SelectTrigger>
                     </FormControl>
                     <StyledSelectContent>
-                      <SelectItem value="MONTHLY">Monthly</SelectItem>
-                      <SelectItem value="BIWEEKLY">Bi-weekly</SelectItem>
-                      <SelectItem value="YEARLY">Yearly</SelectItem>
-                      <SelectItem value="ONCE">Once</SelectItem>
+                      {frequencyOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
                     </StyledSelectContent>
                   </Select>
                   <FormMessage />
@@ -217,6 +249,16 @@ export default function IncomeForm({ open, onClose, editIncome }: IncomeFormProp
               )}
             />
 
+            {form.watch('frequency') === 'CUSTOM' && <RecurrenceRuleFields control={form.control} />}
+
+            {form.watch('frequency') !== 'ONCE' && <RecurrenceLimitFields control={form.control} />}
+
+            {form.watch('frequency') !== 'ONCE' && <AmountScheduleFields control={form.control} />}
+
+            {editIncome && form.watch('frequency') !== 'ONCE' && (
+              <EffectiveDateField value={effectiveDate} onChange={setEffectiveDate} />
+            )}
+
             <FormField
               control={form.control}
               name="source"
@@ -231,6 +273,35 @@ export default function IncomeForm({ open, onClose, editIncome }: IncomeFormProp
               )}
             />
 
+            {accounts.length > 0 && (
+              <FormField
+                control={form.control}
+                name="accountId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Paid into</FormLabel>
+                    <Select
+                      value={field.value ? String(field.value) : "none"}
+                      onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <StyledSelectContent>
+                        <SelectItem value="none">No account</SelectItem>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id.toString()}>{account.name}</SelectItem>
+                        ))}
+                      </StyledSelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <Button type="submit" disabled={mutation.isPending}>
               {mutation.isPending ? 'Saving...' : editIncome ? 'Update' : 'Add'} Income
             </Button>
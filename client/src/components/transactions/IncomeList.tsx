@@ -7,6 +7,10 @@ import { format, parseISO } from "date-fns";
 import { Button } from "../ui/button";
 import { useState } from "react";
 import IncomeDelete from "./IncomeDelete";
+import { describeRecurrence, recurrenceOf } from "@shared/recurrence";
+import { describeAmountSchedule, hasAmountSchedule } from "@shared/amountSchedule";
+import { describeHistory } from "@shared/history";
+import { useItemChanges } from "../../hooks/use-item-changes";
 interface IncomeListProps {
   open: boolean;
   onClose: () => void;
@@ -17,6 +21,7 @@ export default function IncomeList({ open, onClose, onEdit }: IncomeListProps) {
   const { data: incomes } = useQuery<Income[]>({
     queryKey: ['/api/incomes']
   });
+  const changes = useItemChanges();
 
   const [deleteIncome, setDeleteIncome] = useState<Income | null>(null);
 
@@ -43,11 +48,21 @@ export default function IncomeList({ open, onClose, onEdit }: IncomeListProps) {
               <TableBody>
                 {incomes?.map((income) => (
                   <TableRow key={income.id}>
-                    <TableCell>{income.name}</TableCell>
-                    <TableCell>${income.amount}</TableCell>
+                    <TableCell>
+                      {income.name}
+                      {describeHistory(income, 'income', changes).map((line) => (
+                        <div key={line} className="text-xs text-muted-foreground">{line}</div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      ${income.amount}
+                      {hasAmountSchedule(income.amountSchedule) && (
+                        <div className="text-xs text-muted-foreground">{describeAmountSchedule(income.amountSchedule)}</div>
+                      )}
+                    </TableCell>
                     <TableCell>{format(parseISO(income.date), 'MMM dd, yyyy')}</TableCell>
                     <TableCell>{income.source}</TableCell>
-                    <TableCell>{income.frequency}</TableCell>
+                    <TableCell>{describeRecurrence(recurrenceOf(income))}</TableCell>
                     <TableCell>
                       <div className="flex gap-2">
                         <Button 
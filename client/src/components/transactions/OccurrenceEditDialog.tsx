@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { addDays, differenceInCalendarDays, parseISO } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog";
+import { RadioGroup, RadioGroupItem } from "../ui/radio-group";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { CalendarIcon } from "lucide-react";
+import { apiRequest } from "../../lib/queryClient";
+import { formatDateForDisplay, formatDateForServer, type Occurrence, type OccurrenceKind } from "../../lib/utils";
+import { fromStart } from "@shared/history";
+import { useToast } from "../../hooks/use-toast";
+import type { Expense, Income } from "@shared/schema";
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+
+type Scope = 'this' | 'future' | 'series';
+
+interface OccurrenceEditDialogProps {
+  open: boolean;
+  onClose: () => void;
+  kind: OccurrenceKind;
+  item: Expense | Income;
+  occurrence: Occurrence;
+}
+
+const scopeLabels: Record<Scope, string> = {
+  this: 'This occurrence only',
+  future: 'This and all future occurrences',
+  series: 'The entire series',
+};
+
+// Changes one occurrence through an override, the rest of the series by splitting it,
+// or the whole series by editing the item
+export default function OccurrenceEditDialog({ open, onClose, kind, item, occurrence }: OccurrenceEditDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [scope, setScope] = useState<Scope>('this');
+  const [amount, setAmount] = useState(String(occurrence.amount));
+  const [date, setDate] = useState<Date>(occurrence.date);
+
+  useEffect(() => {
+    if (open) {
+      setScope('this');
+      setAmount(String(occurrence.amount));
+      setDate(occurrence.date);
+    }
+  }, [open, occurrence]);
+
+  const itemUrl = `/api/${kind === 'expense' ? 'expenses' : 'incomes'}/${item.id}`;
+  const originalDate = formatDateForServer(occurrence.originalDate);
+  const itemKey = kind === 'expense' ? { expenseId: item.id } : { incomeId: item.id };
+
+  const mutation = useMutation({
+    mutationFn: async ({ skip }: { skip: boolean }) => {
+      switch (scope) {
+        case 'this': {
+          const movedTo = formatDateForServer(date);
+          const changed = {
+            date: movedTo !== originalDate ? movedTo : null,
+            amount: Number(amount) !== Number(item.amount) ? amount : null,
+          };
+          // Back to what the series says: drop the override instead of storing a no-op
+          if (!skip && !changed.date && !changed.amount) {
+            if (occurrence.override) {
+              await apiRequest({ url: `/api/occurrence-overrides/${occurrence.override.id}`, method: 'DELETE' });
+            }
+            return;
+          }
+          await apiRequest({
+            url: '/api/occurrence-overrides',
+            method: 'PUT',
+            body: { ...itemKey, originalDate, skipped: skip, ...changed },
+          });
+          return;
+        }
+        case 'future':
+          await apiRequest({
+            url: `${itemUrl}/split`,
+            method: 'POST',
+            body: skip
+              ? { fromDate: originalDate, stop: true }
+              : { fromDate: originalDate, date: formatDateForServer(date), amount },
+          });
+          return;
+        case 'series': {
+          // Moving one occurrence of the series moves its start date by the same number of days.
+          // The change takes effect from the earlier start, so it rewrites the whole history
+          const shift = differenceInCalendarDays(date, occurrence.originalDate);
+          const start = formatDateForServer(addDays(parseISO(item.date), shift));
+          await apiRequest({
+            url: itemUrl,
+            method: 'PATCH',
+            body: { amount, date: start, effectiveDate: fromStart(item.date, start) },
+          });
+          return;
+        }
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/occurrence-overrides'] });
+      queryClient.invalidateQueries({ queryKey: [kind === 'expense' ? '/api/expenses' : '/api/incomes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/item-changes'] });
+      toast({ title: "Saved", description: `${item.name} was updated.` });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit {item.name}</DialogTitle>
+          <DialogDescription>
+            Scheduled for {formatDateForDisplay(occurrence.originalDate)}
+            {occurrence.override && ' (already changed for this date)'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={scope} onValueChange={(value: string) => setScope(value as Scope)}>
+            {(Object.keys(scopeLabels) as Scope[]).map((value) => (
+              <div key={value} className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`occurrence-scope-${value}`} />
+                <Label htmlFor={`occurrence-scope-${value}`}>{scopeLabels[value]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="occurrence-amount">Amount</Label>
+            <Input
+              id="occurrence-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Date</Label>
+            <DatePicker
+              selected={date}
+              onChange={(selected: Date | null) => selected && setDate(selected)}
+              dateFormat="MMMM d, yyyy"
+              customInput={
+                <Button variant="outline" className="w-full justify-start text-left font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {formatDateForDisplay(date)}
+                </Button>
+              }
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {scope !== 'series' && (
+            <Button
+              variant="outline"
+              className="text-red-500 hover:text-red-700"
+              onClick={() => mutation.mutate({ skip: true })}
+              disabled={mutation.isPending}
+            >
+              {scope === 'this' ? 'Skip This Occurrence' : 'Stop From Here'}
+            </Button>
+          )}
+          <Button onClick={() => mutation.mutate({ skip: false })} disabled={mutation.isPending || !(Number(amount) >= 0)}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,35 @@
+import React from 'react';
+import { AlertCircle, CheckCircle2, Circle } from "lucide-react";
+import { cn, type OccurrenceKind, type OccurrenceStatus } from "../../lib/utils";
+
+const icons = {
+  paid: CheckCircle2,
+  overdue: AlertCircle,
+  upcoming: Circle,
+};
+
+const colors = {
+  paid: "text-green-600",
+  overdue: "text-orange-500",
+  upcoming: "text-muted-foreground",
+};
+
+export function statusLabel(kind: OccurrenceKind, status: OccurrenceStatus): string {
+  if (status === 'paid') return kind === 'expense' ? 'Paid' : 'Received';
+  return status === 'overdue' ? 'Overdue' : 'Upcoming';
+}
+
+interface OccurrenceStatusIconProps {
+  kind: OccurrenceKind;
+  status: OccurrenceStatus;
+  className?: string;
+}
+
+export default function OccurrenceStatusIcon({ kind, status, className }: OccurrenceStatusIconProps) {
+  const Icon = icons[status];
+  return (
+    <span title={statusLabel(kind, status)} className="inline-flex shrink-0">
+      <Icon className={cn("h-3.5 w-3.5", colors[status], className)} />
+    </span>
+  );
+}
@@ -0,0 +1,80 @@
+import * as React from 'react';
+import type { Control, FieldPath, FieldValues } from "react-hook-form";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../ui/form";
+import { Input } from "../ui/input";
+import { Button } from "../ui/button";
+import { CalendarIcon } from "lucide-react";
+import { formatDateForDisplay } from "../../lib/utils";
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+
+// The form values these fields edit
+export interface RecurrenceLimitValues extends FieldValues {
+  endDate: Date | null;
+  occurrenceCount: number | null;
+}
+
+interface RecurrenceLimitFieldsProps<T extends RecurrenceLimitValues> {
+  control: Control<T>;
+}
+
+// Shared by the expense and income forms; both limits are optional and whichever comes first wins
+export default function RecurrenceLimitFields<T extends RecurrenceLimitValues>({ control }: RecurrenceLimitFieldsProps<T>) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <FormField
+        control={control}
+        name={"endDate" as FieldPath<T>}
+        render={({ field }) => {
+          const value = field.value as Date | null;
+          return (
+            <FormItem>
+              <FormLabel>End Date</FormLabel>
+              <div className="flex gap-2">
+                <DatePicker
+                  selected={value}
+                  onChange={(date: Date | null) => field.onChange(date)}
+                  dateFormat="MMMM d, yyyy"
+                  customInput={
+                    <Button variant="outline" className="w-full justify-start text-left font-normal">
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {value ? formatDateForDisplay(value) : 'No end date'}
+                    </Button>
+                  }
+                />
+                {value && (
+                  <Button type="button" variant="ghost" onClick={() => field.onChange(null)}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+              <FormMessage />
+            </FormItem>
+          );
+        }}
+      />
+
+      <FormField
+        control={control}
+        name={"occurrenceCount" as FieldPath<T>}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Occurrences</FormLabel>
+            <FormControl>
+              <Input
+                type="number"
+                step="1"
+                min="1"
+                placeholder="Unlimited"
+                value={field.value ?? ''}
+                onChange={(e) => field.onChange(e.target.value === '' ? null : Number(e.target.value))}
+              />
+            </FormControl>
+            <FormDescription>Stops after this many payments</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
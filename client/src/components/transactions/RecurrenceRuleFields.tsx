@@ -0,0 +1,171 @@
+import * as React from 'react';
+import type { Control, FieldPath, FieldValues } from "react-hook-form";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "../ui/form";
+import { Input } from "../ui/input";
+import { Checkbox } from "../ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { describeRecurrence, ordinal, ruleFromFrequency, type RecurrenceRule } from "@shared/recurrence";
+
+// Presets for the frequency select; CUSTOM opens the rule editor below
+export const frequencyOptions = [
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'BIWEEKLY', label: 'Bi-weekly' },
+  { value: 'TWICE_MONTHLY', label: 'Twice monthly (1st and 15th)' },
+  { value: 'MONTHLY', label: 'Monthly' },
+  { value: 'QUARTERLY', label: 'Quarterly' },
+  { value: 'SEMI_ANNUAL', label: 'Semi-annual' },
+  { value: 'YEARLY', label: 'Yearly' },
+  { value: 'ONCE', label: 'Once' },
+  { value: 'CUSTOM', label: 'Custom...' },
+];
+
+// The rule to keep when the frequency changes: presets bring their own, CUSTOM starts from the current one
+export function ruleForFrequency(frequency: string, current?: RecurrenceRule | null): RecurrenceRule {
+  if (frequency !== 'CUSTOM') return ruleFromFrequency(frequency);
+  return current && current.type !== 'once' ? current : ruleFromFrequency('MONTHLY');
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const selectClassName = "bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 shadow-lg rounded-md";
+
+// A fresh rule of the chosen type, keeping the current interval where it has one
+function ruleOfType(type: string, current: RecurrenceRule): RecurrenceRule {
+  const every = 'every' in current ? current.every : 1;
+  switch (type) {
+    case 'monthDays':
+      return { type: 'monthDays', days: [1, 15], every };
+    case 'nthWeekday':
+      return { type: 'nthWeekday', nth: 1, weekday: 1, every };
+    case 'lastDay':
+      return { type: 'lastDay', businessDay: false, every };
+    default:
+      return { type: 'interval', unit: 'month', every };
+  }
+}
+
+// "1, 15 31" -> [1, 15, 31]; anything that isn't a day of the month is dropped
+const parseDays = (text: string) =>
+  Array.from(new Set(text.split(/[\s,]+/).map(Number).filter((day) => Number.isInteger(day) && day >= 1 && day <= 31)));
+
+// The form value these fields edit
+export interface RecurrenceRuleValues extends FieldValues {
+  recurrence: RecurrenceRule | null;
+}
+
+interface RecurrenceRuleFieldsProps<T extends RecurrenceRuleValues> {
+  control: Control<T>;
+}
+
+export default function RecurrenceRuleFields<T extends RecurrenceRuleValues>({ control }: RecurrenceRuleFieldsProps<T>) {
+  return (
+    <FormField
+      control={control}
+      name={"recurrence" as FieldPath<T>}
+      render={({ field }) => {
+        const rule = field.value as RecurrenceRule;
+        const update = (changes: Partial<RecurrenceRule>) => field.onChange({ ...rule, ...changes });
+
+        return (
+          <FormItem className="space-y-3 rounded-md border p-3">
+            <FormLabel>Repeats</FormLabel>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={rule.type} onValueChange={(type) => field.onChange(ruleOfType(type, rule))}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent className={selectClassName}>
+                  <SelectItem value="interval">Every N days, weeks, months or years</SelectItem>
+                  <SelectItem value="monthDays">On days of the month</SelectItem>
+                  <SelectItem value="nthWeekday">On a weekday of the month</SelectItem>
+                  <SelectItem value="lastDay">On the last day of the month</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {rule.type !== 'once' && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm">every</span>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    className="w-20"
+                    value={rule.every}
+                    onChange={(e) => update({ every: Math.max(1, Number(e.target.value) || 1) })}
+                  />
+                  {rule.type === 'interval' ? (
+                    <Select value={rule.unit} onValueChange={(unit) => update({ unit } as Partial<RecurrenceRule>)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className={selectClassName}>
+                        <SelectItem value="day">day(s)</SelectItem>
+                        <SelectItem value="week">week(s)</SelectItem>
+                        <SelectItem value="month">month(s)</SelectItem>
+                        <SelectItem value="year">year(s)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-sm">month(s)</span>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {rule.type === 'monthDays' && (
+              <div className="space-y-1">
+                <Input
+                  placeholder="1, 15"
+                  defaultValue={rule.days.join(', ')}
+                  onChange={(e) => update({ days: parseDays(e.target.value) } as Partial<RecurrenceRule>)}
+                />
+                <FormDescription>Days of the month, separated by commas. Days past the end of a month fall on its last day.</FormDescription>
+              </div>
+            )}
+
+            {rule.type === 'nthWeekday' && (
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={String(rule.nth)} onValueChange={(nth) => update({ nth: Number(nth) } as Partial<RecurrenceRule>)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className={selectClassName}>
+                    {[1, 2, 3, 4].map((nth) => (
+                      <SelectItem key={nth} value={String(nth)}>{ordinal(nth)}</SelectItem>
+                    ))}
+                    <SelectItem value="-1">Last</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={String(rule.weekday)} onValueChange={(weekday) => update({ weekday: Number(weekday) } as Partial<RecurrenceRule>)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className={selectClassName}>
+                    {WEEKDAYS.map((name, weekday) => (
+                      <SelectItem key={name} value={String(weekday)}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {rule.type === 'lastDay' && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={rule.businessDay}
+                  onCheckedChange={(checked) => update({ businessDay: checked === true } as Partial<RecurrenceRule>)}
+                />
+                Last business day (Monday to Friday)
+              </label>
+            )}
+
+            <p className="text-sm text-muted-foreground">{describeRecurrence(rule)}</p>
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { parseISO } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Button } from "../ui/button";
+import { CalendarIcon } from "lucide-react";
+import { apiRequest } from "../../lib/queryClient";
+import { formatCurrency, formatDateForDisplay, formatDateForServer, type Occurrence, type OccurrenceKind } from "../../lib/utils";
+import { useToast } from "../../hooks/use-toast";
+import type { Expense, Income, Transaction } from "@shared/schema";
+import DatePicker from "react-datepicker";
+import "react-datepicker/dist/react-datepicker.css";
+
+interface SettleOccurrenceDialogProps {
+  open: boolean;
+  onClose: () => void;
+  kind: OccurrenceKind;
+  item: Pick<Expense | Income, 'id' | 'name'>;
+  occurrence: Occurrence;
+  settlement?: Transaction;
+}
+
+// Records what was actually paid (or received) for one occurrence, or takes it back
+export default function SettleOccurrenceDialog({ open, onClose, kind, item, occurrence, settlement }: SettleOccurrenceDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState<Date>(occurrence.date);
+  const verb = kind === 'expense' ? 'Paid' : 'Received';
+
+  useEffect(() => {
+    if (open) {
+      setAmount(settlement ? String(Number(settlement.amount)) : String(occurrence.amount));
+      setDate(settlement ? parseISO(settlement.date) : occurrence.date);
+    }
+  }, [open, occurrence, settlement]);
+
+  const onSuccess = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+    toast({ title: "Saved", description });
+    onClose();
+  };
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const settle = useMutation({
+    mutationFn: () => apiRequest({
+      url: '/api/transactions',
+      method: 'PUT',
+      body: {
+        ...(kind === 'expense' ? { expenseId: item.id } : { incomeId: item.id }),
+        occurrenceDate: formatDateForServer(occurrence.originalDate),
+        date: formatDateForServer(date),
+        amount,
+      },
+    }),
+    onSuccess: () => onSuccess(`${item.name} marked as ${verb.toLowerCase()}.`),
+    onError,
+  });
+
+  const unsettle = useMutation({
+    mutationFn: () => apiRequest({ url: `/api/transactions/${settlement!.id}`, method: 'DELETE' }),
+    onSuccess: () => onSuccess(`${item.name} is no longer marked as ${verb.toLowerCase()}.`),
+    onError,
+  });
+
+  const isPending = settle.isPending || unsettle.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Mark {item.name} as {verb}</DialogTitle>
+          <DialogDescription>
+            Due {formatDateForDisplay(occurrence.date)} for {formatCurrency(occurrence.amount, true)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="settlement-amount">Actual amount</Label>
+            <Input
+              id="settlement-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>{verb} on</Label>
+            <DatePicker
+              selected={date}
+              onChange={(selected: Date | null) => selected && setDate(selected)}
+              dateFormat="MMMM d, yyyy"
+              customInput={
+                <Button variant="outline" className="w-full justify-start text-left font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {formatDateForDisplay(date)}
+                </Button>
+              }
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {settlement && (
+            <Button
+              variant="outline"
+              className="text-red-500 hover:text-red-700"
+              onClick={() => unsettle.mutate()}
+              disabled={isPending}
+            >
+              Mark Not {verb}
+            </Button>
+          )}
+          <Button onClick={() => settle.mutate()} disabled={isPending || amount === '' || !(Number(amount) >= 0)}>
+            Mark {verb}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
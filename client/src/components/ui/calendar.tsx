@@ -5,14 +5,14 @@ import {
   endOfMonth,
   eachDayOfInterval,
   format,
-  parseISO,
   isWithinInterval,
   isSameDay,
   isBefore
 } from "date-fns";
 import { Card } from "../ui/card";
 import { Button } from "../ui/button";
-import { formatCurrency, getRecurringDates } from "../../lib/utils";
+import { formatCurrency } from "../../lib/utils";
+import { useOccurrences } from "../../hooks/use-occurrences";
 import DaySummary from "../DaySummary";
 import type { Expense, Income } from "@shared/schema";
 import { TODAY } from "../../pages/Dashboard";
@@ -46,6 +46,7 @@ export default function Calendar({
   const minimumDate = new Date('2025-01-01');
   const activeDate = isBefore(date ?? TODAY, minimumDate) ? minimumDate : date;
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+  const occurrences = useOccurrences({ from: startOfMonth(activeDate), to: endOfMonth(activeDate) });
 
   const days = useMemo(() => {
     const monthStart = startOfMonth(activeDate);
@@ -59,34 +60,20 @@ export default function Calendar({
       dateMap.set(format(day, "yyyy-MM-dd"), { expenses: [], incomes: [] });
     });
 
-    incomes.forEach(income => {
-      const incomeDate = typeof income.date === "string" ? parseISO(income.date) : income.date;
-      const recurringDates = getRecurringDates(incomeDate, income.frequency, endOfMonth(activeDate))
-        .filter((d: Date) => isWithinInterval(d, { start: startOfMonth(activeDate), end: endOfMonth(activeDate) }));
-
-      recurringDates.forEach((date: Date) => {
-        const key = format(date, "yyyy-MM-dd");
-        if (dateMap.has(key)) {
-          dateMap.get(key)!.incomes.push({ ...income, date: date.toISOString() });
-        }
-      });
-    });
-
-    expenses.forEach(expense => {
-      const expenseDate = typeof expense.date === "string" ? parseISO(expense.date) : expense.date;
-      const recurringDates = getRecurringDates(expenseDate, expense.frequency, endOfMonth(activeDate))
-        .filter((d: Date) => isWithinInterval(d, { start: startOfMonth(activeDate), end: endOfMonth(activeDate) }));
-
-      recurringDates.forEach((date: Date) => {
-        const key = format(date, "yyyy-MM-dd");
-        if (dateMap.has(key)) {
-          dateMap.get(key)!.expenses.push({ ...expense, date: date.toISOString() });
-        }
-      });
+    occurrences.forEach((row) => {
+      const day = dateMap.get(row.date);
+      if (!day) return;
+      if (row.kind === "income") {
+        const income = incomes.find((candidate) => candidate.id === row.itemId);
+        if (income) day.incomes.push({ ...income, date: row.date, amount: String(row.amount) });
+      } else {
+        const expense = expenses.find((candidate) => candidate.id === row.itemId);
+        if (expense) day.expenses.push({ ...expense, date: row.date, amount: String(row.amount) });
+      }
     });
 
     return dateMap;
-  }, [activeDate, expenses, incomes, days]);
+  }, [occurrences, expenses, incomes, days]);
 
   const handleClick = (day: Date) => {
     if (isBefore(day, minimumDate)) return; // Prevent selection before January 1, 2025
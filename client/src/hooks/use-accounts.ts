@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { accountStatementOf } from "@shared/accounts";
+import { monthDateOf, monthIntervalOf, monthKeyOf } from "@shared/months";
+import type { Account } from "@shared/schema";
+import { useOccurrences } from "./use-occurrences";
+
+// Shared so memoized consumers don't recompute while the query loads
+const NO_ACCOUNTS: Account[] = [];
+
+// The household's accounts by name
+export function useAccounts() {
+  const { data: accounts = NO_ACCOUNTS } = useQuery<Account[]>({
+    queryKey: ['/api/accounts'],
+  });
+  return accounts;
+}
+
+// Each account's balance at the end of today, by account id
+export function useAccountBalances(accounts: Account[]) {
+  const today = useMemo(() => new Date(), []);
+  const earliest = accounts.reduce((min, account) => (account.openingDate < min ? account.openingDate : min), format(today, 'yyyy-MM-dd'));
+  const rows = useOccurrences({ from: parseISO(earliest), to: today });
+
+  return useMemo(
+    () => new Map(accounts.map((account) => [account.id, accountStatementOf(account, rows, { from: today, to: today }).closing])),
+    [accounts, rows, today]
+  );
+}
+
+// One account's statement for date's month
+export function useAccountStatement(account: Account, date: Date) {
+  const month = monthKeyOf(date);
+  const { to } = monthIntervalOf(date);
+  const opened = parseISO(account.openingDate);
+  const rows = useOccurrences({ from: opened < to ? opened : to, to, accountId: account.id });
+
+  return useMemo(
+    () => accountStatementOf(account, rows, monthIntervalOf(monthDateOf(month))),
+    [account, rows, month]
+  );
+}
@@ -0,0 +1,102 @@
+import React, { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import type { SafeUser, InsertUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "../lib/queryClient";
+import { useToast } from "./use-toast";
+
+type AuthContextType = {
+  user: SafeUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<SafeUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<SafeUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<SafeUser | null, Error>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    staleTime: Infinity,
+  });
+
+  const onAuthenticated = (user: SafeUser) => {
+    // Drop anything cached for a previous user before loading the new user's data
+    queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== '/api/user' });
+    queryClient.setQueryData(['/api/user'], user);
+  };
+
+  const loginMutation = useMutation<SafeUser, Error, InsertUser>({
+    mutationFn: (credentials) =>
+      apiRequest<SafeUser, InsertUser>({ url: '/api/login', method: 'POST', body: credentials }),
+    onSuccess: onAuthenticated,
+    onError: (error) => {
+      toast({
+        title: "Login Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation<SafeUser, Error, InsertUser>({
+    mutationFn: (credentials) =>
+      apiRequest<SafeUser, InsertUser>({ url: '/api/register', method: 'POST', body: credentials }),
+    onSuccess: onAuthenticated,
+    onError: (error) => {
+      toast({
+        title: "Registration Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation<void, Error, void>({
+    mutationFn: async () => {
+      await apiRequest({ url: '/api/logout', method: 'POST' });
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Logout Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import type { CategoryBudget } from "@shared/schema";
+
+// Shared so memoized consumers don't recompute while the query loads
+const NO_BUDGETS: CategoryBudget[] = [];
+
+// The household's spending limits, at most one per category
+export function useCategoryBudgets() {
+  const { data: budgets = NO_BUDGETS } = useQuery<CategoryBudget[]>({
+    queryKey: ['/api/category-budgets'],
+  });
+  return budgets;
+}
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import type { DebtStrategyType } from "@shared/schema";
+import type { DebtPlan } from "@shared/debts";
+
+export interface DebtPlans {
+  strategy: DebtStrategyType;
+  // One per strategy, in DebtStrategy's order
+  plans: DebtPlan[];
+}
+
+// The household's debts amortized under each strategy, and the strategy its payments follow
+export function useDebtPlans() {
+  const { data } = useQuery<DebtPlans>({
+    queryKey: ['/api/debts/plans'],
+  });
+  return data;
+}
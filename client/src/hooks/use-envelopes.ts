@@ -0,0 +1,18 @@
+import { useMemo } from "react";
+import { envelopeOf, envelopesRangeOf } from "@shared/budgets";
+import { useCategoryBudgets } from "./use-category-budgets";
+import { useOccurrences } from "./use-occurrences";
+
+// Every category budget as an envelope for the period containing date, carrying each
+// earlier period's leftover or overspending per its rollover policy
+export function useEnvelopes(date: Date) {
+  const budgets = useCategoryBudgets();
+
+  const { from, to } = useMemo(() => envelopesRangeOf(budgets, date), [budgets, date]);
+  const rows = useOccurrences({ from, to, type: 'expense' });
+
+  return useMemo(
+    () => budgets.map((budget) => envelopeOf(budget, rows, date)),
+    [budgets, rows, date]
+  );
+}
@@ -0,0 +1,26 @@
+import { useMemo } from "react";
+import { parseISO } from "date-fns";
+import { forecastOf } from "@shared/forecast";
+import { useHousehold } from "./use-household";
+import { useOccurrences } from "./use-occurrences";
+
+// The projected running balance from the household's starting balance through to, or no days
+// until a starting balance is set. to should be memoized by the caller; accountId projects only
+// that account's incomes and expenses.
+export function useForecast(to: Date, accountId?: number) {
+  const { household } = useHousehold();
+  const startingBalance = household?.startingBalance ?? null;
+  const startingBalanceDate = household?.startingBalanceDate ?? null;
+  const threshold = Number(household?.lowBalanceThreshold ?? 0);
+  // Without a start the query covers a single day and goes unused
+  const rows = useOccurrences({ from: startingBalanceDate ? parseISO(startingBalanceDate) : to, to, accountId });
+
+  const days = useMemo(
+    () => startingBalance === null || startingBalanceDate === null
+      ? []
+      : forecastOf(rows, { startingBalance: Number(startingBalance), from: parseISO(startingBalanceDate), to, threshold }),
+    [rows, startingBalance, startingBalanceDate, to, threshold]
+  );
+
+  return { days, threshold, configured: startingBalance !== null && startingBalanceDate !== null };
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Goal } from "@shared/schema";
+import type { GoalProgress } from "@shared/goals";
+
+// Shared so memoized consumers don't recompute while the query loads
+const NO_GOALS: Goal[] = [];
+const NO_PROGRESS: GoalProgress[] = [];
+
+// The household's savings goals, nearest target date first
+export function useGoals() {
+  const { data: goals = NO_GOALS } = useQuery<Goal[]>({
+    queryKey: ['/api/goals'],
+  });
+  return goals;
+}
+
+// Each goal's savings, required monthly contribution and projected completion
+export function useGoalProgress() {
+  const { data: progress = NO_PROGRESS } = useQuery<GoalProgress[]>({
+    queryKey: ['/api/goals/progress'],
+  });
+  return progress;
+}
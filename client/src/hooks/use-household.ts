@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import type { HouseholdDetails } from "@shared/schema";
+
+// Active household and what the logged-in member may do in it
+export function useHousehold() {
+  const { data: household, isLoading } = useQuery<HouseholdDetails>({
+    queryKey: ['/api/household'],
+  });
+
+  const role = household?.role;
+
+  return {
+    household,
+    role,
+    isLoading,
+    canEdit: role === 'editor' || role === 'owner',
+    isOwner: role === 'owner',
+  };
+}
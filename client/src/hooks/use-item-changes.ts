@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ItemChange } from "@shared/schema";
+
+// Shared so memoized consumers don't recompute while the query loads
+const NO_CHANGES: ItemChange[] = [];
+
+// Earlier amounts, schedules and start dates of the household's recurring items
+export function useItemChanges() {
+  const { data: changes = NO_CHANGES } = useQuery<ItemChange[]>({
+    queryKey: ['/api/item-changes'],
+  });
+  return changes;
+}
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { monthKeyOf, type MonthBudget } from "@shared/months";
+
+// Expected income, allocations and close state of date's month; accountId counts only that
+// account's income and spending
+export function useMonthBudget(date: Date, accountId?: number) {
+  const query = accountId === undefined ? '' : `?accountId=${accountId}`;
+  const { data: budget } = useQuery<MonthBudget>({
+    queryKey: [`/api/months/${monthKeyOf(date)}${query}`],
+  });
+  return budget;
+}
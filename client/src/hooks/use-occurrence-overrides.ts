@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import type { OccurrenceOverride } from "@shared/schema";
+
+// Shared so memoized consumers don't recompute while the query loads
+const NO_OVERRIDES: OccurrenceOverride[] = [];
+
+// Skipped, moved and re-priced occurrences of the household's recurring items
+export function useOccurrenceOverrides() {
+  const { data: overrides = NO_OVERRIDES } = useQuery<OccurrenceOverride[]>({
+    queryKey: ['/api/occurrence-overrides'],
+  });
+  return overrides;
+}
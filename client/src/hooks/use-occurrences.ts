@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { OccurrenceKind, OccurrenceRow } from "@shared/occurrences";
+
+// Shared so memoized consumers don't recompute while the query loads
+const NO_OCCURRENCES: OccurrenceRow[] = [];
+
+export interface OccurrenceFilter {
+  from: Date;
+  to: Date;
+  type?: OccurrenceKind;
+  categoryId?: number;
+  accountId?: number;
+}
+
+// Expanded occurrences between two local calendar days, as the server computes them
+export function useOccurrences({ from, to, type, categoryId, accountId }: OccurrenceFilter) {
+  const params = new URLSearchParams({ from: format(from, 'yyyy-MM-dd'), to: format(to, 'yyyy-MM-dd') });
+  if (type) params.set('type', type);
+  if (categoryId !== undefined) params.set('categoryId', String(categoryId));
+  if (accountId !== undefined) params.set('accountId', String(accountId));
+
+  const { data: occurrences = NO_OCCURRENCES } = useQuery<OccurrenceRow[]>({
+    queryKey: [`/api/occurrences?${params}`],
+  });
+  return occurrences;
+}
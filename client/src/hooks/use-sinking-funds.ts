@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { addMonths, endOfMonth, startOfMonth } from "date-fns";
+import { sinkingFundOf, SINKING_FUND_LOOKAROUND_MONTHS, type SinkingFund } from "@shared/sinkingFunds";
+import type { Expense } from "@shared/schema";
+import { useOccurrences } from "./use-occurrences";
+
+// Shared so memoized consumers don't recompute while the query loads
+const NO_EXPENSES: Expense[] = [];
+
+// Every expense accrued as a sinking fund, as of date's month
+export function useSinkingFunds(date: Date) {
+  const { data: expenses = NO_EXPENSES } = useQuery<Expense[]>({
+    queryKey: ['/api/expenses'],
+  });
+  const rows = useOccurrences({
+    from: startOfMonth(addMonths(date, -SINKING_FUND_LOOKAROUND_MONTHS)),
+    to: endOfMonth(addMonths(date, SINKING_FUND_LOOKAROUND_MONTHS)),
+    type: 'expense',
+  });
+
+  return useMemo(
+    () => expenses
+      .filter((expense) => expense.sinkingFund)
+      .map((expense) => sinkingFundOf(expense, rows, date))
+      .filter((fund): fund is SinkingFund => fund !== null),
+    [expenses, rows, date]
+  );
+}
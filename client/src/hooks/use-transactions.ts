@@ -0,0 +1,21 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Transaction } from "@shared/schema";
+import { indexSettlements, type Settlements } from "../lib/utils";
+
+// Shared so memoized consumers don't recompute while the query loads
+const NO_TRANSACTIONS: Transaction[] = [];
+
+// What the household actually paid and received
+export function useTransactions() {
+  const { data: transactions = NO_TRANSACTIONS } = useQuery<Transaction[]>({
+    queryKey: ['/api/transactions'],
+  });
+  return transactions;
+}
+
+// The ledger indexed by the occurrence each transaction settles
+export function useSettlements(): Settlements {
+  const transactions = useTransactions();
+  return useMemo(() => indexSettlements(transactions), [transactions]);
+}
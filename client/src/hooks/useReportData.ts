@@ -1,20 +1,25 @@
 import { useMemo } from 'react';
 import { 
-  isWithinInterval, 
-  isBefore, 
   startOfMonth, 
   endOfMonth, 
   isSameMonth,
   parseISO,
   isValid 
 } from 'date-fns';
-import { getRecurringDates, Frequency } from '../lib/utils';
+import { occurrenceOfRow, Frequency, type OccurrenceKind, type OccurrenceStatus } from '../lib/utils';
+import { useOccurrences } from './use-occurrences';
+import type { RecurrenceRule } from '@shared/recurrence';
+import type { AmountSchedule } from '@shared/amountSchedule';
 
 interface Expense {
   id: string;
   date: string | Date;
   amount: string;
   frequency: Frequency;
+  recurrence?: RecurrenceRule | null;
+  endDate?: string | null;
+  occurrenceCount?: number | null;
+  amountSchedule?: AmountSchedule | null;
   categoryId: string;
 }
 
@@ -23,6 +28,10 @@ interface Income {
   date: string | Date;
   amount: string;
   frequency: Frequency;
+  recurrence?: RecurrenceRule | null;
+  endDate?: string | null;
+  occurrenceCount?: number | null;
+  amountSchedule?: AmountSchedule | null;
 }
 
 interface Category {
@@ -70,34 +79,45 @@ const useReportData = (
   const startDate = ensureValidDate(date);
   const endingDate = ensureValidDate(endDate);
   const isMonthlyView = isSameMonth(startDate, endingDate);
-  const generationDate = new Date();
 
   const interval = isMonthlyView
     ? { start: startOfMonth(startDate), end: endOfMonth(startDate) }
     : { start: startDate, end: endingDate };
+  const rows = useOccurrences({ from: interval.start, to: interval.end });
+
+  const datesOf = (kind: OccurrenceKind, id: string) => rows
+    .filter(row => row.kind === kind && row.itemId === Number(id))
+    .map(row => ({
+      date: occurrenceOfRow(row).date,
+      status: row.status,
+      isPending: row.status !== "paid",
+      amount: row.settlement ? Number(row.settlement.amount) : row.amount
+    }));
 
   const processedIncomes = useMemo(() => {
     return (isMonthlyBudget || filterType === "all-incomes") ? incomes.map(income => {
       try {
-        const incomeDate = ensureValidDate(income.date);
-        const dates = getRecurringDates(incomeDate, income.frequency, interval.end)
-          .filter(d => isWithinInterval(d, interval))
-          .map(d => ({
-            date: d,
-            isPending: !isBefore(d, generationDate),
-            amount: Number(income.amount)
-          }));
-
-        const incurredAmount = dates.reduce((sum, date) => sum + (date.isPending ? 0 : date.amount), 0);
-        const pendingAmount = dates.reduce((sum, date) => sum + (date.isPending ? date.amount : 0), 0);
+        const dates = datesOf("income", income.id);
+
+
+        const amountWith = (status: OccurrenceStatus) =>
+
+          dates.reduce((sum, date) => sum + (date.status === status ? date.amount : 0), 0);
+
+        const incurredAmount = amountWith("paid");
+
+        const overdueAmount = amountWith("overdue");
+
+        const pendingAmount = amountWith("upcoming");
 
         return {
           ...income,
           amount: Number(income.amount),
           dates,
           incurredAmount,
+          overdueAmount,
           pendingAmount,
-          totalAmount: incurredAmount + pendingAmount
+          totalAmount: incurredAmount + overdueAmount + pendingAmount
         };
       } catch (error) {
         console.error("Error processing recurring income dates:", error);
@@ -106,12 +126,13 @@ const useReportData = (
           amount: Number(income.amount),
           dates: [],
           incurredAmount: 0,
+          overdueAmount: 0,
           pendingAmount: 0,
           totalAmount: 0
         };
       }
     }).filter(income => income.dates.length > 0) : [];
-  }, [incomes, filterType, isMonthlyBudget, interval, generationDate]);
+  }, [incomes, filterType, isMonthlyBudget, rows]);
 
   const processedExpenses = useMemo(() => {
     return expenses
@@ -126,25 +147,27 @@ const useReportData = (
       })
       .map(expense => {
         try {
-          const expenseDate = ensureValidDate(expense.date);
-          const dates = getRecurringDates(expenseDate, expense.frequency, interval.end)
-            .filter(d => isWithinInterval(d, interval))
-            .map(d => ({
-              date: d,
-              isPending: !isBefore(d, generationDate),
-              amount: Number(expense.amount)
-            }));
-
-          const incurredAmount = dates.reduce((sum, date) => sum + (date.isPending ? 0 : date.amount), 0);
-          const pendingAmount = dates.reduce((sum, date) => sum + (date.isPending ? date.amount : 0), 0);
+          const dates = datesOf("expense", expense.id);
+
+
+          const amountWith = (status: OccurrenceStatus) =>
+
+            dates.reduce((sum, date) => sum + (date.status === status ? date.amount : 0), 0);
+
+          const incurredAmount = amountWith("paid");
+
+          const overdueAmount = amountWith("overdue");
+
+          const pendingAmount = amountWith("upcoming");
 
           return {
             ...expense,
             amount: Number(expense.amount),
             dates,
             incurredAmount,
+            overdueAmount,
             pendingAmount,
-            totalAmount: incurredAmount + pendingAmount
+            totalAmount: incurredAmount + overdueAmount + pendingAmount
           };
         } catch (error) {
           console.error("Error processing recurring expense dates:", error);
@@ -153,20 +176,23 @@ const useReportData = (
             amount: Number(expense.amount),
             dates: [],
             incurredAmount: 0,
+            overdueAmount: 0,
             pendingAmount: 0,
             totalAmount: 0
           };
         }
       }).filter(expense => expense.dates.length > 0);
-  }, [expenses, filterType, selectedExpenseId, selectedCategoryId, interval, generationDate]);
+  }, [expenses, filterType, selectedExpenseId, selectedCategoryId, rows]);
 
   const totalIncurredIncomes = useMemo(() => processedIncomes.reduce((sum, inc) => sum + inc.incurredAmount, 0), [processedIncomes]);
+  const totalOverdueIncomes = useMemo(() => processedIncomes.reduce((sum, inc) => sum + inc.overdueAmount, 0), [processedIncomes]);
   const totalPendingIncomes = useMemo(() => processedIncomes.reduce((sum, inc) => sum + inc.pendingAmount, 0), [processedIncomes]);
-  const totalIncomes = totalIncurredIncomes + totalPendingIncomes;
+  const totalIncomes = totalIncurredIncomes + totalOverdueIncomes + totalPendingIncomes;
 
   const totalIncurredExpenses = useMemo(() => processedExpenses.reduce((sum, exp) => sum + exp.incurredAmount, 0), [processedExpenses]);
+  const totalOverdueExpenses = useMemo(() => processedExpenses.reduce((sum, exp) => sum + exp.overdueAmount, 0), [processedExpenses]);
   const totalPendingExpenses = useMemo(() => processedExpenses.reduce((sum, exp) => sum + exp.pendingAmount, 0), [processedExpenses]);
-  const totalExpenses = totalIncurredExpenses + totalPendingExpenses;
+  const totalExpenses = totalIncurredExpenses + totalOverdueExpenses + totalPendingExpenses;
 
   const groupedExpenses = useMemo(() => {
     if (filterType === "all-categories") {
@@ -174,6 +200,7 @@ const useReportData = (
         const categoryExpenses = processedExpenses.filter(expense => expense.categoryId === category.id);
         const totalAmount = categoryExpenses.reduce((sum, exp) => sum + exp.totalAmount, 0);
         const incurredAmount = categoryExpenses.reduce((sum, exp) => sum + exp.incurredAmount, 0);
+        const overdueAmount = categoryExpenses.reduce((sum, exp) => sum + exp.overdueAmount, 0);
         const pendingAmount = categoryExpenses.reduce((sum, exp) => sum + exp.pendingAmount, 0);
 
         return {
@@ -181,6 +208,7 @@ const useReportData = (
           expenses: categoryExpenses,
           totalAmount,
           incurredAmount,
+          overdueAmount,
           pendingAmount
         };
       }).filter(group => group.expenses.length > 0)
@@ -194,9 +222,11 @@ const useReportData = (
     processedIncomes,
     processedExpenses,
     totalIncurredIncomes,
+    totalOverdueIncomes,
     totalPendingIncomes,
     totalIncomes,
     totalIncurredExpenses,
+    totalOverdueExpenses,
     totalPendingExpenses,
     totalExpenses,
     groupedExpenses
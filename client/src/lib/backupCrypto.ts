@@ -0,0 +1,96 @@
+import { z } from 'zod';
+
+// Encrypted backups wrap the plain backup JSON: the key is derived from the passphrase
+// with PBKDF2 and the data is sealed with AES-GCM, which also detects tampering.
+const ENCRYPTED_FORMAT = 'budgetbuddy-encrypted-backup';
+const PBKDF2_ITERATIONS = 310000;
+
+const encryptedBackupSchema = z.object({
+  format: z.literal(ENCRYPTED_FORMAT),
+  version: z.literal(1),
+  kdf: z.object({
+    name: z.literal('PBKDF2'),
+    hash: z.literal('SHA-256'),
+    iterations: z.number().int().positive(),
+    salt: z.string()
+  }),
+  cipher: z.object({
+    name: z.literal('AES-GCM'),
+    iv: z.string()
+  }),
+  data: z.string()
+});
+
+export type EncryptedBackup = z.infer<typeof encryptedBackupSchema>;
+
+// Chunked so large backups don't overflow the argument list of String.fromCharCode
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export function isEncryptedBackup(content: unknown): boolean {
+  return typeof content === 'object' && content !== null && (content as { format?: unknown }).format === ENCRYPTED_FORMAT;
+}
+
+export async function encryptBackup(json: string, passphrase: string): Promise<EncryptedBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(json));
+
+  return {
+    format: ENCRYPTED_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(data))
+  };
+}
+
+// AES-GCM cannot tell a wrong passphrase from modified data; both fail authentication
+export async function decryptBackup(content: unknown, passphrase: string): Promise<string> {
+  const parsed = encryptedBackupSchema.safeParse(content);
+  if (!parsed.success) {
+    throw new Error('The encrypted backup is damaged or was made by an unsupported version');
+  }
+
+  const { kdf, cipher, data } = parsed.data;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(kdf.salt), kdf.iterations);
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(cipher.iv) }, key, fromBase64(data));
+    return new TextDecoder().decode(plain);
+  } catch (error) {
+    console.error('Decryption failed:', error);
+    throw new Error('Wrong passphrase, or the backup file has been modified');
+  }
+}
@@ -1,46 +1,69 @@
 import { apiRequest } from './queryClient';
 import { queryClient } from './queryClient';
 import { format } from 'date-fns';
+import { createBackupFile, parseBackup } from '@shared/backup';
+import type { RestoreDiff, RestoreResult, RestoreSelection, SnapshotInfo } from '@shared/backup';
+import type {
+  Account, Category, CategoryBudget, Debt, Expense, Goal, Income, ItemChange, MonthAllocation, MonthClose, OccurrenceOverride, Transaction
+} from '@shared/schema';
+import { decryptBackup, encryptBackup, isEncryptedBackup } from './backupCrypto';
+
+// Saves `blob` as a file through a temporary download link
+export function downloadFile(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob);
+
+  // Create download link
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+
+  // Cleanup
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+function downloadJson(content: string, filename: string) {
+  downloadFile(new Blob([content], { type: 'application/json' }), filename);
+}
 
-export async function backupData() {
+// With a passphrase the file is encrypted (see backupCrypto.ts)
+export async function backupData(passphrase?: string) {
   try {
     // Fetch all data
-    const expenses = await apiRequest({ 
+    const expenses = await apiRequest<Expense[]>({ 
       url: '/api/expenses',
       method: 'GET'
     });
-    const incomes = await apiRequest({ 
+    const incomes = await apiRequest<Income[]>({ 
       url: '/api/incomes',
       method: 'GET'
     });
-    const categories = await apiRequest({ 
+    const categories = await apiRequest<Category[]>({ 
       url: '/api/categories',
       method: 'GET'
     });
+    const accounts = await apiRequest<Account[]>({ url: '/api/accounts', method: 'GET' });
+    const goals = await apiRequest<Goal[]>({ url: '/api/goals', method: 'GET' });
+    const debts = await apiRequest<Debt[]>({ url: '/api/debts', method: 'GET' });
+    const overrides = await apiRequest<OccurrenceOverride[]>({ url: '/api/occurrence-overrides', method: 'GET' });
+    const transactions = await apiRequest<Transaction[]>({ url: '/api/transactions', method: 'GET' });
+    const itemChanges = await apiRequest<ItemChange[]>({ url: '/api/item-changes', method: 'GET' });
+    const categoryBudgets = await apiRequest<CategoryBudget[]>({ url: '/api/category-budgets', method: 'GET' });
+    const monthAllocations = await apiRequest<MonthAllocation[]>({ url: '/api/month-allocations', method: 'GET' });
+    const monthCloses = await apiRequest<MonthClose[]>({ url: '/api/month-closes', method: 'GET' });
+
+    // Create backup object in the current format (see shared/backup.ts)
+    const backup = createBackupFile({
+      categories, accounts, goals, expenses, debts, incomes, overrides, transactions, itemChanges, categoryBudgets,
+      monthAllocations, monthCloses
+    });
 
-    // Create backup object
-    const backup = {
-      expenses,
-      incomes,
-      categories,
-      timestamp: new Date().toISOString(),
-      version: '1.0'
-    };
-
-    // Convert to JSON and create blob
-    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
-    const url = window.URL.createObjectURL(blob);
-
-    // Create download link
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `budget-backup-${format(new Date(), 'yyyy-MM-dd-HH-mm')}.json`;
-    document.body.appendChild(a);
-    a.click();
-
-    // Cleanup
-    window.URL.revokeObjectURL(url);
-    document.body.removeChild(a);
+    // Convert to JSON and download
+    const json = JSON.stringify(backup, null, 2);
+    const content = passphrase ? JSON.stringify(await encryptBackup(json, passphrase), null, 2) : json;
+    downloadJson(content, `budget-backup-${format(new Date(), 'yyyy-MM-dd-HH-mm')}${passphrase ? '.encrypted' : ''}.json`);
 
     return true;
   } catch (error) {
@@ -49,7 +72,7 @@ export async function backupData() {
   }
 }
 
-export async function validateBackupFile(file: File): Promise<{
+export interface BackupValidation {
   isValid: boolean;
   summary: {
     expenses: number;
@@ -57,82 +80,141 @@ export async function validateBackupFile(file: File): Promise<{
     categories: number;
     timestamp: string;
   };
-}> {
-  try {
-    const content = await file.text();
-    const backup = JSON.parse(content);
+  // Blocking problems, e.g. "Expenses row 4, amount: Expected number, received nan"
+  problems: string[];
+  // Adjustments made while upgrading an older backup version
+  notes: string[];
+  // Encrypted file opened without a passphrase; nothing else was checked
+  needsPassphrase: boolean;
+}
 
-    // Validate backup format
-    if (!backup.version || !backup.timestamp || 
-        !backup.expenses || !backup.incomes || !backup.categories) {
-      throw new Error('Invalid backup file format');
-    }
+// Parses the file, decrypting it first when it is an encrypted backup
+async function readBackupContent(file: File, passphrase?: string): Promise<unknown> {
+  const content = JSON.parse(await file.text());
+  if (!isEncryptedBackup(content)) return content;
+  if (!passphrase) throw new Error('This backup is encrypted, enter its passphrase');
+  return JSON.parse(await decryptBackup(content, passphrase));
+}
 
-    // Check if arrays are present and have expected structure
-    if (!Array.isArray(backup.expenses) || !Array.isArray(backup.incomes) || !Array.isArray(backup.categories)) {
-      throw new Error('Invalid data structure in backup file');
-    }
+// Reports every problem in the file instead of stopping at the first one
+export async function validateBackupFile(file: File, passphrase?: string): Promise<BackupValidation> {
+  const summary = { expenses: 0, incomes: 0, categories: 0, timestamp: '' };
+  const invalid = (problems: string[], needsPassphrase = false) =>
+    ({ isValid: false, summary, problems, notes: [], needsPassphrase });
 
-    return {
-      isValid: true,
-      summary: {
-        expenses: backup.expenses.length,
-        incomes: backup.incomes.length,
-        categories: backup.categories.length,
-        timestamp: backup.timestamp
-      }
-    };
+  let content: unknown;
+  try {
+    content = JSON.parse(await file.text());
   } catch (error) {
     console.error('Validation failed:', error);
+    return invalid(['The file is not valid JSON']);
+  }
+
+  if (isEncryptedBackup(content)) {
+    if (!passphrase) return invalid([], true);
+    try {
+      content = JSON.parse(await decryptBackup(content, passphrase));
+    } catch (error) {
+      return invalid([(error as Error).message], true);
+    }
+  }
+
+  const parsed = parseBackup(content);
+  if (!parsed.success) {
+    return invalid(parsed.problems);
+  }
+
+  return {
+    isValid: true,
+    summary: {
+      expenses: parsed.data.expenses.length,
+      incomes: parsed.data.incomes.length,
+      categories: parsed.data.categories.length,
+      timestamp: parsed.data.timestamp
+    },
+    problems: [],
+    notes: parsed.notes,
+    needsPassphrase: false
+  };
+}
+
+// Validates the file and returns it upgraded to the current backup version
+async function readBackupFile(file: File, passphrase?: string) {
+  const parsed = parseBackup(await readBackupContent(file, passphrase));
+  if (!parsed.success) {
     throw new Error('Invalid backup file');
   }
+  return parsed.file;
 }
 
-export async function restoreData(file: File) {
+export async function restoreData(file: File, passphrase?: string): Promise<RestoreResult> {
   try {
-    // First validate the backup file
-    const validation = await validateBackupFile(file);
-    if (!validation.isValid) {
-      throw new Error('Invalid backup file');
-    }
+    const backup = await readBackupFile(file, passphrase);
 
-    const content = await file.text();
-    const backup = JSON.parse(content);
-
-    // Restore data in sequence
-    await apiRequest({
-      url: '/api/categories/restore',
+    // The server restores the whole document in one transaction
+    const result = await apiRequest<RestoreResult>({
+      url: '/api/restore',
       method: 'POST',
-      body: JSON.stringify({ categories: backup.categories }), // Convert to JSON string
-      headers: {
-        'Content-Type': 'application/json'
-      }
+      body: backup
     });
 
-    await apiRequest({
-      url: '/api/expenses/restore',
+    // Invalidate all queries to refresh data
+    await queryClient.invalidateQueries();
+
+    return result;
+  } catch (error) {
+    console.error('Restore failed:', error);
+    throw new Error('Failed to restore data');
+  }
+}
+
+// Compares the backup with the current data without changing anything
+export async function previewMerge(file: File, passphrase?: string): Promise<RestoreDiff> {
+  try {
+    const backup = await readBackupFile(file, passphrase);
+    return await apiRequest<RestoreDiff>({
+      url: '/api/restore/preview',
       method: 'POST',
-      body: JSON.stringify({ expenses: backup.expenses }), // Convert to JSON string
-      headers: {
-        'Content-Type': 'application/json'
-      }
+      body: backup
     });
+  } catch (error) {
+    console.error('Merge preview failed:', error);
+    throw new Error('Failed to compare backup with current data');
+  }
+}
 
-    await apiRequest({
-      url: '/api/incomes/restore',
+// Applies only the selected rows of the backup on top of the current data
+export async function mergeData(file: File, selection: RestoreSelection, passphrase?: string): Promise<RestoreResult> {
+  try {
+    const backup = await readBackupFile(file, passphrase);
+    const result = await apiRequest<RestoreResult>({
+      url: '/api/restore/merge',
       method: 'POST',
-      body: JSON.stringify({ incomes: backup.incomes }), // Convert to JSON string
-      headers: {
-        'Content-Type': 'application/json'
-      }
+      body: { backup, selection }
     });
 
-    // Invalidate all queries to refresh data
     await queryClient.invalidateQueries();
 
-    return true;
+    return result;
   } catch (error) {
-    console.error('Restore failed:', error);
-    throw new Error('Failed to restore data');
+    console.error('Merge failed:', error);
+    throw new Error('Failed to merge data');
+  }
+}
+
+// Server snapshots are stored in the backup format, so they download as regular backup files
+export async function downloadSnapshot(snapshot: SnapshotInfo) {
+  try {
+    const backup = await apiRequest({
+      url: `/api/snapshots/${snapshot.id}`,
+      method: 'GET'
+    });
+    downloadJson(
+      JSON.stringify(backup, null, 2),
+      `budget-snapshot-${format(new Date(snapshot.createdAt), 'yyyy-MM-dd-HH-mm')}.json`
+    );
+  } catch (error) {
+    console.error('Snapshot download failed:', error);
+    throw new Error('Failed to download snapshot');
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction, QueryKey } from "@tanstack/react-query";
+import { QueryCache, QueryClient, MutationCache, QueryFunction, QueryKey } from "@tanstack/react-query";
 // Validate and type environment variables
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL;
 if (!BACKEND_URL) {
@@ -13,7 +13,9 @@ async function throwIfResNotOk(res: Response): Promise<void> {
     let errorMessage = `${res.status}: ${res.statusText}`;
     try {
       const errorData = await res.clone().json();
-      errorMessage = errorData.message || errorMessage;
+      // Server routes report failures as { error: "..." }; keep the status prefix so callers can match on it
+      const serverError = typeof errorData.error === 'string' ? `${res.status}: ${errorData.error}` : undefined;
+      errorMessage = errorData.message || serverError || errorMessage;
     } catch {
       const text = await res.clone().text();
       if (text) errorMessage = `${res.status}: ${text}`;
@@ -68,6 +70,22 @@ export async function apiRequest<T = unknown, U = unknown>({
   }
 }
 
+// Binary downloads such as /api/reports/:type.pdf, named as the server's Content-Disposition names them
+export async function apiDownload(url: string): Promise<{ blob: Blob; fileName?: string }> {
+  const fullUrl = `${BACKEND_URL}${url}`;
+  console.debug(`API Download: GET ${fullUrl}`);
+
+  try {
+    const res = await fetch(fullUrl, { credentials: "include" });
+    await throwIfResNotOk(res);
+    const fileName = res.headers.get("content-disposition")?.match(/filename="([^"]+)"/)?.[1];
+    return { blob: await res.blob(), fileName };
+  } catch (error) {
+    console.error(`API Download Failed (${url}):`, error);
+    throw error instanceof Error ? error : new Error('Unknown API error occurred');
+  }
+}
+
 // Typed query function factory
 export function getQueryFn<T>(options: { 
   on401?: "returnNull" | "throw"; 
@@ -127,8 +145,33 @@ export const fetchCategories = async (signal?: AbortSignal): Promise<Category[]>
   return data;
 };
 
+// Errors thrown by apiRequest/getQueryFn start with the HTTP status
+export function isUnauthorizedError(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith('401');
+}
+
+// A 401 means the session is gone: clearing the cached user sends the app back to the login page
+function handleUnauthorized(error: unknown) {
+  if (isUnauthorizedError(error)) {
+    queryClient.setQueryData(['/api/user'], null);
+  }
+}
+
+// Occurrences are derived from items, overrides, change history and the ledger, so any
+// successful write may move them, along with the month budgets and goal progress computed
+// from them. Their query keys carry the range or month, hence the prefix match
+const DERIVED_QUERIES = ['/api/occurrences?', '/api/months/', '/api/goals/progress'];
+
+function refreshOccurrences() {
+  queryClient.invalidateQueries({
+    predicate: (query) => DERIVED_QUERIES.some((prefix) => String(query.queryKey[0]).startsWith(prefix)),
+  });
+}
+
 // Configured query client instance
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleUnauthorized }),
+  mutationCache: new MutationCache({ onError: handleUnauthorized, onSuccess: refreshOccurrences }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
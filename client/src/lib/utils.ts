@@ -1,14 +1,9 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { 
-  addMonths, 
-  addYears, 
   format, 
   parseISO, 
-  startOfMonth, 
   isValid, 
-  getDate, 
-  getDaysInMonth, 
   addDays,
   isBefore,
   isSameDay,
@@ -18,9 +13,10 @@ import {
   endOfDay
 } from "date-fns";
 import { toZonedTime } from 'date-fns-tz';
+import { expandRecurrence, ruleFromFrequency } from "@shared/recurrence";
 
 // Type utilities
-type Frequency = 'DAILY' | 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'YEARLY' | 'ONCE';
+export type { Frequency } from "@shared/schema";
 
 // Tailwind CSS class merging utility
 export function cn(...inputs: ClassValue[]): string {
@@ -28,14 +24,7 @@ export function cn(...inputs: ClassValue[]): string {
 }
 
 // Currency formatting
-export function formatCurrency(amount: number, withSymbol: boolean = false): string {
-  return new Intl.NumberFormat('en-US', {
-    style: withSymbol ? 'currency' : 'decimal',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 2,
-  }).format(amount);
-}
+export { formatCurrency } from "@shared/reports";
 
 // Date validation helper
 function ensureValidDate(date: Date | string | undefined, fallback: Date = new Date()): Date {
@@ -57,83 +46,26 @@ function ensureValidDate(date: Date | string | undefined, fallback: Date = new D
   ));
 }
 
-// Recurring date generator
+// Recurring date generator for a preset frequency
 export function getRecurringDates(
   startDate: Date | string | undefined,
-  frequency: Frequency = 'ONCE',
+  frequency: string = 'ONCE',
   endDate: Date = new Date(2030, 11, 31)
 ): Date[] {
   try {
-    const dates: Date[] = [];
-    const start = ensureValidDate(startDate);
-    const end = ensureValidDate(endDate);
-
-    switch (frequency.toUpperCase()) {
-      case 'DAILY':
-        let dailyDate = new Date(start);
-        while (dailyDate <= end) {
-          dates.push(new Date(dailyDate));
-          dailyDate = addDays(dailyDate, 1);
-        }
-        break;
-
-      case 'WEEKLY':
-        let weeklyDate = new Date(start);
-        while (weeklyDate <= end) {
-          dates.push(new Date(weeklyDate));
-          weeklyDate = addDays(weeklyDate, 7);
-        }
-        break;
-
-      case 'BIWEEKLY':
-        let biweeklyDate = new Date(start);
-        while (biweeklyDate <= end) {
-          dates.push(new Date(biweeklyDate));
-          biweeklyDate = addDays(biweeklyDate, 14);
-        }
-        break;
-
-      case 'MONTHLY':
-        let monthlyDate = startOfMonth(start);
-        const dayOfMonth = getDate(start);
-
-        while (monthlyDate <= end) {
-          const daysInMonth = getDaysInMonth(monthlyDate);
-          const actualDay = Math.min(dayOfMonth, daysInMonth);
-          const recurringDate = new Date(
-            monthlyDate.getFullYear(),
-            monthlyDate.getMonth(),
-            actualDay,
-            12, 0, 0
-          );
-
-          if (recurringDate >= start && recurringDate <= end) {
-            dates.push(recurringDate);
-          }
-          monthlyDate = addMonths(monthlyDate, 1);
-        }
-        break;
-
-      case 'YEARLY':
-        let yearlyDate = new Date(start);
-        while (yearlyDate <= end) {
-          dates.push(new Date(yearlyDate));
-          yearlyDate = addYears(yearlyDate, 1);
-        }
-        break;
-
-      case 'ONCE':
-      default:
-        dates.push(new Date(start));
-    }
-
-    return dates.sort((a, b) => a.getTime() - b.getTime());
+    return expandRecurrence(ruleFromFrequency(frequency), ensureValidDate(startDate), ensureValidDate(endDate));
   } catch (error) {
     console.error('Error generating recurring dates:', error);
     return [];
   }
 }
 
+// The occurrence engine lives in shared/ so the server's /api/occurrences expands items the same way
+export {
+  getOccurrenceDates, getOccurrences, indexSettlements, findSettlement, occurrenceStatus, occurrenceOfRow,
+  type RecurringItem, type OccurrenceKind, type Occurrence, type OccurrenceStatus, type Settlements, type OccurrenceRow
+} from "@shared/occurrences";
+
 // Date formatting for server (UTC)
 export function formatDateForServer(date: Date | string): string {
   const validDate = ensureValidDate(date);
@@ -0,0 +1,102 @@
+import React from "react";
+import { Redirect } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "../components/ui/form";
+import { Input } from "../components/ui/input";
+import { Button } from "../components/ui/button";
+import { insertUserSchema, type InsertUser } from "@shared/schema";
+import { useAuth } from "../hooks/use-auth";
+import type { UseMutationResult } from "@tanstack/react-query";
+
+interface CredentialsFormProps {
+  mutation: UseMutationResult<unknown, Error, InsertUser>;
+  submitLabel: string;
+}
+
+function CredentialsForm({ mutation, submitLabel }: CredentialsFormProps) {
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: {
+      username: "",
+      password: ""
+    }
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={mutation.isPending}>
+          {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle>BudgetBuddy</CardTitle>
+          <CardDescription>Log in to see your budget, or create an account to start one.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login" className="w-full">
+            <TabsList className="w-full">
+              <TabsTrigger value="login" className="flex-1">Log In</TabsTrigger>
+              <TabsTrigger value="register" className="flex-1">Register</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login" className="pt-4">
+              <CredentialsForm mutation={loginMutation} submitLabel="Log In" />
+            </TabsContent>
+
+            <TabsContent value="register" className="pt-4">
+              <CredentialsForm mutation={registerMutation} submitLabel="Create Account" />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,9 +4,17 @@ import { format } from "date-fns";
 import Calendar from "../components/Calendar";
 import MonthSummary from "../components/MonthSummary";
 import ReportModal from "../components/ReportModal";
+import CategoryBudgets from "../components/categories/CategoryBudgets";
+import LeftToAssign from "../components/months/LeftToAssign";
+import GoalsPanel from "../components/goals/GoalsPanel";
+import DebtsPanel from "../components/debts/DebtsPanel";
+import CashFlowForecast from "../components/forecast/CashFlowForecast";
+import AccountsPanel from "../components/accounts/AccountsPanel";
 import { Button } from "../components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
 import { FileText } from "lucide-react";
+import { useAccounts } from "../hooks/use-accounts";
+import { ALL_ACCOUNTS, itemsInAccount } from "@shared/accounts";
 import type { Expense, Income, Category } from "@shared/schema"; // Adjust the path as needed
 
 // The types are imported from "@shared/schema", so no need to redefine them here.
@@ -31,6 +39,10 @@ const queryConfig = {
 export default function Dashboard() {
   const [selectedDate, setSelectedDate] = useState(TODAY);
   const [reportOpen, setReportOpen] = useState(false);
+  // Narrows the summary, budgets, forecast, Calendar and report to one account's expenses and incomes
+  const [account, setAccount] = useState(ALL_ACCOUNTS);
+  const accountId = account === ALL_ACCOUNTS ? undefined : Number(account);
+  const accounts = useAccounts();
 
   const expensesQuery = useQuery<Expense[]>({
     queryKey: ['/api/expenses'],
@@ -49,8 +61,8 @@ export default function Dashboard() {
 
   const isLoading = expensesQuery.isLoading || incomesQuery.isLoading || categoriesQuery.isLoading;
   const hasError = expensesQuery.error || incomesQuery.error || categoriesQuery.error;
-  const expenses = expensesQuery.data ?? [];
-  const incomes = incomesQuery.data ?? [];
+  const expenses = itemsInAccount(expensesQuery.data ?? [], account);
+  const incomes = itemsInAccount(incomesQuery.data ?? [], account);
   const categories = categoriesQuery.data ?? [];
 
   const months = Array.from({ length: 12 }, (_, i) => new Date(0, i));
@@ -110,6 +122,22 @@ export default function Dashboard() {
               ))}
             </SelectContent>
           </Select>
+
+          {accounts.length > 0 && (
+            <Select value={account} onValueChange={setAccount}>
+              <SelectTrigger className="w-full sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="z-[1000] bg-white rounded-md shadow-lg">
+                <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+                {accounts.map((item) => (
+                  <SelectItem key={item.id} value={item.id.toString()}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
 
         {/* Summary and Report button - stack on mobile, align on desktop */}
@@ -119,6 +147,7 @@ export default function Dashboard() {
               date={selectedDate}
               expenses={expenses}
               incomes={incomes}
+              categories={categories}
             />
           </div>
 
@@ -132,6 +161,30 @@ export default function Dashboard() {
         </div>
       </div>
 
+      <div className="px-4">
+        <LeftToAssign date={selectedDate} categories={categories} accountId={accountId} />
+      </div>
+
+      <div className="px-4">
+        <CategoryBudgets date={selectedDate} categories={categories} accountId={accountId} />
+      </div>
+
+      <div className="px-4">
+        <GoalsPanel />
+      </div>
+
+      <div className="px-4">
+        <DebtsPanel categories={categories} />
+      </div>
+
+      <div className="px-4">
+        <CashFlowForecast accountId={accountId} />
+      </div>
+
+      <div className="px-4">
+        <AccountsPanel />
+      </div>
+
       {/* Calendar section */}
       <div className="px-4">
         <Calendar
@@ -154,6 +207,7 @@ export default function Dashboard() {
         categories={categories}
         filterType="all-expenses"
         isMonthlyBudget={true}
+        account={account}
       />
     </div>
   );
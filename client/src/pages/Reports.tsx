@@ -10,9 +10,11 @@ import { Loader2 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../components/ui/select";
 import ReportModal from "../components/ReportModal";
 import AnnualReportModal from "../components/AnnualReportModal";
+import { useAccounts } from "../hooks/use-accounts";
+import { ALL_ACCOUNTS, itemsInAccount } from "@shared/accounts";
 import { startOfMonth, endOfMonth, isSameMonth, format, isValid } from "date-fns";
 import type { Expense, Income, Category } from "@shared/schema"; // Ensure this file exists at the correct path or create it
-type FilterType = "all-expenses" | "all-incomes" | "all-categories" | "single-expense" | "single-category";
+type FilterType = "all-expenses" | "all-incomes" | "all-categories" | "single-expense" | "single-category" | "variance";
 
 // Report type title mapping
 const getReportTypeTitle = (
@@ -37,6 +39,8 @@ const getReportTypeTitle = (
       const category = categories?.find(c => c.id.toString() === selectedCategoryId);
       return `Category Report - ${category?.name || 'Selected Category'}`;
     }
+    case "variance":
+      return "Planned vs Actual Report";
     default:
       return "Financial Report";
   }
@@ -62,6 +66,9 @@ export default function Reports() {
   const [reportModalOpen, setReportModalOpen] = useState(false);
   const [annualReportOpen, setAnnualReportOpen] = useState(false);
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  // Both reports cover only this account's expenses and incomes
+  const [account, setAccount] = useState(ALL_ACCOUNTS);
+  const accounts = useAccounts();
 
   // Update the queries with the new configuration
   const { data: expenses, isLoading: loadingExpenses } = useQuery<Expense[]>({
@@ -89,6 +96,9 @@ export default function Reports() {
     );
   }
 
+  const accountExpenses = itemsInAccount(expenses, account);
+  const accountIncomes = itemsInAccount(incomes, account);
+
   const handleDateRangeSelect = (range: DateRange) => {
     const from = range.from ? new Date(range.from) : undefined;
     const to = range.to ? new Date(range.to) : from;
@@ -107,7 +117,24 @@ export default function Reports() {
 
   return (
     <div className="space-y-6 p-4">
-      <h1 className="text-2xl font-bold">Reports</h1>
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <h1 className="text-2xl font-bold">Reports</h1>
+        {accounts.length > 0 && (
+          <Select value={account} onValueChange={setAccount}>
+            <SelectTrigger className="w-full sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+              {accounts.map((item) => (
+                <SelectItem key={item.id} value={item.id.toString()}>
+                  {item.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
 
       <Tabs defaultValue="date-range" className="w-full">
         <TabsList className="w-full">
@@ -156,6 +183,7 @@ export default function Reports() {
                           <SelectItem value="all-categories">Category-wise Report</SelectItem>
                           <SelectItem value="single-expense">Single Expense Report</SelectItem>
                           <SelectItem value="single-category">Category Report</SelectItem>
+                          <SelectItem value="variance">Planned vs Actual Report</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -235,12 +263,13 @@ export default function Reports() {
               }}
               date={dateRange.from}
               endDate={dateRange.to}
-              expenses={expenses}
-              incomes={incomes}
+              expenses={accountExpenses}
+              incomes={accountIncomes}
               categories={categories}
               filterType={reportType}
               selectedExpenseId={selectedExpense}
               selectedCategoryId={selectedCategory}
+              account={account}
             />
           )}
         </TabsContent>
@@ -262,8 +291,8 @@ export default function Reports() {
               open={annualReportOpen}
               onClose={() => setAnnualReportOpen(false)}
               date={new Date()}
-              expenses={expenses}
-              incomes={incomes}
+              expenses={accountExpenses}
+              incomes={accountIncomes}
               title="Annual Financial Report"
             />
           )}
@@ -0,0 +1,46 @@
+CREATE TABLE IF NOT EXISTS "categories" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"color" varchar(7) NOT NULL,
+	"icon" varchar(50) NOT NULL,
+	"created_at" date DEFAULT now(),
+	"updated_at" date DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "expenses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"date" date NOT NULL,
+	"frequency" varchar(20) NOT NULL,
+	"category_id" serial NOT NULL,
+	"created_at" date DEFAULT now(),
+	"updated_at" date DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "incomes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"date" date NOT NULL,
+	"frequency" varchar(20) NOT NULL,
+	"source" varchar(50),
+	"created_at" date DEFAULT now(),
+	"updated_at" date DEFAULT now()
+);
+--> statement-breakpoint
+-- Databases created by database_setup.sql already have these tables; bring them in line
+ALTER TABLE "categories" ADD COLUMN IF NOT EXISTS "created_at" date DEFAULT now();--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN IF NOT EXISTS "updated_at" date DEFAULT now();--> statement-breakpoint
+ALTER TABLE "expenses" ALTER COLUMN "amount" SET DATA TYPE numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN IF NOT EXISTS "created_at" date DEFAULT now();--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN IF NOT EXISTS "updated_at" date DEFAULT now();--> statement-breakpoint
+ALTER TABLE "incomes" ALTER COLUMN "amount" SET DATA TYPE numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "incomes" ALTER COLUMN "source" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "incomes" ADD COLUMN IF NOT EXISTS "created_at" date DEFAULT now();--> statement-breakpoint
+ALTER TABLE "incomes" ADD COLUMN IF NOT EXISTS "updated_at" date DEFAULT now();--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "expenses" ADD CONSTRAINT "expenses_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
\ No newline at end of file
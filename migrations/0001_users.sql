@@ -0,0 +1,31 @@
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" varchar(50) NOT NULL,
+	"password" varchar(255) NOT NULL,
+	"created_at" date DEFAULT now(),
+	"updated_at" date DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "user_id" integer;--> statement-breakpoint
+ALTER TABLE "incomes" ADD COLUMN "user_id" integer;--> statement-breakpoint
+-- Rows from before user accounts move to an "owner" user. Its password matches nothing
+-- until set with: npm run user:password -- owner <password>
+DO $$
+DECLARE
+	default_user integer;
+BEGIN
+	IF EXISTS (SELECT 1 FROM "categories") OR EXISTS (SELECT 1 FROM "expenses") OR EXISTS (SELECT 1 FROM "incomes") THEN
+		INSERT INTO "users" ("username", "password") VALUES ('owner', '!') RETURNING "id" INTO default_user;
+		UPDATE "categories" SET "user_id" = default_user;
+		UPDATE "expenses" SET "user_id" = default_user;
+		UPDATE "incomes" SET "user_id" = default_user;
+	END IF;
+END $$;--> statement-breakpoint
+ALTER TABLE "categories" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "expenses" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "incomes" ALTER COLUMN "user_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "incomes" ADD CONSTRAINT "incomes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
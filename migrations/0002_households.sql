@@ -0,0 +1,65 @@
+CREATE TABLE "household_invitations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"username" varchar(50) NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"invited_by" integer NOT NULL,
+	"created_at" date DEFAULT now(),
+	CONSTRAINT "household_invitations_household_id_username_unique" UNIQUE("household_id","username")
+);
+--> statement-breakpoint
+CREATE TABLE "household_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"created_at" date DEFAULT now(),
+	CONSTRAINT "household_members_household_id_user_id_unique" UNIQUE("household_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "households" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"created_at" date DEFAULT now(),
+	"updated_at" date DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "categories" DROP CONSTRAINT "categories_user_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "expenses" DROP CONSTRAINT "expenses_user_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "incomes" DROP CONSTRAINT "incomes_user_id_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "categories" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "expenses" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "incomes" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "household_id" integer;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "household_id" integer;--> statement-breakpoint
+ALTER TABLE "incomes" ADD COLUMN "household_id" integer;--> statement-breakpoint
+-- Every existing user gets a personal household, as logging in would create, and their rows move into it
+DO $$
+DECLARE
+	member record;
+	personal integer;
+BEGIN
+	FOR member IN SELECT "id", "username" FROM "users" ORDER BY "id" LOOP
+		INSERT INTO "households" ("name") VALUES (member."username" || '''s Budget') RETURNING "id" INTO personal;
+		INSERT INTO "household_members" ("household_id", "user_id", "role") VALUES (personal, member."id", 'owner');
+		UPDATE "categories" SET "household_id" = personal WHERE "user_id" = member."id";
+		UPDATE "expenses" SET "household_id" = personal WHERE "user_id" = member."id";
+		UPDATE "incomes" SET "household_id" = personal WHERE "user_id" = member."id";
+	END LOOP;
+END $$;--> statement-breakpoint
+ALTER TABLE "categories" ALTER COLUMN "household_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "expenses" ALTER COLUMN "household_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "incomes" ALTER COLUMN "household_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "household_invitations" ADD CONSTRAINT "household_invitations_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_invitations" ADD CONSTRAINT "household_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_members" ADD CONSTRAINT "household_members_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_members" ADD CONSTRAINT "household_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "incomes" ADD CONSTRAINT "incomes_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "incomes" ADD CONSTRAINT "incomes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
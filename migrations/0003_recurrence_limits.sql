@@ -0,0 +1,4 @@
+ALTER TABLE "expenses" ADD COLUMN "end_date" date;--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "occurrence_count" integer;--> statement-breakpoint
+ALTER TABLE "incomes" ADD COLUMN "end_date" date;--> statement-breakpoint
+ALTER TABLE "incomes" ADD COLUMN "occurrence_count" integer;
\ No newline at end of file
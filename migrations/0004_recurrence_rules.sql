@@ -0,0 +1,2 @@
+ALTER TABLE "expenses" ADD COLUMN "recurrence" jsonb;--> statement-breakpoint
+ALTER TABLE "incomes" ADD COLUMN "recurrence" jsonb;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "occurrence_overrides" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"expense_id" integer,
+	"income_id" integer,
+	"original_date" date NOT NULL,
+	"skipped" boolean DEFAULT false NOT NULL,
+	"date" date,
+	"amount" numeric(12, 2),
+	CONSTRAINT "occurrence_overrides_expense_id_original_date_unique" UNIQUE("expense_id","original_date"),
+	CONSTRAINT "occurrence_overrides_income_id_original_date_unique" UNIQUE("income_id","original_date")
+);
+--> statement-breakpoint
+ALTER TABLE "occurrence_overrides" ADD CONSTRAINT "occurrence_overrides_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "occurrence_overrides" ADD CONSTRAINT "occurrence_overrides_expense_id_expenses_id_fk" FOREIGN KEY ("expense_id") REFERENCES "public"."expenses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "occurrence_overrides" ADD CONSTRAINT "occurrence_overrides_income_id_incomes_id_fk" FOREIGN KEY ("income_id") REFERENCES "public"."incomes"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "transactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"expense_id" integer,
+	"income_id" integer,
+	"occurrence_date" date NOT NULL,
+	"date" date NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"created_at" date DEFAULT now(),
+	CONSTRAINT "transactions_expense_id_occurrence_date_unique" UNIQUE("expense_id","occurrence_date"),
+	CONSTRAINT "transactions_income_id_occurrence_date_unique" UNIQUE("income_id","occurrence_date")
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_expense_id_expenses_id_fk" FOREIGN KEY ("expense_id") REFERENCES "public"."expenses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_income_id_incomes_id_fk" FOREIGN KEY ("income_id") REFERENCES "public"."incomes"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
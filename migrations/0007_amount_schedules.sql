@@ -0,0 +1,2 @@
+ALTER TABLE "expenses" ADD COLUMN "amount_schedule" jsonb;--> statement-breakpoint
+ALTER TABLE "incomes" ADD COLUMN "amount_schedule" jsonb;
\ No newline at end of file
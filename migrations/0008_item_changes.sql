@@ -0,0 +1,18 @@
+CREATE TABLE "item_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"expense_id" integer,
+	"income_id" integer,
+	"effective_date" date NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"date" date NOT NULL,
+	"frequency" varchar(20) NOT NULL,
+	"recurrence" jsonb,
+	"created_at" date DEFAULT now(),
+	CONSTRAINT "item_changes_expense_id_effective_date_unique" UNIQUE("expense_id","effective_date"),
+	CONSTRAINT "item_changes_income_id_effective_date_unique" UNIQUE("income_id","effective_date")
+);
+--> statement-breakpoint
+ALTER TABLE "item_changes" ADD CONSTRAINT "item_changes_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "item_changes" ADD CONSTRAINT "item_changes_expense_id_expenses_id_fk" FOREIGN KEY ("expense_id") REFERENCES "public"."expenses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "item_changes" ADD CONSTRAINT "item_changes_income_id_incomes_id_fk" FOREIGN KEY ("income_id") REFERENCES "public"."incomes"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "category_budgets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"category_id" integer NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"period" varchar(20) NOT NULL,
+	"thresholds" jsonb NOT NULL,
+	"created_at" date DEFAULT now(),
+	"updated_at" date DEFAULT now(),
+	CONSTRAINT "category_budgets_category_id_unique" UNIQUE("category_id")
+);
+--> statement-breakpoint
+ALTER TABLE "category_budgets" ADD CONSTRAINT "category_budgets_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "category_budgets" ADD CONSTRAINT "category_budgets_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "category_budgets" ADD COLUMN "rollover" varchar(20) DEFAULT 'NONE' NOT NULL;
\ No newline at end of file
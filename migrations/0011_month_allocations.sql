@@ -0,0 +1,25 @@
+CREATE TABLE "month_allocations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"month" varchar(7) NOT NULL,
+	"target" varchar(20) NOT NULL,
+	"category_id" integer,
+	"amount" numeric(12, 2) NOT NULL,
+	"created_at" date DEFAULT now(),
+	"updated_at" date DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "month_closes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"month" varchar(7) NOT NULL,
+	"closed_by" integer,
+	"created_at" date DEFAULT now(),
+	CONSTRAINT "month_closes_household_id_month_unique" UNIQUE("household_id","month")
+);
+--> statement-breakpoint
+ALTER TABLE "households" ADD COLUMN "zero_based" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "month_allocations" ADD CONSTRAINT "month_allocations_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "month_allocations" ADD CONSTRAINT "month_allocations_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "month_closes" ADD CONSTRAINT "month_closes_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "month_closes" ADD CONSTRAINT "month_closes_closed_by_users_id_fk" FOREIGN KEY ("closed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "goals" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"user_id" integer,
+	"name" varchar(100) NOT NULL,
+	"target_amount" numeric(12, 2) NOT NULL,
+	"target_date" date NOT NULL,
+	"balance" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"color" varchar(7) NOT NULL,
+	"created_at" date DEFAULT now(),
+	"updated_at" date DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "expenses" ADD COLUMN "goal_id" integer;--> statement-breakpoint
+ALTER TABLE "goals" ADD CONSTRAINT "goals_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "goals" ADD CONSTRAINT "goals_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_goal_id_goals_id_fk" FOREIGN KEY ("goal_id") REFERENCES "public"."goals"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "expenses" ADD COLUMN "sinking_fund" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "debts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"user_id" integer,
+	"name" varchar(100) NOT NULL,
+	"principal" numeric(12, 2) NOT NULL,
+	"apr" numeric(5, 2) NOT NULL,
+	"minimum_payment" numeric(12, 2) NOT NULL,
+	"extra_payment" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"first_payment_date" date NOT NULL,
+	"category_id" integer NOT NULL,
+	"expense_id" integer,
+	"created_at" date DEFAULT now(),
+	"updated_at" date DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "households" ADD COLUMN "debt_strategy" varchar(20) DEFAULT 'NONE' NOT NULL;--> statement-breakpoint
+ALTER TABLE "debts" ADD CONSTRAINT "debts_household_id_households_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."households"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "debts" ADD CONSTRAINT "debts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "debts" ADD CONSTRAINT "debts_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "debts" ADD CONSTRAINT "debts_expense_id_expenses_id_fk" FOREIGN KEY ("expense_id") REFERENCES "public"."expenses"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "households" ADD COLUMN "starting_balance" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "households" ADD COLUMN "starting_balance_date" date;--> statement-breakpoint
+ALTER TABLE "households" ADD COLUMN "low_balance_threshold" numeric(12, 2) DEFAULT '0' NOT NULL;
\ No newline at end of file
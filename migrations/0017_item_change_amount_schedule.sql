@@ -0,0 +1,4 @@
+ALTER TABLE "item_changes" ADD COLUMN "amount_schedule" jsonb;--> statement-breakpoint
+-- Changes recorded before this column priced their occurrences with the item's current amount schedule
+UPDATE "item_changes" SET "amount_schedule" = "expenses"."amount_schedule" FROM "expenses" WHERE "item_changes"."expense_id" = "expenses"."id";--> statement-breakpoint
+UPDATE "item_changes" SET "amount_schedule" = "incomes"."amount_schedule" FROM "incomes" WHERE "item_changes"."income_id" = "incomes"."id";
@@ -0,0 +1,61 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { requireRole, scopeOf } from "./households";
+import { insertAccountSchema } from "@shared/schema";
+
+// Checking, savings and card accounts. Expenses and incomes name theirs with accountId;
+// statements are built from /api/occurrences?accountId=.
+export function setupAccounts(app: Express) {
+  app.get("/api/accounts", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/accounts GET");
+    try {
+      res.json(await storage.getAccounts(scopeOf(req)));
+    } catch (error) {
+      console.error("Error fetching accounts:", error);
+      res.status(500).json({ error: "Failed to fetch accounts" });
+    }
+  });
+
+  app.post("/api/accounts", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/accounts POST");
+    const parsed = insertAccountSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await storage.createAccount(scopeOf(req), parsed.data));
+    } catch (error) {
+      console.error("Error creating account:", error);
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  app.patch("/api/accounts/:id", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/accounts PATCH");
+    const parsed = insertAccountSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await storage.updateAccount(scopeOf(req), Number(req.params.id), parsed.data));
+    } catch (error) {
+      console.error("Error updating account:", error);
+      res.status(404).json({ error: "Account not found" });
+    }
+  });
+
+  app.delete("/api/accounts/:id", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/accounts DELETE");
+    try {
+      await storage.deleteAccount(scopeOf(req), Number(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(404).json({ error: "Account not found" });
+    }
+  });
+}
@@ -0,0 +1,171 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { insertUserSchema, type User, type SafeUser } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SafeUser;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Passwords are stored as "<hash>.<salt>", both hex encoded
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+function toSafeUser(user: User): SafeUser {
+  const { password: _password, ...safeUser } = user;
+  return safeUser;
+}
+
+// Rejects the request with 401 unless a user is logged in
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    res.status(401).json({ error: "Not authenticated" });
+    return;
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set. Create a .env file based on .env.example");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      name: "budgetbuddy.sid",
+      secret: process.env.SESSION_SECRET,
+      store: storage.sessionStore,
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+      },
+    })
+  );
+
+  // Load the logged-in user for every request
+  app.use(async (req, _res, next) => {
+    if (!req.session.userId) return next();
+
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (user) {
+        req.user = toSafeUser(user);
+      } else {
+        delete req.session.userId;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  const startSession = (req: Request, user: User) =>
+    new Promise<void>((resolve, reject) => {
+      // Issue a fresh session id on login to prevent session fixation
+      req.session.regenerate((err) => {
+        if (err) return reject(err);
+        req.session.userId = user.id;
+        req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+      });
+    });
+
+  app.post("/api/register", async (req, res) => {
+    console.log("Handling /api/register POST");
+    const parsed = insertUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const existingUser = await storage.getUserByUsername(parsed.data.username);
+      if (existingUser) {
+        res.status(409).json({ error: "Username already exists" });
+        return;
+      }
+
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+      });
+      await startSession(req, user);
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      console.error("Error registering user:", error);
+      res.status(500).json({ error: "Failed to register" });
+    }
+  });
+
+  app.post("/api/login", async (req, res) => {
+    console.log("Handling /api/login POST");
+    const parsed = insertUserSchema.pick({ username: true }).extend({
+      password: insertUserSchema.shape.password.min(1),
+    }).safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const user = await storage.getUserByUsername(parsed.data.username);
+      if (!user || !(await comparePasswords(parsed.data.password, user.password))) {
+        res.status(401).json({ error: "Invalid username or password" });
+        return;
+      }
+
+      await startSession(req, user);
+      res.json(toSafeUser(user));
+    } catch (error) {
+      console.error("Error logging in:", error);
+      res.status(500).json({ error: "Failed to log in" });
+    }
+  });
+
+  app.post("/api/logout", (req, res) => {
+    console.log("Handling /api/logout POST");
+    req.session.destroy((err) => {
+      if (err) {
+        console.error("Error logging out:", err);
+        res.status(500).json({ error: "Failed to log out" });
+        return;
+      }
+      res.clearCookie("budgetbuddy.sid");
+      res.status(204).end();
+    });
+  });
+
+  app.get("/api/user", requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+}
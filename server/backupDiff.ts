@@ -0,0 +1,82 @@
+import type { Category, Expense, Income } from "@shared/schema";
+import type { BackupData, RestoreDiff, RestoreDiffRow } from "@shared/backup";
+import { describeRecurrence, recurrenceOf } from "@shared/recurrence";
+import { describeAmountSchedule } from "@shared/amountSchedule";
+
+type Row = { id: number; name: string };
+type Field<B, C> = [label: string, backup: (row: B) => string, current: (row: C) => string];
+
+// Backup dates are parsed into Date objects, database dates are 'yyyy-MM-dd' strings
+const dateKey = (date: Date) => date.toISOString().slice(0, 10);
+const amountKey = (amount: string) => Number(amount).toFixed(2);
+const nameKey = (name: string) => name.trim().toLowerCase();
+const optionalKey = (value: string | number | null | undefined) => (value == null ? '' : String(value));
+
+// Matches every backup row to at most one current row: same ID first, then same name
+function matchRows<B extends Row, C extends Row>(
+  backupRows: B[],
+  currentRows: C[],
+  fields: Field<B, C>[],
+): RestoreDiffRow[] {
+  const used = new Set<number>();
+  const byId = backupRows.map((row) => currentRows.find((c) => c.id === row.id));
+  byId.forEach((match) => match && used.add(match.id));
+
+  return backupRows.map((row, index) => {
+    let match = byId[index];
+    if (!match) {
+      match = currentRows.find((c) => !used.has(c.id) && nameKey(c.name) === nameKey(row.name));
+      if (match) used.add(match.id);
+    }
+
+    if (!match) {
+      return { backupId: row.id, name: row.name, status: 'added', changes: [] };
+    }
+
+    const current = match;
+    const changes = fields
+      .map(([field, fromBackup, fromCurrent]) => ({ field, backup: fromBackup(row), current: fromCurrent(current) }))
+      .filter((change) => change.backup !== change.current);
+
+    return {
+      backupId: row.id,
+      matchedId: current.id,
+      name: row.name,
+      status: changes.length > 0 ? 'changed' : 'unchanged',
+      changes,
+    };
+  });
+}
+
+export function diffBackup(
+  backup: BackupData,
+  current: { categories: Category[]; expenses: Expense[]; incomes: Income[] },
+): RestoreDiff {
+  return {
+    categories: matchRows(backup.categories, current.categories, [
+      ['name', (b) => b.name, (c) => c.name],
+      ['color', (b) => b.color, (c) => c.color],
+      ['icon', (b) => b.icon, (c) => c.icon],
+    ]),
+    expenses: matchRows(backup.expenses, current.expenses, [
+      ['name', (b) => b.name, (c) => c.name],
+      ['amount', (b) => amountKey(b.amount), (c) => amountKey(c.amount)],
+      ['date', (b) => dateKey(b.date), (c) => c.date],
+      ['frequency', (b) => b.frequency, (c) => c.frequency],
+      ['schedule', (b) => describeRecurrence(recurrenceOf(b)), (c) => describeRecurrence(recurrenceOf(c))],
+      ['end date', (b) => optionalKey(b.endDate && dateKey(b.endDate)), (c) => optionalKey(c.endDate)],
+      ['occurrences', (b) => optionalKey(b.occurrenceCount), (c) => optionalKey(c.occurrenceCount)],
+      ['amounts', (b) => describeAmountSchedule(b.amountSchedule), (c) => describeAmountSchedule(c.amountSchedule)],
+    ]),
+    incomes: matchRows(backup.incomes, current.incomes, [
+      ['name', (b) => b.name, (c) => c.name],
+      ['amount', (b) => amountKey(b.amount), (c) => amountKey(c.amount)],
+      ['date', (b) => dateKey(b.date), (c) => c.date],
+      ['frequency', (b) => b.frequency, (c) => c.frequency],
+      ['schedule', (b) => describeRecurrence(recurrenceOf(b)), (c) => describeRecurrence(recurrenceOf(c))],
+      ['end date', (b) => optionalKey(b.endDate && dateKey(b.endDate)), (c) => optionalKey(c.endDate)],
+      ['occurrences', (b) => optionalKey(b.occurrenceCount), (c) => optionalKey(c.occurrenceCount)],
+      ['amounts', (b) => describeAmountSchedule(b.amountSchedule), (c) => describeAmountSchedule(c.amountSchedule)],
+    ]),
+  };
+}
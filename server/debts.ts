@@ -0,0 +1,141 @@
+import type { Express, Request } from "express";
+import { storage } from "./storage";
+import { requireRole, scopeOf } from "./households";
+import { debtStrategySchema, DebtStrategy, insertDebtSchema, type Debt, type DebtStrategyType, type InsertDebt } from "@shared/schema";
+import { debtPlanOf, payoffBlockerOf } from "@shared/debts";
+
+// A debt not saved yet; its ID sorts after every saved one, as it will once stored
+const UNSAVED_DEBT: Debt = {
+  id: Number.MAX_SAFE_INTEGER,
+  householdId: 0,
+  userId: null,
+  name: "",
+  principal: "0",
+  apr: "0",
+  minimumPayment: "0",
+  extraPayment: "0",
+  firstPaymentDate: "",
+  categoryId: 0,
+  expenseId: null,
+  createdAt: null,
+  updatedAt: null,
+};
+
+function withChange(debt: Debt, { firstPaymentDate, ...change }: Partial<InsertDebt>): Debt {
+  return { ...debt, ...change, ...(firstPaymentDate && { firstPaymentDate: firstPaymentDate.toISOString().slice(0, 10) }) };
+}
+
+// Why the household's debts would never all be paid off once the change is saved, or null
+// when they would. Without an id the change is a new debt.
+async function payoffBlockerFor(
+  req: Request,
+  change: { id?: number; debt?: Partial<InsertDebt>; strategy?: DebtStrategyType }
+): Promise<string | null> {
+  const scope = scopeOf(req);
+  const [debts, strategy] = await Promise.all([storage.getDebts(scope), storage.getDebtStrategy(scope)]);
+  const planned = debts.map((debt) => (change.debt && debt.id === change.id ? withChange(debt, change.debt) : debt));
+  if (change.debt && change.id === undefined) planned.push(withChange(UNSAVED_DEBT, change.debt));
+  return payoffBlockerOf(debtPlanOf(planned, change.strategy ?? strategy));
+}
+
+// Debts and their payoff plans. Each debt's payments are a generated monthly expense, so the
+// Calendar and reports pick them up like any other expense.
+export function setupDebts(app: Express) {
+  app.get("/api/debts", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/debts GET");
+    try {
+      res.json(await storage.getDebts(scopeOf(req)));
+    } catch (error) {
+      console.error("Error fetching debts:", error);
+      res.status(500).json({ error: "Failed to fetch debts" });
+    }
+  });
+
+  // The household's strategy and a plan under every strategy, to compare them
+  app.get("/api/debts/plans", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/debts/plans GET");
+    const scope = scopeOf(req);
+    try {
+      const [debts, strategy] = await Promise.all([storage.getDebts(scope), storage.getDebtStrategy(scope)]);
+      res.json({ strategy, plans: DebtStrategy.options.map((option) => debtPlanOf(debts, option)) });
+    } catch (error) {
+      console.error("Error building debt plans:", error);
+      res.status(500).json({ error: "Failed to build debt plans" });
+    }
+  });
+
+  app.put("/api/debts/strategy", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/debts/strategy PUT");
+    const parsed = debtStrategySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const blocker = await payoffBlockerFor(req, { strategy: parsed.data.strategy });
+      if (blocker) {
+        res.status(409).json({ error: blocker });
+        return;
+      }
+      await storage.setDebtStrategy(scopeOf(req), parsed.data.strategy);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error setting debt strategy:", error);
+      res.status(500).json({ error: "Failed to set debt strategy" });
+    }
+  });
+
+  app.post("/api/debts", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/debts POST");
+    const parsed = insertDebtSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const blocker = await payoffBlockerFor(req, { debt: parsed.data });
+      if (blocker) {
+        res.status(409).json({ error: blocker });
+        return;
+      }
+      res.json(await storage.createDebt(scopeOf(req), parsed.data));
+    } catch (error) {
+      console.error("Error creating debt:", error);
+      res.status(500).json({ error: "Failed to create debt" });
+    }
+  });
+
+  app.patch("/api/debts/:id", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/debts PATCH");
+    const parsed = insertDebtSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const blocker = await payoffBlockerFor(req, { id: Number(req.params.id), debt: parsed.data });
+      if (blocker) {
+        res.status(409).json({ error: blocker });
+        return;
+      }
+      res.json(await storage.updateDebt(scopeOf(req), Number(req.params.id), parsed.data));
+    } catch (error) {
+      console.error("Error updating debt:", error);
+      res.status(404).json({ error: "Debt not found" });
+    }
+  });
+
+  app.delete("/api/debts/:id", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/debts DELETE");
+    try {
+      await storage.deleteDebt(scopeOf(req), Number(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting debt:", error);
+      res.status(404).json({ error: "Debt not found" });
+    }
+  });
+}
@@ -0,0 +1,82 @@
+import type { Express } from "express";
+import { addYears } from "date-fns";
+import { storage } from "./storage";
+import { requireRole, scopeOf } from "./households";
+import { insertGoalSchema } from "@shared/schema";
+import { goalProgress, GOAL_PROJECTION_YEARS } from "@shared/goals";
+
+// Savings goals and their progress. Contributions are expenses with a goalId, managed
+// through the expense routes.
+export function setupGoals(app: Express) {
+  app.get("/api/goals", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/goals GET");
+    try {
+      res.json(await storage.getGoals(scopeOf(req)));
+    } catch (error) {
+      console.error("Error fetching goals:", error);
+      res.status(500).json({ error: "Failed to fetch goals" });
+    }
+  });
+
+  // Saved so far, the monthly contribution still needed and the projected completion date
+  app.get("/api/goals/progress", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/goals/progress GET");
+    const scope = scopeOf(req);
+    const today = new Date();
+    try {
+      const [goals, expenses, transactions, rows] = await Promise.all([
+        storage.getGoals(scope),
+        storage.getExpenses(scope),
+        storage.getTransactions(scope),
+        storage.getOccurrences(scope, { from: today, to: addYears(today, GOAL_PROJECTION_YEARS), type: "expense" }),
+      ]);
+      res.json(goals.map((goal) => goalProgress(goal, { expenses, transactions, rows, today })));
+    } catch (error) {
+      console.error("Error building goal progress:", error);
+      res.status(500).json({ error: "Failed to build goal progress" });
+    }
+  });
+
+  app.post("/api/goals", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/goals POST");
+    const parsed = insertGoalSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await storage.createGoal(scopeOf(req), parsed.data));
+    } catch (error) {
+      console.error("Error creating goal:", error);
+      res.status(500).json({ error: "Failed to create goal" });
+    }
+  });
+
+  app.patch("/api/goals/:id", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/goals PATCH");
+    const parsed = insertGoalSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await storage.updateGoal(scopeOf(req), Number(req.params.id), parsed.data));
+    } catch (error) {
+      console.error("Error updating goal:", error);
+      res.status(404).json({ error: "Goal not found" });
+    }
+  });
+
+  app.delete("/api/goals/:id", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/goals DELETE");
+    try {
+      await storage.deleteGoal(scopeOf(req), Number(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting goal:", error);
+      res.status(404).json({ error: "Goal not found" });
+    }
+  });
+}
@@ -0,0 +1,307 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { storage, type DataScope } from "./storage";
+import {
+  HouseholdRole,
+  forecastSettingsSchema,
+  insertHouseholdSchema,
+  insertInvitationSchema,
+  type HouseholdRoleType,
+  type HouseholdDetails,
+} from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    householdId: number;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      household?: { id: number; name: string; role: HouseholdRoleType; zeroBased: boolean };
+    }
+  }
+}
+
+const roleRank = (role: HouseholdRoleType) => HouseholdRole.options.indexOf(role);
+
+// Storage scope for the logged-in member's active household
+export function scopeOf(req: Request): DataScope {
+  return { householdId: req.household!.id, userId: req.user!.id };
+}
+
+// Resolves the active household for the logged-in user. Users without any household
+// (e.g. accounts created before households existed) get a personal one.
+export async function loadHousehold(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = req.user!;
+    let memberships = await storage.getHouseholdsForUser(user.id);
+    if (memberships.length === 0) {
+      await storage.createHousehold(user.id, { name: `${user.username}'s Budget` });
+      memberships = await storage.getHouseholdsForUser(user.id);
+    }
+
+    const active = memberships.find((h) => h.id === req.session.householdId) ?? memberships[0];
+    req.session.householdId = active.id;
+    req.household = { id: active.id, name: active.name, role: active.role, zeroBased: active.zeroBased };
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Rejects the request with 403 unless the member's role is at least `minRole`
+export function requireRole(minRole: HouseholdRoleType) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.household || roleRank(req.household.role) < roleRank(minRole)) {
+      res.status(403).json({ error: `This action requires the ${minRole} role` });
+      return;
+    }
+    next();
+  };
+}
+
+async function ownerCount(householdId: number): Promise<number> {
+  const members = await storage.getHouseholdMembers(householdId);
+  return members.filter((m) => m.role === "owner").length;
+}
+
+export function setupHouseholds(app: Express) {
+  // Households the user belongs to
+  app.get("/api/households", async (req, res) => {
+    console.log("Handling /api/households GET");
+    try {
+      res.json(await storage.getHouseholdsForUser(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching households:", error);
+      res.status(500).json({ error: "Failed to fetch households" });
+    }
+  });
+
+  app.post("/api/households", async (req, res) => {
+    console.log("Handling /api/households POST");
+    const parsed = insertHouseholdSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const household = await storage.createHousehold(req.user!.id, parsed.data);
+      req.session.householdId = household.id;
+      res.status(201).json(household);
+    } catch (error) {
+      console.error("Error creating household:", error);
+      res.status(500).json({ error: "Failed to create household" });
+    }
+  });
+
+  app.post("/api/households/:id/switch", async (req, res) => {
+    console.log("Handling /api/households/:id/switch POST");
+    try {
+      const membership = await storage.getMembership(Number(req.params.id), req.user!.id);
+      if (!membership) {
+        res.status(404).json({ error: "Household not found" });
+        return;
+      }
+      req.session.householdId = membership.householdId;
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error switching household:", error);
+      res.status(500).json({ error: "Failed to switch household" });
+    }
+  });
+
+  // Active household
+  app.get("/api/household", async (req, res) => {
+    console.log("Handling /api/household GET");
+    try {
+      const households = await storage.getHouseholdsForUser(req.user!.id);
+      const household = households.find((h) => h.id === req.household!.id)!;
+      const details: HouseholdDetails = {
+        ...household,
+        members: await storage.getHouseholdMembers(household.id),
+      };
+      res.json(details);
+    } catch (error) {
+      console.error("Error fetching household:", error);
+      res.status(500).json({ error: "Failed to fetch household" });
+    }
+  });
+
+  app.patch("/api/household", requireRole("owner"), async (req, res) => {
+    console.log("Handling /api/household PATCH");
+    const parsed = insertHouseholdSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await storage.updateHousehold(req.household!.id, parsed.data));
+    } catch (error) {
+      console.error("Error updating household:", error);
+      res.status(404).json({ error: "Household not found" });
+    }
+  });
+
+  // Any editor may keep the forecast's starting balance current
+  app.put("/api/household/forecast", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/household/forecast PUT");
+    const parsed = forecastSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await storage.saveForecastSettings(req.household!.id, parsed.data));
+    } catch (error) {
+      console.error("Error saving forecast settings:", error);
+      res.status(404).json({ error: "Household not found" });
+    }
+  });
+
+  app.patch("/api/household/members/:userId", requireRole("owner"), async (req, res) => {
+    console.log("Handling /api/household/members PATCH");
+    const parsed = HouseholdRole.safeParse(req.body?.role);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const householdId = req.household!.id;
+      const userId = Number(req.params.userId);
+      const membership = await storage.getMembership(householdId, userId);
+      if (!membership) {
+        res.status(404).json({ error: "Member not found" });
+        return;
+      }
+      if (membership.role === "owner" && parsed.data !== "owner" && (await ownerCount(householdId)) === 1) {
+        res.status(409).json({ error: "A household needs at least one owner" });
+        return;
+      }
+
+      res.json(await storage.updateMemberRole(householdId, userId, parsed.data));
+    } catch (error) {
+      console.error("Error updating member:", error);
+      res.status(500).json({ error: "Failed to update member" });
+    }
+  });
+
+  // Owners can remove anyone; every member can remove themselves (leave)
+  app.delete("/api/household/members/:userId", async (req, res) => {
+    console.log("Handling /api/household/members DELETE");
+    const householdId = req.household!.id;
+    const userId = Number(req.params.userId);
+    if (userId !== req.user!.id && req.household!.role !== "owner") {
+      res.status(403).json({ error: "This action requires the owner role" });
+      return;
+    }
+
+    try {
+      const membership = await storage.getMembership(householdId, userId);
+      if (!membership) {
+        res.status(404).json({ error: "Member not found" });
+        return;
+      }
+      if (membership.role === "owner" && (await ownerCount(householdId)) === 1) {
+        res.status(409).json({ error: "A household needs at least one owner" });
+        return;
+      }
+
+      await storage.removeMember(householdId, userId);
+      if (userId === req.user!.id) {
+        delete req.session.householdId;
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error removing member:", error);
+      res.status(500).json({ error: "Failed to remove member" });
+    }
+  });
+
+  // Invitations sent by the active household
+  app.get("/api/household/invitations", requireRole("owner"), async (req, res) => {
+    console.log("Handling /api/household/invitations GET");
+    try {
+      res.json(await storage.getHouseholdInvitations(req.household!.id));
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ error: "Failed to fetch invitations" });
+    }
+  });
+
+  app.post("/api/household/invitations", requireRole("owner"), async (req, res) => {
+    console.log("Handling /api/household/invitations POST");
+    const parsed = insertInvitationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const invitee = await storage.getUserByUsername(parsed.data.username);
+      if (!invitee) {
+        res.status(404).json({ error: "User not found" });
+        return;
+      }
+      if (await storage.getMembership(req.household!.id, invitee.id)) {
+        res.status(409).json({ error: "User is already a member" });
+        return;
+      }
+
+      const invitation = await storage.createInvitation(req.household!.id, req.user!.id, parsed.data);
+      res.status(201).json(invitation);
+    } catch (error) {
+      console.error("Error creating invitation:", error);
+      res.status(409).json({ error: "User has already been invited" });
+    }
+  });
+
+  app.delete("/api/household/invitations/:id", requireRole("owner"), async (req, res) => {
+    console.log("Handling /api/household/invitations DELETE");
+    try {
+      await storage.deleteInvitation(req.household!.id, Number(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting invitation:", error);
+      res.status(404).json({ error: "Invitation not found" });
+    }
+  });
+
+  // Invitations addressed to the logged-in user
+  app.get("/api/invitations", async (req, res) => {
+    console.log("Handling /api/invitations GET");
+    try {
+      res.json(await storage.getInvitationsForUser(req.user!.username));
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ error: "Failed to fetch invitations" });
+    }
+  });
+
+  app.post("/api/invitations/:id/accept", async (req, res) => {
+    console.log("Handling /api/invitations/:id/accept POST");
+    try {
+      const member = await storage.acceptInvitation(req.user!, Number(req.params.id));
+      req.session.householdId = member.householdId;
+      res.json(member);
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(404).json({ error: "Invitation not found" });
+    }
+  });
+
+  app.post("/api/invitations/:id/decline", async (req, res) => {
+    console.log("Handling /api/invitations/:id/decline POST");
+    try {
+      await storage.declineInvitation(req.user!.username, Number(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error declining invitation:", error);
+      res.status(404).json({ error: "Invitation not found" });
+    }
+  });
+}
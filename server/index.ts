@@ -12,6 +12,8 @@ import pg from 'pg';
 import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import type { CorsOptions } from 'cors';
+import { registerRoutes } from './routes';
+import { startSnapshotSchedule } from './snapshots';
 
 // Initialize environment variables with proper path
 const envPath = path.resolve(process.cwd(), '.env');
@@ -44,8 +46,10 @@ const corsOptions: CorsOptions = {
     `http://localhost:${process.env.VITE_PORT || 5174}`,
     'http://localhost:3001'
   ],
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization'],
+  // Report downloads name their file
+  exposedHeaders: ['Content-Disposition'],
   credentials: true,
   optionsSuccessStatus: 204
 };
@@ -99,6 +103,8 @@ app.use((req, res, next) => {
   next();
 });
 
+// Backup files are far larger than regular API payloads
+app.use('/api/restore', express.json({ limit: '10mb' }));
 app.use(express.json({ limit: '10kb' }));
 app.use(express.urlencoded({ extended: true, limit: '10kb' }));
 app.use(cors(corsOptions));
@@ -126,40 +132,9 @@ app.get('/', (req, res) => {
   res.status(200).send('Welcome to BudgetBuddy API');
 });
 
-// API Endpoints (keep your existing endpoints exactly as they were)
-app.get('/api/expenses', async (req, res, next) => {
-  try {
-    const { year, month, category_id } = req.query;
-    let query = 'SELECT * FROM expenses';
-    const params: (string | number)[] = [];
-    const conditions: string[] = [];
-
-    if (year) {
-      conditions.push(`EXTRACT(YEAR FROM date) = $${conditions.length + 1}`);
-      params.push(year as string);
-    }
-    if (month) {
-      conditions.push(`EXTRACT(MONTH FROM date) = $${conditions.length + 1}`);
-      params.push(month as string);
-    }
-    if (category_id) {
-      conditions.push(`category_id = $${conditions.length + 1}`);
-      params.push(category_id as string);
-    }
-
-    if (conditions.length) {
-      query += ` WHERE ${conditions.join(' AND ')}`;
-    }
-
-    query += ' ORDER BY date DESC';
-    const result = await pool.query(query, params);
-    res.json(result.rows);
-  } catch (err) {
-    next(err);
-  }
-});
-
-// Keep all your existing API endpoints exactly as they were (incomes, categories, etc.)
+// API Endpoints (auth, categories, expenses, incomes) - all scoped to the logged-in user
+await registerRoutes(app);
+startSnapshotSchedule();
 
 // Error handling middleware
 app.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
@@ -0,0 +1,145 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "./storage";
+import { requireRole, scopeOf } from "./households";
+import { insertMonthAllocationSchema, monthKeySchema } from "@shared/schema";
+import { closeBlockerOf, monthBudgetOf, monthBudgetQuerySchema, monthQueryOf, type MonthBudget } from "@shared/months";
+
+// Month budgets: expected income, its allocations and whether the month is closed. Months are
+// 'yyyy-MM'; in zero-based households a month only closes once nothing is left to assign.
+
+// accountId narrows the expected income and planned spending to that account's items; the
+// allocations and the close are the household's either way
+async function monthBudgetFor(req: Request, month: string, accountId?: number): Promise<MonthBudget> {
+  const scope = scopeOf(req);
+  const [rows, allocations, close] = await Promise.all([
+    storage.getOccurrences(scope, { ...monthQueryOf(month), accountId }),
+    storage.getMonthAllocations(scope, month),
+    storage.getMonthClose(scope, month),
+  ]);
+  return monthBudgetOf(month, rows, allocations, { zeroBased: req.household!.zeroBased, close: close ?? null });
+}
+
+// The :month parameter, or undefined after answering 400
+function monthOf(req: Request, res: Response): string | undefined {
+  const parsed = monthKeySchema.safeParse(req.params.month);
+  if (!parsed.success) {
+    res.status(400).json({ error: parsed.error });
+    return undefined;
+  }
+  return parsed.data;
+}
+
+export function setupMonths(app: Express) {
+  // Every month's allocations and closes, for backups
+  app.get("/api/month-allocations", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/month-allocations GET");
+    try {
+      res.json(await storage.getMonthAllocations(scopeOf(req)));
+    } catch (error) {
+      console.error("Error fetching month allocations:", error);
+      res.status(500).json({ error: "Failed to fetch month allocations" });
+    }
+  });
+
+  app.get("/api/month-closes", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/month-closes GET");
+    try {
+      res.json(await storage.getMonthCloses(scopeOf(req)));
+    } catch (error) {
+      console.error("Error fetching month closes:", error);
+      res.status(500).json({ error: "Failed to fetch month closes" });
+    }
+  });
+
+  app.get("/api/months/:month", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/months/:month GET");
+    const month = monthOf(req, res);
+    if (!month) return;
+    const parsed = monthBudgetQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await monthBudgetFor(req, month, parsed.data.accountId));
+    } catch (error) {
+      console.error("Error fetching month budget:", error);
+      res.status(500).json({ error: "Failed to fetch month budget" });
+    }
+  });
+
+  // Assigns part of the month's income to a category, savings or the buffer
+  app.put("/api/months/:month/allocations", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/months/:month/allocations PUT");
+    const month = monthOf(req, res);
+    if (!month) return;
+    const parsed = insertMonthAllocationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      if (await storage.getMonthClose(scopeOf(req), month)) {
+        res.status(409).json({ error: "Month is closed" });
+        return;
+      }
+      res.json(await storage.saveMonthAllocation(scopeOf(req), month, parsed.data));
+    } catch (error) {
+      console.error("Error saving month allocation:", error);
+      res.status(404).json({ error: "Category not found" });
+    }
+  });
+
+  app.delete("/api/months/:month/allocations/:id", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/months/:month/allocations DELETE");
+    const month = monthOf(req, res);
+    if (!month) return;
+
+    try {
+      if (await storage.getMonthClose(scopeOf(req), month)) {
+        res.status(409).json({ error: "Month is closed" });
+        return;
+      }
+      await storage.deleteMonthAllocation(scopeOf(req), month, Number(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting month allocation:", error);
+      res.status(404).json({ error: "Allocation not found" });
+    }
+  });
+
+  app.post("/api/months/:month/close", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/months/:month/close POST");
+    const month = monthOf(req, res);
+    if (!month) return;
+
+    try {
+      const blocker = closeBlockerOf(await monthBudgetFor(req, month));
+      if (blocker) {
+        res.status(409).json({ error: blocker });
+        return;
+      }
+      res.status(201).json(await storage.closeMonth(scopeOf(req), month));
+    } catch (error) {
+      console.error("Error closing month:", error);
+      res.status(500).json({ error: "Failed to close month" });
+    }
+  });
+
+  // Reopening lets the month's allocations change again
+  app.delete("/api/months/:month/close", requireRole("owner"), async (req, res) => {
+    console.log("Handling /api/months/:month/close DELETE");
+    const month = monthOf(req, res);
+    if (!month) return;
+
+    try {
+      await storage.reopenMonth(scopeOf(req), month);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error reopening month:", error);
+      res.status(404).json({ error: "Month is not closed" });
+    }
+  });
+}
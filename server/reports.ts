@@ -0,0 +1,213 @@
+import type { Express, Request } from "express";
+import * as XLSX from "xlsx";
+import { addMonths, endOfMonth, startOfMonth } from "date-fns";
+import { storage } from "./storage";
+import { requireRole, scopeOf } from "./households";
+import {
+  reportQuerySchema, annualReportQuerySchema, occurrenceQueryOf, reportRows,
+  reportSummary, reportByCategory, reportMonthly, reportAnnual, type AnnualReport, type AnnualReportQuery, type ReportQuery
+} from "@shared/reports";
+import {
+  reportDocumentTypes, summaryDocument, categoryDocument, monthlyDocument, annualDocument,
+  monthlyBudgetDocument, allExpensesDocument, allIncomesDocument, allCategoriesDocument,
+  singleExpenseDocument, singleCategoryDocument, varianceDocument,
+  renderPdf, renderWorkbook, type LedgerSources, type ReportDocument, type ReportDocumentType
+} from "@shared/reportDocuments";
+import { envelopeOf, envelopesRangeOf } from "@shared/budgets";
+import { sinkingFundOf, SINKING_FUND_LOOKAROUND_MONTHS, type SinkingFund } from "@shared/sinkingFunds";
+import type { OccurrenceRow } from "@shared/occurrences";
+
+// Report figures for scripts and other tools, the same ones the report modals show.
+// Every range report takes from and to ('yyyy-MM-dd') plus optional type, categoryId, expenseId and
+// accountId; the annual report takes a year and an optional accountId. Each is also served as a document: /api/reports/monthly.pdf
+// ReportModal's own reports are served as documents only: monthly-budget, all-expenses,
+// all-incomes, all-categories, variance, single-expense (which needs expenseId) and
+// single-category (categoryId).
+
+async function occurrencesFor(req: Request, query: ReportQuery): Promise<OccurrenceRow[]> {
+  return reportRows(await storage.getOccurrences(scopeOf(req), occurrenceQueryOf(query)), query);
+}
+
+async function annualReportFor(req: Request, { year, accountId }: AnnualReportQuery): Promise<AnnualReport> {
+  const scope = scopeOf(req);
+  const [rows, expenses, incomes] = await Promise.all([
+    storage.getOccurrences(scope, { from: new Date(Date.UTC(year, 0, 1)), to: new Date(Date.UTC(year, 11, 31)), accountId }),
+    storage.getExpenses(scope),
+    storage.getIncomes(scope),
+  ]);
+  return reportAnnual(rows, { expenses, incomes }, year);
+}
+
+const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+// As ReportModal shows them: a range within one month covers the whole month and lists its
+// envelopes and sinking funds. Undefined when the expense or category doesn't exist.
+async function ledgerDocument(
+  req: Request,
+  type: Exclude<ReportDocumentType, "summary" | "by-category" | "monthly" | "annual">,
+  query: ReportQuery
+): Promise<ReportDocument | undefined> {
+  const scope = scopeOf(req);
+  const wholeMonth = type === "monthly-budget" || monthKey(query.from) === monthKey(query.to);
+  const range = wholeMonth
+    ? {
+      from: new Date(Date.UTC(query.from.getUTCFullYear(), query.from.getUTCMonth(), 1)),
+      to: new Date(Date.UTC(query.from.getUTCFullYear(), query.from.getUTCMonth() + 1, 0)),
+    }
+    : { from: query.from, to: query.to };
+  const [rows, expenses, categories, budgets] = await Promise.all([
+    storage.getOccurrences(scope, { ...range, accountId: query.accountId }),
+    storage.getExpenses(scope),
+    storage.getCategories(scope),
+    storage.getCategoryBudgets(scope),
+  ]);
+
+  const sources: LedgerSources = { rows, envelopes: [], sinkingFunds: [] };
+  if (wholeMonth && type !== "all-incomes") {
+    // The envelope and sinking-fund helpers work in local months, as the client's hooks do
+    const month = new Date(range.from.getUTCFullYear(), range.from.getUTCMonth(), 1);
+    const [envelopeRows, fundRows] = await Promise.all([
+      storage.getOccurrences(scope, { ...envelopesRangeOf(budgets, month), type: "expense" }),
+      storage.getOccurrences(scope, {
+        from: startOfMonth(addMonths(month, -SINKING_FUND_LOOKAROUND_MONTHS)),
+        to: endOfMonth(addMonths(month, SINKING_FUND_LOOKAROUND_MONTHS)),
+        type: "expense",
+      }),
+    ]);
+    sources.envelopes = budgets.map((budget) => ({
+      ...envelopeOf(budget, envelopeRows, month),
+      category: categories.find((category) => category.id === budget.categoryId),
+    }));
+    sources.sinkingFunds = expenses
+      .filter((expense) => expense.sinkingFund && (query.accountId === undefined || expense.accountId === query.accountId))
+      .map((expense) => sinkingFundOf(expense, fundRows, month))
+      .filter((fund): fund is SinkingFund => fund !== null);
+  }
+
+  if (type === "monthly-budget") return monthlyBudgetDocument(sources, range);
+  if (type === "all-expenses") return allExpensesDocument(sources, range);
+  if (type === "all-incomes") return allIncomesDocument(sources, range);
+  if (type === "all-categories") return allCategoriesDocument(sources, range);
+  if (type === "variance") return varianceDocument(sources, range);
+  if (type === "single-expense") {
+    const expense = expenses.find((candidate) => candidate.id === query.expenseId);
+    return expense && singleExpenseDocument(sources, expense, range);
+  }
+  const category = categories.find((candidate) => candidate.id === query.categoryId);
+  return category && singleCategoryDocument(sources, category, range);
+}
+
+async function rangeDocument(req: Request, type: Exclude<ReportDocumentType, "annual">, query: ReportQuery): Promise<ReportDocument | undefined> {
+  if (type !== "summary" && type !== "by-category" && type !== "monthly") return ledgerDocument(req, type, query);
+  const rows = await occurrencesFor(req, query);
+  if (type === "summary") return summaryDocument(reportSummary(rows), query);
+  if (type === "by-category") return categoryDocument(reportByCategory(rows), query);
+  return monthlyDocument(reportMonthly(rows, query), query);
+}
+
+export function setupReports(app: Express) {
+  app.get("/api/reports/summary", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/reports/summary GET");
+    const parsed = reportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(reportSummary(await occurrencesFor(req, parsed.data)));
+    } catch (error) {
+      console.error("Error building summary report:", error);
+      res.status(500).json({ error: "Failed to build report" });
+    }
+  });
+
+  app.get("/api/reports/by-category", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/reports/by-category GET");
+    const parsed = reportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(reportByCategory(await occurrencesFor(req, parsed.data)));
+    } catch (error) {
+      console.error("Error building category report:", error);
+      res.status(500).json({ error: "Failed to build report" });
+    }
+  });
+
+  app.get("/api/reports/monthly", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/reports/monthly GET");
+    const parsed = reportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(reportMonthly(await occurrencesFor(req, parsed.data), parsed.data));
+    } catch (error) {
+      console.error("Error building monthly report:", error);
+      res.status(500).json({ error: "Failed to build report" });
+    }
+  });
+
+  // The calendar year, as AnnualReportModal shows it: ?year=2025
+  app.get("/api/reports/annual", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/reports/annual GET");
+    const parsed = annualReportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await annualReportFor(req, parsed.data));
+    } catch (error) {
+      console.error("Error building annual report:", error);
+      res.status(500).json({ error: "Failed to build report" });
+    }
+  });
+
+  // Any report above as a PDF or Excel download, e.g. /api/reports/by-category.xlsx?from=...&to=...
+  app.get("/api/reports/:type.:format", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/reports/:type.:format GET");
+    const type = reportDocumentTypes.find((candidate) => candidate === req.params.type);
+    const { format } = req.params;
+    if (!type || (format !== "pdf" && format !== "xlsx")) {
+      res.status(404).json({ error: "Report not found" });
+      return;
+    }
+    const parsed = type === "annual"
+      ? annualReportQuerySchema.safeParse(req.query)
+      : reportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    const required = type === "single-expense" ? "expenseId" : type === "single-category" ? "categoryId" : undefined;
+    if (required && (parsed.data as ReportQuery)[required] === undefined) {
+      res.status(400).json({ error: `${required} is required` });
+      return;
+    }
+
+    try {
+      const document = "year" in parsed.data
+        ? annualDocument(await annualReportFor(req, parsed.data), "Annual Financial Report")
+        : await rangeDocument(req, type as Exclude<ReportDocumentType, "annual">, parsed.data);
+      if (!document) {
+        res.status(404).json({ error: type === "single-expense" ? "Expense not found" : "Category not found" });
+        return;
+      }
+      res.attachment(`${document.fileName}.${format}`);
+      res.send(format === "pdf"
+        ? Buffer.from(renderPdf(document).output("arraybuffer"))
+        : XLSX.write(renderWorkbook(document), { type: "buffer", bookType: "xlsx" }));
+    } catch (error) {
+      console.error("Error rendering report document:", error);
+      res.status(500).json({ error: "Failed to render report" });
+    }
+  });
+}
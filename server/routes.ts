@@ -1,14 +1,39 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertCategorySchema, insertExpenseSchema, insertIncomeSchema } from "@shared/schema";
+import { setupAuth, requireAuth } from "./auth";
+import { setupHouseholds, loadHousehold, requireRole, scopeOf } from "./households";
+import { setupSnapshots, createSnapshot } from "./snapshots";
+import { setupReports } from "./reports";
+import { setupMonths } from "./months";
+import { setupGoals } from "./goals";
+import { setupDebts } from "./debts";
+import { setupAccounts } from "./accounts";
+import {
+  insertCategorySchema, insertExpenseSchema, insertIncomeSchema, insertOccurrenceOverrideSchema, seriesSplitSchema,
+  insertTransactionSchema, updateExpenseSchema, updateIncomeSchema, insertCategoryBudgetSchema
+} from "@shared/schema";
+import { parseBackup, mergeRestoreSchema } from "@shared/backup";
+import { occurrenceQuerySchema } from "@shared/occurrences";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Auth routes are public; everything else under /api needs a logged-in user
+  // and works on that user's active household
+  setupAuth(app);
+  app.use("/api", requireAuth, loadHousehold);
+  setupHouseholds(app);
+  setupSnapshots(app);
+  setupReports(app);
+  setupMonths(app);
+  setupGoals(app);
+  setupDebts(app);
+  setupAccounts(app);
+
   // Categories routes
-  app.get("/api/categories", async (_req, res) => {
+  app.get("/api/categories", requireRole("viewer"), async (req, res) => {
     console.log("Handling /api/categories GET");
     try {
-      const categories = await storage.getCategories();
+      const categories = await storage.getCategories(scopeOf(req));
       res.json(categories);
     } catch (error) {
       console.error("Error fetching categories:", error);
@@ -16,7 +41,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/categories", async (req, res) => {
+  app.post("/api/categories", requireRole("editor"), async (req, res) => {
     console.log("Handling /api/categories POST");
     const parsed = insertCategorySchema.safeParse(req.body);
     if (!parsed.success) {
@@ -25,7 +50,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const category = await storage.createCategory(parsed.data);
+      const category = await storage.createCategory(scopeOf(req), parsed.data);
       res.json(category);
     } catch (error) {
       console.error("Error creating category:", error);
@@ -33,7 +58,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/categories/:id", async (req, res) => {
+  app.patch("/api/categories/:id", requireRole("editor"), async (req, res) => {
     console.log("Handling /api/categories PATCH");
     const parsed = insertCategorySchema.partial().safeParse(req.body);
     if (!parsed.success) {
@@ -42,7 +67,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const category = await storage.updateCategory(Number(req.params.id), parsed.data);
+      const category = await storage.updateCategory(scopeOf(req), Number(req.params.id), parsed.data);
       res.json(category);
     } catch (error) {
       console.error("Error updating category:", error);
@@ -50,10 +75,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/categories/:id", async (req, res) => {
+  app.delete("/api/categories/:id", requireRole("editor"), async (req, res) => {
     console.log("Handling /api/categories DELETE");
     try {
-      await storage.deleteCategory(Number(req.params.id));
+      await storage.deleteCategory(scopeOf(req), Number(req.params.id));
       res.status(204).end();
     } catch (error) {
       console.error("Error deleting category:", error);
@@ -61,11 +86,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Category budget routes: a spending limit per category and period
+  app.get("/api/category-budgets", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/category-budgets GET");
+    try {
+      res.json(await storage.getCategoryBudgets(scopeOf(req)));
+    } catch (error) {
+      console.error("Error fetching category budgets:", error);
+      res.status(500).json({ error: "Failed to fetch category budgets" });
+    }
+  });
+
+  app.put("/api/category-budgets", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/category-budgets PUT");
+    const parsed = insertCategoryBudgetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await storage.saveCategoryBudget(scopeOf(req), parsed.data));
+    } catch (error) {
+      console.error("Error saving category budget:", error);
+      res.status(404).json({ error: "Category not found" });
+    }
+  });
+
+  app.delete("/api/category-budgets/:id", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/category-budgets DELETE");
+    try {
+      await storage.deleteCategoryBudget(scopeOf(req), Number(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting category budget:", error);
+      res.status(404).json({ error: "Budget not found" });
+    }
+  });
+
   // Expenses routes
-  app.get("/api/expenses", async (_req, res) => {
+  app.get("/api/expenses", requireRole("viewer"), async (req, res) => {
     console.log("Handling /api/expenses GET");
     try {
-      const expenses = await storage.getExpenses();
+      const expenses = await storage.getExpenses(scopeOf(req));
       res.json(expenses);
     } catch (error) {
       console.error("Error fetching expenses:", error);
@@ -73,7 +136,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/expenses", async (req, res) => {
+  app.post("/api/expenses", requireRole("editor"), async (req, res) => {
     console.log("Handling /api/expenses POST");
     const parsed = insertExpenseSchema.safeParse(req.body);
 
@@ -90,7 +153,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const expense = await storage.createExpense(parsed.data);
+      const expense = await storage.createExpense(scopeOf(req), parsed.data);
       res.json(expense);
     } catch (error) {
       console.error("Error creating expense:", error);
@@ -101,16 +164,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/expenses/:id", async (req, res) => {
+  app.patch("/api/expenses/:id", requireRole("editor"), async (req, res) => {
     console.log("Handling /api/expenses PATCH");
-    const parsed = insertExpenseSchema.partial().safeParse(req.body);
+    const parsed = updateExpenseSchema.safeParse(req.body);
     if (!parsed.success) {
       res.status(400).json({ error: parsed.error });
       return;
     }
 
     try {
-      const expense = await storage.updateExpense(Number(req.params.id), parsed.data);
+      const expense = await storage.updateExpense(scopeOf(req), Number(req.params.id), parsed.data);
       res.json(expense);
     } catch (error) {
       console.error("Error updating expense:", error);
@@ -118,10 +181,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/expenses/:id", async (req, res) => {
+  app.delete("/api/expenses/:id", requireRole("editor"), async (req, res) => {
     console.log("Handling /api/expenses DELETE");
     try {
-      await storage.deleteExpense(Number(req.params.id));
+      await storage.deleteExpense(scopeOf(req), Number(req.params.id));
       res.status(204).end();
     } catch (error) {
       console.error("Error deleting expense:", error);
@@ -129,10 +192,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/expenses/:id", async (req, res) => {
+  app.get("/api/expenses/:id", requireRole("viewer"), async (req, res) => {
     console.log("Handling /api/expenses GET by ID");
     try {
-      const expense = await storage.getExpense(Number(req.params.id));
+      const expense = await storage.getExpense(scopeOf(req), Number(req.params.id));
       if (expense) {
         res.json(expense);
       } else {
@@ -145,10 +208,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Incomes routes
-  app.get("/api/incomes", async (_req, res) => {
+  app.get("/api/incomes", requireRole("viewer"), async (req, res) => {
     console.log("Handling /api/incomes GET");
     try {
-      const incomes = await storage.getIncomes();
+      const incomes = await storage.getIncomes(scopeOf(req));
       res.json(incomes);
     } catch (error) {
       console.error("Error fetching incomes:", error);
@@ -156,7 +219,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/incomes", async (req, res) => {
+  app.post("/api/incomes", requireRole("editor"), async (req, res) => {
     console.log("Handling /api/incomes POST");
     const parsed = insertIncomeSchema.safeParse(req.body);
     if (!parsed.success) {
@@ -165,7 +228,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const income = await storage.createIncome(parsed.data);
+      const income = await storage.createIncome(scopeOf(req), parsed.data);
       res.json(income);
     } catch (error) {
       console.error("Error creating income:", error);
@@ -173,16 +236,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/incomes/:id", async (req, res) => {
+  app.patch("/api/incomes/:id", requireRole("editor"), async (req, res) => {
     console.log("Handling /api/incomes PATCH");
-    const parsed = insertIncomeSchema.partial().safeParse(req.body);
+    const parsed = updateIncomeSchema.safeParse(req.body);
     if (!parsed.success) {
       res.status(400).json({ error: parsed.error });
       return;
     }
 
     try {
-      const income = await storage.updateIncome(Number(req.params.id), parsed.data);
+      const income = await storage.updateIncome(scopeOf(req), Number(req.params.id), parsed.data);
       res.json(income);
     } catch (error) {
       console.error("Error updating income:", error);
@@ -190,10 +253,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/incomes/:id", async (req, res) => {
+  app.delete("/api/incomes/:id", requireRole("editor"), async (req, res) => {
     console.log("Handling /api/incomes DELETE");
     try {
-      await storage.deleteIncome(Number(req.params.id));
+      await storage.deleteIncome(scopeOf(req), Number(req.params.id));
       res.status(204).end();
     } catch (error) {
       console.error("Error deleting income:", error);
@@ -201,11 +264,151 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every occurrence in a date range, expanded with overrides, change history and the ledger
+  app.get("/api/occurrences", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/occurrences GET");
+    const parsed = occurrenceQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await storage.getOccurrences(scopeOf(req), parsed.data));
+    } catch (error) {
+      console.error("Error fetching occurrences:", error);
+      res.status(500).json({ error: "Failed to fetch occurrences" });
+    }
+  });
+
+  // Occurrence routes: one-off changes to a single occurrence, and splitting a series
+  // for "this and all future occurrences"
+  app.get("/api/occurrence-overrides", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/occurrence-overrides GET");
+    try {
+      res.json(await storage.getOccurrenceOverrides(scopeOf(req)));
+    } catch (error) {
+      console.error("Error fetching occurrence overrides:", error);
+      res.status(500).json({ error: "Failed to fetch occurrence overrides" });
+    }
+  });
+
+  app.put("/api/occurrence-overrides", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/occurrence-overrides PUT");
+    const parsed = insertOccurrenceOverrideSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await storage.saveOccurrenceOverride(scopeOf(req), parsed.data));
+    } catch (error) {
+      console.error("Error saving occurrence override:", error);
+      res.status(404).json({ error: error instanceof Error ? error.message : "Item not found" });
+    }
+  });
+
+  app.delete("/api/occurrence-overrides/:id", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/occurrence-overrides DELETE");
+    try {
+      await storage.deleteOccurrenceOverride(scopeOf(req), Number(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting occurrence override:", error);
+      res.status(404).json({ error: "Override not found" });
+    }
+  });
+
+  app.post("/api/expenses/:id/split", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/expenses/:id/split POST");
+    const parsed = seriesSplitSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const expense = await storage.splitExpense(scopeOf(req), Number(req.params.id), parsed.data);
+      res.json({ expense: expense ?? null });
+    } catch (error) {
+      console.error("Error splitting expense:", error);
+      res.status(404).json({ error: "Expense not found" });
+    }
+  });
+
+  app.post("/api/incomes/:id/split", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/incomes/:id/split POST");
+    const parsed = seriesSplitSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const income = await storage.splitIncome(scopeOf(req), Number(req.params.id), parsed.data);
+      res.json({ income: income ?? null });
+    } catch (error) {
+      console.error("Error splitting income:", error);
+      res.status(404).json({ error: "Income not found" });
+    }
+  });
+
+  // Change history: the values recurring items had before each edit took effect
+  app.get("/api/item-changes", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/item-changes GET");
+    try {
+      res.json(await storage.getItemChanges(scopeOf(req)));
+    } catch (error) {
+      console.error("Error fetching item changes:", error);
+      res.status(500).json({ error: "Failed to fetch item changes" });
+    }
+  });
+
+  // Transaction routes: the ledger of what was actually paid or received
+  app.get("/api/transactions", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/transactions GET");
+    try {
+      res.json(await storage.getTransactions(scopeOf(req)));
+    } catch (error) {
+      console.error("Error fetching transactions:", error);
+      res.status(500).json({ error: "Failed to fetch transactions" });
+    }
+  });
+
+  app.put("/api/transactions", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/transactions PUT");
+    const parsed = insertTransactionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      res.json(await storage.recordTransaction(scopeOf(req), parsed.data));
+    } catch (error) {
+      console.error("Error recording transaction:", error);
+      res.status(404).json({ error: error instanceof Error ? error.message : "Item not found" });
+    }
+  });
+
+  app.delete("/api/transactions/:id", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/transactions DELETE");
+    try {
+      await storage.deleteTransaction(scopeOf(req), Number(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting transaction:", error);
+      res.status(404).json({ error: "Transaction not found" });
+    }
+  });
+
   // Clear all data endpoint
-  app.post("/api/clear-data", async (_req, res) => {
+  app.post("/api/clear-data", requireRole("owner"), async (req, res) => {
     console.log("Handling /api/clear-data POST");
     try {
-      await storage.clearAllData();
+      await createSnapshot(req.household!.id, "before-clear");
+      await storage.clearAllData(scopeOf(req));
       res.status(200).json({ message: "All data cleared successfully" });
     } catch (error) {
       console.error("Error clearing data:", error);
@@ -213,6 +416,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Replaces the household's data with a backup file; all or nothing
+  app.post("/api/restore", requireRole("owner"), async (req, res) => {
+    console.log("Handling /api/restore POST");
+    // Older backup versions are upgraded before validation
+    const parsed = parseBackup(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid backup file", problems: parsed.problems });
+      return;
+    }
+
+    try {
+      await createSnapshot(req.household!.id, "before-restore");
+      const result = await storage.restoreBackup(scopeOf(req), parsed.data);
+      res.json(result);
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      res.status(500).json({ error: "Failed to restore backup, no changes were made" });
+    }
+  });
+
+  // Shows what a merge restore would add or change, without writing anything
+  app.post("/api/restore/preview", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/restore/preview POST");
+    const parsed = parseBackup(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid backup file", problems: parsed.problems });
+      return;
+    }
+
+    try {
+      const diff = await storage.previewMerge(scopeOf(req), parsed.data);
+      res.json(diff);
+    } catch (error) {
+      console.error("Error previewing backup:", error);
+      res.status(500).json({ error: "Failed to preview backup" });
+    }
+  });
+
+  app.post("/api/restore/merge", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/restore/merge POST");
+    const parsed = mergeRestoreSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    const backup = parseBackup(parsed.data.backup);
+    if (!backup.success) {
+      res.status(400).json({ error: "Invalid backup file", problems: backup.problems });
+      return;
+    }
+
+    try {
+      const result = await storage.mergeBackup(scopeOf(req), backup.data, parsed.data.selection);
+      res.json(result);
+    } catch (error) {
+      console.error("Error merging backup:", error);
+      res.status(500).json({ error: "Failed to merge backup, no changes were made" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
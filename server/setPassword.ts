@@ -0,0 +1,34 @@
+import { eq } from "drizzle-orm";
+import { insertUserSchema, users } from "@shared/schema";
+import { db } from "./db";
+import { hashPassword } from "./auth";
+
+// Sets a user's login password, e.g. for the "owner" user the users migration
+// creates for data from before user accounts: npm run user:password -- owner <password>
+const [username, password] = process.argv.slice(2);
+if (!username || !password) {
+  console.error("Usage: npm run user:password -- <username> <password>");
+  process.exit(1);
+}
+const parsed = insertUserSchema.shape.password.safeParse(password);
+if (!parsed.success) {
+  console.error(parsed.error.issues[0].message);
+  process.exit(1);
+}
+
+try {
+  const updated = await db
+    .update(users)
+    .set({ password: await hashPassword(password) })
+    .where(eq(users.username, username))
+    .returning({ id: users.id });
+  if (updated.length === 0) {
+    console.error(`No user named ${username}`);
+    process.exit(1);
+  }
+  console.log(`Password updated for ${username}`);
+  process.exit(0);
+} catch (error) {
+  console.error("Error updating password:", error);
+  process.exit(1);
+}
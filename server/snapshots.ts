@@ -0,0 +1,202 @@
+import type { Express } from "express";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { storage } from "./storage";
+import { requireRole, scopeOf } from "./households";
+import { createBackupFile, parseBackup, type SnapshotInfo, type SnapshotReasonType } from "@shared/backup";
+
+// Snapshots are ordinary backup files kept on the server's disk, one directory per household:
+// <SNAPSHOT_DIR>/<householdId>/<timestamp>_<reason>.json. They hold plaintext financial data,
+// so the default is in the home directory rather than the working tree.
+const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || path.join(os.homedir(), ".budgetbuddy", "snapshots");
+const SNAPSHOT_RETENTION = Number(process.env.SNAPSHOT_RETENTION || 30);
+const SNAPSHOT_INTERVAL_HOURS = Number(process.env.SNAPSHOT_INTERVAL_HOURS || 24);
+
+// Ids are generated by createSnapshot; anything else could escape the directory
+const SNAPSHOT_ID = /^[0-9TZ-]+_[a-z-]+$/;
+
+const householdDir = (householdId: number) => path.join(SNAPSHOT_DIR, String(householdId));
+
+function snapshotPath(householdId: number, id: string): string {
+  if (!SNAPSHOT_ID.test(id)) throw new Error("Snapshot not found");
+  return path.join(householdDir(householdId), `${id}.json`);
+}
+
+// Newest first; ids start with an ISO timestamp so they sort chronologically
+async function snapshotIds(householdId: number): Promise<string[]> {
+  try {
+    const files = await fs.readdir(householdDir(householdId));
+    return files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length))
+      .filter((id) => SNAPSHOT_ID.test(id))
+      .sort()
+      .reverse();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+// Keeps the newest SNAPSHOT_RETENTION snapshots of each reason, so frequent scheduled
+// snapshots never push out the safety snapshots taken before a clear, restore or rollback
+async function pruneSnapshots(householdId: number): Promise<void> {
+  const kept = new Map<string, number>();
+  for (const id of await snapshotIds(householdId)) {
+    const reason = id.slice(id.indexOf("_") + 1);
+    const count = (kept.get(reason) ?? 0) + 1;
+    kept.set(reason, count);
+    if (count > SNAPSHOT_RETENTION) await fs.unlink(snapshotPath(householdId, id));
+  }
+}
+
+export async function createSnapshot(householdId: number, reason: SnapshotReasonType): Promise<SnapshotInfo> {
+  const scope = { householdId };
+  const createdAt = new Date();
+  const backup = createBackupFile({
+    categories: await storage.getCategories(scope),
+    accounts: await storage.getAccounts(scope),
+    goals: await storage.getGoals(scope),
+    expenses: await storage.getExpenses(scope),
+    debts: await storage.getDebts(scope),
+    incomes: await storage.getIncomes(scope),
+    overrides: await storage.getOccurrenceOverrides(scope),
+    transactions: await storage.getTransactions(scope),
+    itemChanges: await storage.getItemChanges(scope),
+    categoryBudgets: await storage.getCategoryBudgets(scope),
+    monthAllocations: await storage.getMonthAllocations(scope),
+    monthCloses: await storage.getMonthCloses(scope),
+  }, createdAt);
+
+  const id = `${createdAt.toISOString().replace(/[:.]/g, "-")}_${reason}`;
+  await fs.mkdir(householdDir(householdId), { recursive: true });
+  await fs.writeFile(snapshotPath(householdId, id), JSON.stringify({ ...backup, reason }, null, 2));
+  await pruneSnapshots(householdId);
+
+  return {
+    id,
+    createdAt: backup.timestamp,
+    reason,
+    counts: { categories: backup.categories.length, expenses: backup.expenses.length, incomes: backup.incomes.length },
+  };
+}
+
+async function readSnapshot(householdId: number, id: string) {
+  try {
+    return JSON.parse(await fs.readFile(snapshotPath(householdId, id), "utf8"));
+  } catch (error) {
+    throw new Error("Snapshot not found");
+  }
+}
+
+export async function listSnapshots(householdId: number): Promise<SnapshotInfo[]> {
+  const snapshots: SnapshotInfo[] = [];
+  for (const id of await snapshotIds(householdId)) {
+    const snapshot = await readSnapshot(householdId, id);
+    snapshots.push({
+      id,
+      createdAt: snapshot.timestamp,
+      reason: snapshot.reason,
+      counts: {
+        categories: snapshot.categories?.length ?? 0,
+        expenses: snapshot.expenses?.length ?? 0,
+        incomes: snapshot.incomes?.length ?? 0,
+      },
+    });
+  }
+  return snapshots;
+}
+
+// Whether the household's newest scheduled snapshot is at least an interval old, or missing
+async function scheduledSnapshotDue(householdId: number, interval: number): Promise<boolean> {
+  const id = (await snapshotIds(householdId)).find((id) => id.endsWith("_scheduled"));
+  if (!id) return true;
+  const { timestamp } = await readSnapshot(householdId, id);
+  return Date.now() - new Date(timestamp).getTime() >= interval;
+}
+
+async function takeScheduledSnapshots(isDue: (householdId: number) => Promise<boolean>) {
+  try {
+    for (const householdId of await storage.getHouseholdIds()) {
+      if (await isDue(householdId)) await createSnapshot(householdId, "scheduled");
+    }
+    console.log("Scheduled snapshots completed");
+  } catch (error) {
+    console.error("Error taking scheduled snapshots:", error);
+  }
+}
+
+// Snapshots every household on a fixed interval; SNAPSHOT_INTERVAL_HOURS=0 turns it off.
+// A restart would otherwise push the next snapshot a whole interval out, so households whose
+// last scheduled snapshot is overdue get one at startup.
+export function startSnapshotSchedule() {
+  if (!(SNAPSHOT_INTERVAL_HOURS > 0)) return;
+  const interval = SNAPSHOT_INTERVAL_HOURS * 60 * 60 * 1000;
+
+  takeScheduledSnapshots((householdId) => scheduledSnapshotDue(householdId, interval));
+  const timer = setInterval(() => takeScheduledSnapshots(async () => true), interval);
+
+  // Don't keep the process alive just for snapshots
+  timer.unref();
+}
+
+export function setupSnapshots(app: Express) {
+  app.get("/api/snapshots", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/snapshots GET");
+    try {
+      res.json(await listSnapshots(req.household!.id));
+    } catch (error) {
+      console.error("Error listing snapshots:", error);
+      res.status(500).json({ error: "Failed to list snapshots" });
+    }
+  });
+
+  app.post("/api/snapshots", requireRole("editor"), async (req, res) => {
+    console.log("Handling /api/snapshots POST");
+    try {
+      res.status(201).json(await createSnapshot(req.household!.id, "manual"));
+    } catch (error) {
+      console.error("Error creating snapshot:", error);
+      res.status(500).json({ error: "Failed to create snapshot" });
+    }
+  });
+
+  // The snapshot as a backup file, for downloading
+  app.get("/api/snapshots/:id", requireRole("viewer"), async (req, res) => {
+    console.log("Handling /api/snapshots/:id GET");
+    try {
+      const { reason: _reason, ...backup } = await readSnapshot(req.household!.id, String(req.params.id));
+      res.json(backup);
+    } catch (error) {
+      console.error("Error reading snapshot:", error);
+      res.status(404).json({ error: "Snapshot not found" });
+    }
+  });
+
+  // Replaces the household's data with the snapshot; the current data is snapshotted first
+  app.post("/api/snapshots/:id/rollback", requireRole("owner"), async (req, res) => {
+    console.log("Handling /api/snapshots/:id/rollback POST");
+    let snapshot;
+    try {
+      snapshot = await readSnapshot(req.household!.id, String(req.params.id));
+    } catch (error) {
+      res.status(404).json({ error: "Snapshot not found" });
+      return;
+    }
+
+    const parsed = parseBackup(snapshot);
+    if (!parsed.success) {
+      res.status(422).json({ error: "Snapshot is not a valid backup", problems: parsed.problems });
+      return;
+    }
+
+    try {
+      await createSnapshot(req.household!.id, "before-rollback");
+      res.json(await storage.restoreBackup(scopeOf(req), parsed.data));
+    } catch (error) {
+      console.error("Error rolling back snapshot:", error);
+      res.status(500).json({ error: "Failed to roll back, no changes were made" });
+    }
+  });
+}
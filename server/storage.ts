@@ -1,141 +1,1442 @@
-import { Client, neonConfig } from '@neondatabase/serverless';
+import { Pool, neonConfig } from '@neondatabase/serverless';
 import ws from 'ws';
-import { eq, sql } from 'drizzle-orm'; // Import eq and sql
+import { and, asc, eq, getTableName, gt, gte, inArray, isNull, sql } from 'drizzle-orm'; // Import eq and sql
 import { drizzle } from 'drizzle-orm/neon-serverless'; // Correct import for drizzle with neon-serverless
-import { expenses, categories, incomes, type Category, type Expense, type Income, type InsertCategory, type InsertExpense, type InsertIncome } from '../shared/schema'; // Update import path and types
+import session from 'express-session';
+import connectPg from 'connect-pg-simple';
+import { diffBackup } from './backupDiff';
+import {
+  users, households, householdMembers, householdInvitations, expenses, categories, incomes, occurrenceOverrides,
+  transactions, itemChanges, categoryBudgets, monthAllocations, monthCloses, goals, debts, accounts,
+  type User, type InsertUser, type Household, type InsertHousehold, type HouseholdMember, type HouseholdRoleType,
+  type HouseholdInvitation, type InsertInvitation, type PendingInvitation,
+  type Category, type Expense, type Income, type InsertCategory, type InsertExpense, type InsertIncome,
+  type OccurrenceOverride, type InsertOccurrenceOverride, type SeriesSplit, type Transaction, type InsertTransaction,
+  type UpdateExpense, type UpdateIncome, type ItemChange, type CategoryBudget, type InsertCategoryBudget,
+  type MonthAllocation, type InsertMonthAllocation, type MonthClose, type Goal, type InsertGoal,
+  type Debt, type InsertDebt, type DebtStrategyType, type ForecastSettings, type Account, type InsertAccount
+} from '../shared/schema'; // Update import path and types
+import type {
+  BackupData, RestoreCounts, RestoreResult, RestoreDiff, RestoreDiffRow, RestoreSelection
+} from '../shared/backup';
+import { expandRecurrence, recurrenceOf, ruleFromFrequency, type RecurrenceRule } from '../shared/recurrence';
+import type { AmountSchedule } from '../shared/amountSchedule';
+import { expandOccurrences, type OccurrenceQuery, type OccurrenceRow } from '../shared/occurrences';
+import { debtPlanOf, paymentExpenseOf } from '../shared/debts';
 
 // Only do this in Node.js environments where WebSocket is not defined globally
 neonConfig.webSocketConstructor = ws;
 
-const client = new Client({
+// A pool rather than a single client: each transaction checks out a connection of its own,
+// so queries from concurrent requests never run inside another request's BEGIN/COMMIT
+const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
 });
 
-const db = drizzle(client);
+const db = drizzle(pool);
+
+const PostgresSessionStore = connectPg(session);
+
+function emptyRestoreResult(): RestoreResult {
+  const counts = () => ({ categories: 0, expenses: 0, incomes: 0 });
+  return { inserted: counts(), updated: counts(), skipped: counts(), remapped: counts() };
+}
+
+// Date columns are stored as 'yyyy-MM-dd' strings
+function toDateColumn(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Items picked from a preset frequency store that preset's rule, so every saved row carries one
+function withRecurrence<T extends { frequency?: string; recurrence?: RecurrenceRule | null }>(item: T): T {
+  if (item.recurrence || item.frequency === undefined) return item;
+  return { ...item, recurrence: ruleFromFrequency(item.frequency) };
+}
+
+// Keeps null (cleared) and undefined (not sent) apart
+function toOptionalDateColumn(date: Date | null | undefined): string | null | undefined {
+  return date && toDateColumn(date);
+}
+
+// How a series divides at fromDate: the original keeps the occurrences before it and the
+// copy inherits whatever is left of the occurrence limit
+function splitLimits(item: Expense | Income, fromDate: Date) {
+  const dayBefore = new Date(fromDate.getTime() - 24 * 60 * 60 * 1000);
+  const seriesEnd = item.endDate && item.endDate < toDateColumn(dayBefore) ? new Date(item.endDate) : dayBefore;
+  let earlier = expandRecurrence(recurrenceOf(item), new Date(item.date), seriesEnd)
+    .filter((date) => date < fromDate).length;
+  if (item.occurrenceCount) earlier = Math.min(earlier, item.occurrenceCount);
+
+  return {
+    earlier,
+    original: { endDate: toDateColumn(dayBefore), occurrenceCount: item.occurrenceCount && earlier },
+    copy: { endDate: item.endDate, occurrenceCount: item.occurrenceCount && item.occurrenceCount - earlier },
+  };
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Deletes every row the household owns, leaving the household, its members and settings.
+// Rows go before the rows they point at.
+async function deleteHouseholdData(tx: DbTransaction, householdId: number): Promise<void> {
+  for (const table of [
+    occurrenceOverrides, transactions, itemChanges, debts, expenses, incomes,
+    categoryBudgets, monthAllocations, monthCloses, categories, goals, accounts,
+  ]) {
+    await tx.delete(table).where(eq(table.householdId, householdId));
+  }
+}
+
+// A merge doesn't apply the backup's goals and accounts: merged expenses and incomes keep a
+// link to one only while the household still has it
+async function backupLinksOf(tx: DbTransaction, householdId: number) {
+  const goalIds = new Set((await tx.select({ id: goals.id }).from(goals).where(eq(goals.householdId, householdId))).map((row) => row.id));
+  const accountIds = new Set((await tx.select({ id: accounts.id }).from(accounts).where(eq(accounts.householdId, householdId))).map((row) => row.id));
+  return {
+    goalId: (id: number | null) => (id !== null && goalIds.has(id) ? id : null),
+    accountId: (id: number | null) => (id !== null && accountIds.has(id) ? id : null),
+  };
+}
+
+// Whether an update touches the values the change history tracks
+function changesHistory(
+  item: Expense | Income,
+  update: { amount?: string; date?: string; frequency?: string; recurrence?: RecurrenceRule | null; amountSchedule?: AmountSchedule | null }
+): boolean {
+  return (update.amount !== undefined && Number(update.amount) !== Number(item.amount))
+    || (update.date !== undefined && update.date !== item.date)
+    || (update.frequency !== undefined && update.frequency !== item.frequency)
+    || (update.recurrence !== undefined && JSON.stringify(update.recurrence) !== JSON.stringify(item.recurrence))
+    || (update.amountSchedule !== undefined && JSON.stringify(update.amountSchedule) !== JSON.stringify(item.amountSchedule));
+}
+
+// Keeps the values in force before effectiveDate. A change dated before later ones rewrites them:
+// the values in force just before it are the oldest later change's, and the later ones are dropped.
+// A second change on the same day keeps the first row, which already holds the older values.
+async function recordChange(
+  tx: DbTransaction,
+  scope: DataScope,
+  key: { expenseId: number } | { incomeId: number },
+  item: Expense | Income,
+  effectiveDate: Date
+): Promise<void> {
+  const itemColumn = 'expenseId' in key ? itemChanges.expenseId : itemChanges.incomeId;
+  const day = toDateColumn(effectiveDate);
+  const later = await tx
+    .select()
+    .from(itemChanges)
+    .where(and(eq(itemColumn, item.id), gt(itemChanges.effectiveDate, day)))
+    .orderBy(asc(itemChanges.effectiveDate));
+  const previous = later[0] ?? item;
+  if (later.length > 0) {
+    await tx.delete(itemChanges).where(inArray(itemChanges.id, later.map((change) => change.id)));
+  }
+  await tx
+    .insert(itemChanges)
+    .values({
+      householdId: scope.householdId,
+      ...key,
+      effectiveDate: day,
+      amount: previous.amount,
+      date: previous.date,
+      frequency: previous.frequency,
+      recurrence: previous.recurrence,
+      amountSchedule: previous.amountSchedule,
+    })
+    .onConflictDoNothing();
+}
+
+// Rows belong to a household; userId records which member wrote them
+export interface DataScope {
+  householdId: number;
+  userId: number;
+}
+
+export type HouseholdWithRole = Household & { role: HouseholdRoleType };
+export type HouseholdMemberInfo = { userId: number; username: string; role: HouseholdRoleType };
 
 export interface IStorage {
+  // Sessions
+  sessionStore: session.Store;
+
+  // Users
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+
+  // Households
+  getHouseholdIds(): Promise<number[]>;
+  getHouseholdsForUser(userId: number): Promise<HouseholdWithRole[]>;
+  getMembership(householdId: number, userId: number): Promise<HouseholdMember | undefined>;
+  createHousehold(userId: number, household: InsertHousehold): Promise<Household>;
+  updateHousehold(householdId: number, household: Partial<InsertHousehold>): Promise<Household>;
+  saveForecastSettings(householdId: number, settings: ForecastSettings): Promise<Household>;
+  getHouseholdMembers(householdId: number): Promise<HouseholdMemberInfo[]>;
+  updateMemberRole(householdId: number, userId: number, role: HouseholdRoleType): Promise<HouseholdMember>;
+  removeMember(householdId: number, userId: number): Promise<void>;
+
+  // Invitations
+  createInvitation(householdId: number, invitedBy: number, invitation: InsertInvitation): Promise<HouseholdInvitation>;
+  getHouseholdInvitations(householdId: number): Promise<HouseholdInvitation[]>;
+  deleteInvitation(householdId: number, id: number): Promise<void>;
+  getInvitationsForUser(username: string): Promise<PendingInvitation[]>;
+  acceptInvitation(user: Pick<User, 'id' | 'username'>, id: number): Promise<HouseholdMember>;
+  declineInvitation(username: string, id: number): Promise<void>;
+
   // Categories
-  getCategories(): Promise<Category[]>;
-  getCategory(id: number): Promise<Category | undefined>;
-  createCategory(category: InsertCategory): Promise<Category>;
-  updateCategory(id: number, category: Partial<InsertCategory>): Promise<Category>;
-  deleteCategory(id: number): Promise<void>;
+  getCategories(scope: Pick<DataScope, 'householdId'>): Promise<Category[]>;
+  getCategory(scope: DataScope, id: number): Promise<Category | undefined>;
+  createCategory(scope: DataScope, category: InsertCategory): Promise<Category>;
+  updateCategory(scope: DataScope, id: number, category: Partial<InsertCategory>): Promise<Category>;
+  deleteCategory(scope: DataScope, id: number): Promise<void>;
+
+  // Category budgets
+  getCategoryBudgets(scope: Pick<DataScope, 'householdId'>): Promise<CategoryBudget[]>;
+  saveCategoryBudget(scope: DataScope, budget: InsertCategoryBudget): Promise<CategoryBudget>;
+  deleteCategoryBudget(scope: DataScope, id: number): Promise<void>;
+
+  // Accounts
+  getAccounts(scope: Pick<DataScope, 'householdId'>): Promise<Account[]>;
+  getAccount(scope: DataScope, id: number): Promise<Account | undefined>;
+  createAccount(scope: DataScope, account: InsertAccount): Promise<Account>;
+  updateAccount(scope: DataScope, id: number, account: Partial<InsertAccount>): Promise<Account>;
+  deleteAccount(scope: DataScope, id: number): Promise<void>;
+
+  // Goals
+  getGoals(scope: Pick<DataScope, 'householdId'>): Promise<Goal[]>;
+  getGoal(scope: DataScope, id: number): Promise<Goal | undefined>;
+  createGoal(scope: DataScope, goal: InsertGoal): Promise<Goal>;
+  updateGoal(scope: DataScope, id: number, goal: Partial<InsertGoal>): Promise<Goal>;
+  deleteGoal(scope: DataScope, id: number): Promise<void>;
+
+  // Debts; every change regenerates the payment expenses from the household's plan
+  getDebts(scope: Pick<DataScope, 'householdId'>): Promise<Debt[]>;
+  getDebtStrategy(scope: Pick<DataScope, 'householdId'>): Promise<DebtStrategyType>;
+  setDebtStrategy(scope: DataScope, strategy: DebtStrategyType): Promise<void>;
+  createDebt(scope: DataScope, debt: InsertDebt): Promise<Debt>;
+  updateDebt(scope: DataScope, id: number, debt: Partial<InsertDebt>): Promise<Debt>;
+  deleteDebt(scope: DataScope, id: number): Promise<void>;
+
+  // Months ('yyyy-MM')
+  getMonthAllocations(scope: Pick<DataScope, 'householdId'>, month?: string): Promise<MonthAllocation[]>;
+  saveMonthAllocation(scope: DataScope, month: string, allocation: InsertMonthAllocation): Promise<MonthAllocation>;
+  deleteMonthAllocation(scope: DataScope, month: string, id: number): Promise<void>;
+  getMonthClose(scope: Pick<DataScope, 'householdId'>, month: string): Promise<MonthClose | undefined>;
+  getMonthCloses(scope: Pick<DataScope, 'householdId'>): Promise<MonthClose[]>;
+  closeMonth(scope: DataScope, month: string): Promise<MonthClose>;
+  reopenMonth(scope: DataScope, month: string): Promise<void>;
 
   // Expenses
-  getExpenses(): Promise<Expense[]>;
-  getExpense(id: number): Promise<Expense | undefined>;
-  createExpense(expense: InsertExpense): Promise<Expense>;
-  updateExpense(id: number, expense: Partial<InsertExpense>): Promise<Expense>;
-  deleteExpense(id: number): Promise<void>;
+  getExpenses(scope: Pick<DataScope, 'householdId'>): Promise<Expense[]>;
+  getExpense(scope: DataScope, id: number): Promise<Expense | undefined>;
+  createExpense(scope: DataScope, expense: InsertExpense): Promise<Expense>;
+  updateExpense(scope: DataScope, id: number, expense: UpdateExpense): Promise<Expense>;
+  deleteExpense(scope: DataScope, id: number): Promise<void>;
 
   // Incomes
-  getIncomes(): Promise<Income[]>;
-  getIncome(id: number): Promise<Income | undefined>;
-  createIncome(income: InsertIncome): Promise<Income>;
-  updateIncome(id: number, income: Partial<InsertIncome>): Promise<Income>;
-  deleteIncome(id: number): Promise<void>;
+  getIncomes(scope: Pick<DataScope, 'householdId'>): Promise<Income[]>;
+  getIncome(scope: DataScope, id: number): Promise<Income | undefined>;
+  createIncome(scope: DataScope, income: InsertIncome): Promise<Income>;
+  updateIncome(scope: DataScope, id: number, income: UpdateIncome): Promise<Income>;
+  deleteIncome(scope: DataScope, id: number): Promise<void>;
+
+  // Occurrences
+  getOccurrences(scope: Pick<DataScope, 'householdId'>, query: OccurrenceQuery): Promise<OccurrenceRow[]>;
+  getOccurrenceOverrides(scope: Pick<DataScope, 'householdId'>): Promise<OccurrenceOverride[]>;
+  saveOccurrenceOverride(scope: DataScope, override: InsertOccurrenceOverride): Promise<OccurrenceOverride>;
+  deleteOccurrenceOverride(scope: DataScope, id: number): Promise<void>;
+  splitExpense(scope: DataScope, id: number, split: SeriesSplit): Promise<Expense | undefined>;
+  splitIncome(scope: DataScope, id: number, split: SeriesSplit): Promise<Income | undefined>;
+
+  // Change history
+  getItemChanges(scope: Pick<DataScope, 'householdId'>): Promise<ItemChange[]>;
+
+  // Transactions
+  getTransactions(scope: Pick<DataScope, 'householdId'>): Promise<Transaction[]>;
+  recordTransaction(scope: DataScope, transaction: InsertTransaction): Promise<Transaction>;
+  deleteTransaction(scope: DataScope, id: number): Promise<void>;
 
   // Data Management
-  clearAllData(): Promise<void>;
+  clearAllData(scope: DataScope): Promise<void>;
+  restoreBackup(scope: DataScope, backup: BackupData): Promise<RestoreResult>;
+  previewMerge(scope: DataScope, backup: BackupData): Promise<RestoreDiff>;
+  mergeBackup(scope: DataScope, backup: BackupData, selection: RestoreSelection): Promise<RestoreResult>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+  }
+
+  // Users
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [newUser] = await db.insert(users).values(user).returning();
+    return newUser;
+  }
+
+  // Households
+  async getHouseholdIds(): Promise<number[]> {
+    const rows = await db.select({ id: households.id }).from(households).orderBy(asc(households.id));
+    return rows.map((row) => row.id);
+  }
+
+  async getHouseholdsForUser(userId: number): Promise<HouseholdWithRole[]> {
+    const rows = await db
+      .select({ household: households, role: householdMembers.role })
+      .from(householdMembers)
+      .innerJoin(households, eq(householdMembers.householdId, households.id))
+      .where(eq(householdMembers.userId, userId))
+      .orderBy(asc(households.id));
+    return rows.map(({ household, role }) => ({ ...household, role: role as HouseholdRoleType }));
+  }
+
+  async getMembership(householdId: number, userId: number): Promise<HouseholdMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(householdMembers)
+      .where(and(eq(householdMembers.householdId, householdId), eq(householdMembers.userId, userId)));
+    return member;
+  }
+
+  async createHousehold(userId: number, household: InsertHousehold): Promise<Household> {
+    return await db.transaction(async (tx) => {
+      const [newHousehold] = await tx.insert(households).values(household).returning();
+      await tx.insert(householdMembers).values({ householdId: newHousehold.id, userId, role: 'owner' });
+      return newHousehold;
+    });
+  }
+
+  async updateHousehold(householdId: number, household: Partial<InsertHousehold>): Promise<Household> {
+    const [updated] = await db
+      .update(households)
+      .set(household)
+      .where(eq(households.id, householdId))
+      .returning();
+    if (!updated) throw new Error('Household not found');
+    return updated;
+  }
+
+  async saveForecastSettings(householdId: number, settings: ForecastSettings): Promise<Household> {
+    const [updated] = await db
+      .update(households)
+      .set({ ...settings, startingBalanceDate: toDateColumn(settings.startingBalanceDate) })
+      .where(eq(households.id, householdId))
+      .returning();
+    if (!updated) throw new Error('Household not found');
+    return updated;
+  }
+
+  async getHouseholdMembers(householdId: number): Promise<HouseholdMemberInfo[]> {
+    const rows = await db
+      .select({ userId: users.id, username: users.username, role: householdMembers.role })
+      .from(householdMembers)
+      .innerJoin(users, eq(householdMembers.userId, users.id))
+      .where(eq(householdMembers.householdId, householdId))
+      .orderBy(asc(users.username));
+    return rows.map((row) => ({ ...row, role: row.role as HouseholdRoleType }));
+  }
+
+  async updateMemberRole(householdId: number, userId: number, role: HouseholdRoleType): Promise<HouseholdMember> {
+    const [updated] = await db
+      .update(householdMembers)
+      .set({ role })
+      .where(and(eq(householdMembers.householdId, householdId), eq(householdMembers.userId, userId)))
+      .returning();
+    if (!updated) throw new Error('Member not found');
+    return updated;
+  }
+
+  async removeMember(householdId: number, userId: number): Promise<void> {
+    const [deleted] = await db
+      .delete(householdMembers)
+      .where(and(eq(householdMembers.householdId, householdId), eq(householdMembers.userId, userId)))
+      .returning();
+    if (!deleted) throw new Error('Member not found');
+  }
+
+  // Invitations
+  async createInvitation(householdId: number, invitedBy: number, invitation: InsertInvitation): Promise<HouseholdInvitation> {
+    const [newInvitation] = await db
+      .insert(householdInvitations)
+      .values({ ...invitation, householdId, invitedBy })
+      .returning();
+    return newInvitation;
+  }
+
+  async getHouseholdInvitations(householdId: number): Promise<HouseholdInvitation[]> {
+    return await db
+      .select()
+      .from(householdInvitations)
+      .where(eq(householdInvitations.householdId, householdId));
+  }
+
+  async deleteInvitation(householdId: number, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(householdInvitations)
+      .where(and(eq(householdInvitations.householdId, householdId), eq(householdInvitations.id, id)))
+      .returning();
+    if (!deleted) throw new Error('Invitation not found');
+  }
+
+  async getInvitationsForUser(username: string): Promise<PendingInvitation[]> {
+    const rows = await db
+      .select({
+        id: householdInvitations.id,
+        householdId: householdInvitations.householdId,
+        householdName: households.name,
+        role: householdInvitations.role,
+        invitedBy: users.username,
+      })
+      .from(householdInvitations)
+      .innerJoin(households, eq(householdInvitations.householdId, households.id))
+      .innerJoin(users, eq(householdInvitations.invitedBy, users.id))
+      .where(eq(householdInvitations.username, username));
+    return rows.map((row) => ({ ...row, role: row.role as HouseholdRoleType }));
+  }
+
+  async acceptInvitation(user: Pick<User, 'id' | 'username'>, id: number): Promise<HouseholdMember> {
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx
+        .delete(householdInvitations)
+        .where(and(eq(householdInvitations.id, id), eq(householdInvitations.username, user.username)))
+        .returning();
+      if (!invitation) throw new Error('Invitation not found');
+
+      const [member] = await tx
+        .insert(householdMembers)
+        .values({ householdId: invitation.householdId, userId: user.id, role: invitation.role })
+        .onConflictDoUpdate({
+          target: [householdMembers.householdId, householdMembers.userId],
+          set: { role: invitation.role },
+        })
+        .returning();
+      return member;
+    });
+  }
+
+  async declineInvitation(username: string, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(householdInvitations)
+      .where(and(eq(householdInvitations.id, id), eq(householdInvitations.username, username)))
+      .returning();
+    if (!deleted) throw new Error('Invitation not found');
+  }
+
   // Categories
-  async getCategories(): Promise<Category[]> {
-    return await db.select().from(categories);
+  async getCategories(scope: Pick<DataScope, 'householdId'>): Promise<Category[]> {
+    return await db.select().from(categories).where(eq(categories.householdId, scope.householdId));
   }
 
-  async getCategory(id: number): Promise<Category | undefined> {
-    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+  async getCategory(scope: DataScope, id: number): Promise<Category | undefined> {
+    const [category] = await db
+      .select()
+      .from(categories)
+      .where(and(eq(categories.householdId, scope.householdId), eq(categories.id, id)));
     return category;
   }
 
-  async createCategory(category: InsertCategory): Promise<Category> {
-    const [newCategory] = await db.insert(categories).values(category).returning();
+  async createCategory(scope: DataScope, category: InsertCategory): Promise<Category> {
+    const [newCategory] = await db
+      .insert(categories)
+      .values({ ...category, ...scope })
+      .returning();
     return newCategory;
   }
 
-  async updateCategory(id: number, category: Partial<InsertCategory>): Promise<Category> {
+  async updateCategory(scope: DataScope, id: number, category: Partial<InsertCategory>): Promise<Category> {
     const [updated] = await db
       .update(categories)
       .set(category)
-      .where(eq(categories.id, id))
+      .where(and(eq(categories.householdId, scope.householdId), eq(categories.id, id)))
       .returning();
     if (!updated) throw new Error('Category not found');
     return updated;
   }
 
-  async deleteCategory(id: number): Promise<void> {
-    const result = await db.delete(categories).where(eq(categories.id, id));
-    if (!result) throw new Error('Category not found');
+  async deleteCategory(scope: DataScope, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(categories)
+      .where(and(eq(categories.householdId, scope.householdId), eq(categories.id, id)))
+      .returning();
+    if (!deleted) throw new Error('Category not found');
   }
 
-  // Expenses
-  async getExpenses(): Promise<Expense[]> {
-    return await db.select().from(expenses);
+  // Category budgets
+  async getCategoryBudgets(scope: Pick<DataScope, 'householdId'>): Promise<CategoryBudget[]> {
+    return await db
+      .select()
+      .from(categoryBudgets)
+      .where(eq(categoryBudgets.householdId, scope.householdId))
+      .orderBy(asc(categoryBudgets.id));
   }
 
-  async getExpense(id: number): Promise<Expense | undefined> {
-    const [expense] = await db.select().from(expenses).where(eq(expenses.id, id));
-    return expense;
+  // A category has at most one budget; saving another replaces its limit, period, thresholds and rollover
+  async saveCategoryBudget(scope: DataScope, budget: InsertCategoryBudget): Promise<CategoryBudget> {
+    const category = await this.getCategory(scope, budget.categoryId);
+    if (!category) throw new Error('Category not found');
+
+    const limits = {
+      amount: budget.amount,
+      period: budget.period,
+      thresholds: budget.thresholds,
+      rollover: budget.rollover,
+    };
+    const [saved] = await db
+      .insert(categoryBudgets)
+      .values({ householdId: scope.householdId, categoryId: budget.categoryId, ...limits })
+      .onConflictDoUpdate({ target: categoryBudgets.categoryId, set: limits })
+      .returning();
+    return saved;
   }
 
-  async createExpense(expense: InsertExpense): Promise<Expense> {
-    const [newExpense] = await db.insert(expenses).values(expense).returning();
-    return newExpense;
+  async deleteCategoryBudget(scope: DataScope, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(categoryBudgets)
+      .where(and(eq(categoryBudgets.householdId, scope.householdId), eq(categoryBudgets.id, id)))
+      .returning();
+    if (!deleted) throw new Error('Budget not found');
+  }
+
+  // Accounts
+  async getAccounts(scope: Pick<DataScope, 'householdId'>): Promise<Account[]> {
+    return await db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.householdId, scope.householdId))
+      .orderBy(asc(accounts.name));
+  }
+
+  async getAccount(scope: DataScope, id: number): Promise<Account | undefined> {
+    const [account] = await db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.householdId, scope.householdId), eq(accounts.id, id)));
+    return account;
+  }
+
+  async createAccount(scope: DataScope, account: InsertAccount): Promise<Account> {
+    const [newAccount] = await db
+      .insert(accounts)
+      .values({ ...account, openingDate: toDateColumn(account.openingDate), ...scope })
+      .returning();
+    return newAccount;
+  }
+
+  async updateAccount(scope: DataScope, id: number, account: Partial<InsertAccount>): Promise<Account> {
+    const [updated] = await db
+      .update(accounts)
+      .set({ ...account, openingDate: account.openingDate && toDateColumn(account.openingDate) })
+      .where(and(eq(accounts.householdId, scope.householdId), eq(accounts.id, id)))
+      .returning();
+    if (!updated) throw new Error('Account not found');
+    return updated;
+  }
+
+  // Expenses and incomes on the account are kept without one
+  async deleteAccount(scope: DataScope, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(accounts)
+      .where(and(eq(accounts.householdId, scope.householdId), eq(accounts.id, id)))
+      .returning();
+    if (!deleted) throw new Error('Account not found');
+  }
+
+  // Goals
+  async getGoals(scope: Pick<DataScope, 'householdId'>): Promise<Goal[]> {
+    return await db
+      .select()
+      .from(goals)
+      .where(eq(goals.householdId, scope.householdId))
+      .orderBy(asc(goals.targetDate), asc(goals.id));
+  }
+
+  async getGoal(scope: DataScope, id: number): Promise<Goal | undefined> {
+    const [goal] = await db
+      .select()
+      .from(goals)
+      .where(and(eq(goals.householdId, scope.householdId), eq(goals.id, id)));
+    return goal;
+  }
+
+  async createGoal(scope: DataScope, goal: InsertGoal): Promise<Goal> {
+    const [newGoal] = await db
+      .insert(goals)
+      .values({ ...goal, targetDate: toDateColumn(goal.targetDate), ...scope })
+      .returning();
+    return newGoal;
+  }
+
+  async updateGoal(scope: DataScope, id: number, goal: Partial<InsertGoal>): Promise<Goal> {
+    const [updated] = await db
+      .update(goals)
+      .set({ ...goal, targetDate: goal.targetDate && toDateColumn(goal.targetDate) })
+      .where(and(eq(goals.householdId, scope.householdId), eq(goals.id, id)))
+      .returning();
+    if (!updated) throw new Error('Goal not found');
+    return updated;
+  }
+
+  // Contributions stay as plain expenses
+  async deleteGoal(scope: DataScope, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(goals)
+      .where(and(eq(goals.householdId, scope.householdId), eq(goals.id, id)))
+      .returning();
+    if (!deleted) throw new Error('Goal not found');
+  }
+
+  // Debts
+  async getDebts(scope: Pick<DataScope, 'householdId'>): Promise<Debt[]> {
+    return await db
+      .select()
+      .from(debts)
+      .where(eq(debts.householdId, scope.householdId))
+      .orderBy(asc(debts.id));
+  }
+
+  async getDebtStrategy(scope: Pick<DataScope, 'householdId'>): Promise<DebtStrategyType> {
+    const [household] = await db
+      .select({ debtStrategy: households.debtStrategy })
+      .from(households)
+      .where(eq(households.id, scope.householdId));
+    if (!household) throw new Error('Household not found');
+    return household.debtStrategy as DebtStrategyType;
+  }
+
+  async setDebtStrategy(scope: DataScope, strategy: DebtStrategyType): Promise<void> {
+    await db.update(households).set({ debtStrategy: strategy }).where(eq(households.id, scope.householdId));
+    await this.syncDebtPayments(scope);
+  }
+
+  async createDebt(scope: DataScope, debt: InsertDebt): Promise<Debt> {
+    const category = await this.getCategory(scope, debt.categoryId);
+    if (!category) throw new Error('Category not found');
+
+    const [newDebt] = await db
+      .insert(debts)
+      .values({ ...debt, firstPaymentDate: toDateColumn(debt.firstPaymentDate), ...scope })
+      .returning();
+    await this.syncDebtPayments(scope);
+    return newDebt;
   }
 
-  async updateExpense(id: number, expense: Partial<InsertExpense>): Promise<Expense> {
+  async updateDebt(scope: DataScope, id: number, debt: Partial<InsertDebt>): Promise<Debt> {
+    if (debt.categoryId !== undefined) {
+      const category = await this.getCategory(scope, debt.categoryId);
+      if (!category) throw new Error('Category not found');
+    }
+
     const [updated] = await db
-      .update(expenses)
-      .set(expense)
-      .where(eq(expenses.id, id))
+      .update(debts)
+      .set({ ...debt, firstPaymentDate: debt.firstPaymentDate && toDateColumn(debt.firstPaymentDate) })
+      .where(and(eq(debts.householdId, scope.householdId), eq(debts.id, id)))
       .returning();
-    if (!updated) throw new Error('Expense not found');
+    if (!updated) throw new Error('Debt not found');
+    await this.syncDebtPayments(scope);
     return updated;
   }
 
-  async deleteExpense(id: number): Promise<void> {
-    const result = await db.delete(expenses).where(eq(expenses.id, id));
-    if (!result) throw new Error('Expense not found');
+  // The payment expense stays, with its payments, as a plain expense
+  async deleteDebt(scope: DataScope, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(debts)
+      .where(and(eq(debts.householdId, scope.householdId), eq(debts.id, id)))
+      .returning();
+    if (!deleted) throw new Error('Debt not found');
+    await this.syncDebtPayments(scope);
+  }
+
+  // Rewrites every debt's payment expense from the plan, recreating any that were deleted and
+  // deleting those of debts with nothing left to pay. Edits made to a payment expense directly
+  // are overwritten.
+  private async syncDebtPayments(scope: DataScope): Promise<void> {
+    const plan = debtPlanOf(await this.getDebts(scope), await this.getDebtStrategy(scope));
+
+    await db.transaction(async (tx) => {
+      for (const schedule of plan.schedules) {
+        const { debt } = schedule;
+        const payments = paymentExpenseOf(schedule);
+        if (!payments) {
+          if (debt.expenseId !== null) {
+            await tx.delete(expenses).where(and(eq(expenses.householdId, scope.householdId), eq(expenses.id, debt.expenseId)));
+          }
+          continue;
+        }
+
+        const values = {
+          ...payments,
+          name: debt.name,
+          date: debt.firstPaymentDate,
+          frequency: 'MONTHLY',
+          recurrence: ruleFromFrequency('MONTHLY'),
+          endDate: null,
+          categoryId: debt.categoryId,
+        };
+
+        const [updated] = debt.expenseId === null ? [] : await tx
+          .update(expenses)
+          .set(values)
+          .where(and(eq(expenses.householdId, scope.householdId), eq(expenses.id, debt.expenseId)))
+          .returning();
+        if (updated) continue;
+
+        const [created] = await tx.insert(expenses).values({ ...values, ...scope }).returning();
+        await tx.update(debts).set({ expenseId: created.id }).where(eq(debts.id, debt.id));
+      }
+    });
+  }
+
+  // Months; without a month, every month's allocations
+  async getMonthAllocations(scope: Pick<DataScope, 'householdId'>, month?: string): Promise<MonthAllocation[]> {
+    return await db
+      .select()
+      .from(monthAllocations)
+      .where(and(
+        eq(monthAllocations.householdId, scope.householdId),
+        month === undefined ? undefined : eq(monthAllocations.month, month)
+      ))
+      .orderBy(asc(monthAllocations.id));
+  }
+
+  // A month has at most one allocation per target; saving another replaces its amount
+  async saveMonthAllocation(scope: DataScope, month: string, allocation: InsertMonthAllocation): Promise<MonthAllocation> {
+    if (allocation.categoryId !== undefined) {
+      const category = await this.getCategory(scope, allocation.categoryId);
+      if (!category) throw new Error('Category not found');
+    }
+
+    const [existing] = await db
+      .select()
+      .from(monthAllocations)
+      .where(and(
+        eq(monthAllocations.householdId, scope.householdId),
+        eq(monthAllocations.month, month),
+        eq(monthAllocations.target, allocation.target),
+        allocation.categoryId === undefined
+          ? isNull(monthAllocations.categoryId)
+          : eq(monthAllocations.categoryId, allocation.categoryId)
+      ));
+    if (existing) {
+      const [updated] = await db
+        .update(monthAllocations)
+        .set({ amount: allocation.amount })
+        .where(eq(monthAllocations.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(monthAllocations)
+      .values({ householdId: scope.householdId, month, ...allocation })
+      .returning();
+    return created;
+  }
+
+  async deleteMonthAllocation(scope: DataScope, month: string, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(monthAllocations)
+      .where(and(
+        eq(monthAllocations.householdId, scope.householdId),
+        eq(monthAllocations.month, month),
+        eq(monthAllocations.id, id),
+      ))
+      .returning();
+    if (!deleted) throw new Error('Allocation not found');
+  }
+
+  async getMonthClose(scope: Pick<DataScope, 'householdId'>, month: string): Promise<MonthClose | undefined> {
+    const [close] = await db
+      .select()
+      .from(monthCloses)
+      .where(and(eq(monthCloses.householdId, scope.householdId), eq(monthCloses.month, month)));
+    return close;
+  }
+
+  async getMonthCloses(scope: Pick<DataScope, 'householdId'>): Promise<MonthClose[]> {
+    return await db
+      .select()
+      .from(monthCloses)
+      .where(eq(monthCloses.householdId, scope.householdId))
+      .orderBy(asc(monthCloses.month));
+  }
+
+  async closeMonth(scope: DataScope, month: string): Promise<MonthClose> {
+    const [close] = await db
+      .insert(monthCloses)
+      .values({ householdId: scope.householdId, month, closedBy: scope.userId })
+      .returning();
+    return close;
+  }
+
+  async reopenMonth(scope: DataScope, month: string): Promise<void> {
+    const [deleted] = await db
+      .delete(monthCloses)
+      .where(and(eq(monthCloses.householdId, scope.householdId), eq(monthCloses.month, month)))
+      .returning();
+    if (!deleted) throw new Error('Month is not closed');
+  }
+
+  // Expenses
+  async getExpenses(scope: Pick<DataScope, 'householdId'>): Promise<Expense[]> {
+    return await db.select().from(expenses).where(eq(expenses.householdId, scope.householdId));
+  }
+
+  async getExpense(scope: DataScope, id: number): Promise<Expense | undefined> {
+    const [expense] = await db
+      .select()
+      .from(expenses)
+      .where(and(eq(expenses.householdId, scope.householdId), eq(expenses.id, id)));
+    return expense;
+  }
+
+  async createExpense(scope: DataScope, expense: InsertExpense): Promise<Expense> {
+    // The category must belong to the same household
+    const category = await this.getCategory(scope, expense.categoryId);
+    if (!category) throw new Error('Category not found');
+    if (expense.goalId != null && !(await this.getGoal(scope, expense.goalId))) throw new Error('Goal not found');
+    if (expense.accountId != null && !(await this.getAccount(scope, expense.accountId))) throw new Error('Account not found');
+
+    const [newExpense] = await db
+      .insert(expenses)
+      .values({ ...withRecurrence(expense), date: toDateColumn(expense.date), endDate: toOptionalDateColumn(expense.endDate), ...scope })
+      .returning();
+    return newExpense;
+  }
+
+  async updateExpense(scope: DataScope, id: number, { effectiveDate, ...expense }: UpdateExpense): Promise<Expense> {
+    if (expense.categoryId !== undefined) {
+      const category = await this.getCategory(scope, expense.categoryId);
+      if (!category) throw new Error('Category not found');
+    }
+    if (expense.goalId != null && !(await this.getGoal(scope, expense.goalId))) throw new Error('Goal not found');
+    if (expense.accountId != null && !(await this.getAccount(scope, expense.accountId))) throw new Error('Account not found');
+
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(expenses)
+        .where(and(eq(expenses.householdId, scope.householdId), eq(expenses.id, id)));
+      if (!existing) throw new Error('Expense not found');
+
+      const values = { ...withRecurrence(expense), date: expense.date && toDateColumn(expense.date), endDate: toOptionalDateColumn(expense.endDate) };
+      if (changesHistory(existing, values)) {
+        await recordChange(tx, scope, { expenseId: id }, existing, effectiveDate ?? new Date());
+      }
+      const [updated] = await tx.update(expenses).set(values).where(eq(expenses.id, id)).returning();
+      return updated;
+    });
+  }
+
+  async deleteExpense(scope: DataScope, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(expenses)
+      .where(and(eq(expenses.householdId, scope.householdId), eq(expenses.id, id)))
+      .returning();
+    if (!deleted) throw new Error('Expense not found');
   }
 
   // Incomes
-  async getIncomes(): Promise<Income[]> {
-    return await db.select().from(incomes);
+  async getIncomes(scope: Pick<DataScope, 'householdId'>): Promise<Income[]> {
+    return await db.select().from(incomes).where(eq(incomes.householdId, scope.householdId));
   }
 
-  async getIncome(id: number): Promise<Income | undefined> {
-    const [income] = await db.select().from(incomes).where(eq(incomes.id, id));
+  async getIncome(scope: DataScope, id: number): Promise<Income | undefined> {
+    const [income] = await db
+      .select()
+      .from(incomes)
+      .where(and(eq(incomes.householdId, scope.householdId), eq(incomes.id, id)));
     return income;
   }
 
-  async createIncome(income: InsertIncome): Promise<Income> {
-    const [newIncome] = await db.insert(incomes).values(income).returning();
+  async createIncome(scope: DataScope, income: InsertIncome): Promise<Income> {
+    if (income.accountId != null && !(await this.getAccount(scope, income.accountId))) throw new Error('Account not found');
+
+    const [newIncome] = await db
+      .insert(incomes)
+      .values({ ...withRecurrence(income), date: toDateColumn(income.date), endDate: toOptionalDateColumn(income.endDate), ...scope })
+      .returning();
     return newIncome;
   }
 
-  async updateIncome(id: number, income: Partial<InsertIncome>): Promise<Income> {
-    const [updated] = await db
-      .update(incomes)
-      .set(income)
-      .where(eq(incomes.id, id))
+  async updateIncome(scope: DataScope, id: number, { effectiveDate, ...income }: UpdateIncome): Promise<Income> {
+    if (income.accountId != null && !(await this.getAccount(scope, income.accountId))) throw new Error('Account not found');
+
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(incomes)
+        .where(and(eq(incomes.householdId, scope.householdId), eq(incomes.id, id)));
+      if (!existing) throw new Error('Income not found');
+
+      const values = { ...withRecurrence(income), date: income.date && toDateColumn(income.date), endDate: toOptionalDateColumn(income.endDate) };
+      if (changesHistory(existing, values)) {
+        await recordChange(tx, scope, { incomeId: id }, existing, effectiveDate ?? new Date());
+      }
+      const [updated] = await tx.update(incomes).set(values).where(eq(incomes.id, id)).returning();
+      return updated;
+    });
+  }
+
+  async deleteIncome(scope: DataScope, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(incomes)
+      .where(and(eq(incomes.householdId, scope.householdId), eq(incomes.id, id)))
       .returning();
-    if (!updated) throw new Error('Income not found');
-    return updated;
+    if (!deleted) throw new Error('Income not found');
+  }
+
+  // Occurrences
+  async getOccurrences(scope: Pick<DataScope, 'householdId'>, query: OccurrenceQuery): Promise<OccurrenceRow[]> {
+    const [expenses, incomes, categories, overrides, changes, transactions] = await Promise.all([
+      this.getExpenses(scope),
+      this.getIncomes(scope),
+      this.getCategories(scope),
+      this.getOccurrenceOverrides(scope),
+      this.getItemChanges(scope),
+      this.getTransactions(scope),
+    ]);
+    return expandOccurrences({ expenses, incomes, categories, overrides, changes, transactions }, query);
   }
 
-  async deleteIncome(id: number): Promise<void> {
-    const result = await db.delete(incomes).where(eq(incomes.id, id));
-    if (!result) throw new Error('Income not found');
+  async getOccurrenceOverrides(scope: Pick<DataScope, 'householdId'>): Promise<OccurrenceOverride[]> {
+    return await db.select().from(occurrenceOverrides).where(eq(occurrenceOverrides.householdId, scope.householdId));
+  }
+
+  // One override per occurrence; saving again replaces it
+  async saveOccurrenceOverride(scope: DataScope, override: InsertOccurrenceOverride): Promise<OccurrenceOverride> {
+    const isExpense = override.expenseId !== undefined;
+    const item = isExpense
+      ? await this.getExpense(scope, override.expenseId!)
+      : await this.getIncome(scope, override.incomeId!);
+    if (!item) throw new Error(isExpense ? 'Expense not found' : 'Income not found');
+
+    const changes = {
+      skipped: override.skipped,
+      date: toOptionalDateColumn(override.date) ?? null,
+      amount: override.amount ?? null,
+    };
+    const [saved] = await db
+      .insert(occurrenceOverrides)
+      .values({
+        householdId: scope.householdId,
+        expenseId: override.expenseId,
+        incomeId: override.incomeId,
+        originalDate: toDateColumn(override.originalDate),
+        ...changes,
+      })
+      .onConflictDoUpdate({
+        target: [isExpense ? occurrenceOverrides.expenseId : occurrenceOverrides.incomeId, occurrenceOverrides.originalDate],
+        set: changes,
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteOccurrenceOverride(scope: DataScope, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(occurrenceOverrides)
+      .where(and(eq(occurrenceOverrides.householdId, scope.householdId), eq(occurrenceOverrides.id, id)))
+      .returning();
+    if (!deleted) throw new Error('Override not found');
+  }
+
+  // Ends the expense before split.fromDate and continues it as a new expense carrying the
+  // changes. Overrides and recorded transactions from fromDate on move to the new expense, or,
+  // when the series stops, the overrides are dropped. Splitting at the first occurrence
+  // changes (or, when stopping, deletes) the expense itself.
+  async splitExpense(scope: DataScope, id: number, split: SeriesSplit): Promise<Expense | undefined> {
+    return await db.transaction(async (tx) => {
+      const [expense] = await tx
+        .select()
+        .from(expenses)
+        .where(and(eq(expenses.householdId, scope.householdId), eq(expenses.id, id)));
+      if (!expense) throw new Error('Expense not found');
+
+      const { earlier, original, copy } = splitLimits(expense, split.fromDate);
+      const changes = {
+        date: split.date ? toDateColumn(split.date) : expense.date,
+        amount: split.amount ?? expense.amount,
+      };
+
+      if (earlier === 0) {
+        if (split.stop) {
+          await tx.delete(expenses).where(eq(expenses.id, id));
+          return undefined;
+        }
+        const [updated] = await tx.update(expenses).set(changes).where(eq(expenses.id, id)).returning();
+        return updated;
+      }
+
+      const laterOverrides = and(
+        eq(occurrenceOverrides.expenseId, id),
+        gte(occurrenceOverrides.originalDate, toDateColumn(split.fromDate)),
+      );
+      await tx.update(expenses).set(original).where(eq(expenses.id, id));
+      if (split.stop || copy.occurrenceCount === 0) {
+        await tx.delete(occurrenceOverrides).where(laterOverrides);
+        return undefined;
+      }
+
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...series } = expense;
+      const [created] = await tx
+        .insert(expenses)
+        .values({
+          ...series,
+          ...copy,
+          userId: scope.userId,
+          date: split.date ? toDateColumn(split.date) : toDateColumn(split.fromDate),
+          amount: changes.amount,
+        })
+        .returning();
+      await tx.update(occurrenceOverrides).set({ expenseId: created.id }).where(laterOverrides);
+      await tx
+        .update(transactions)
+        .set({ expenseId: created.id })
+        .where(and(eq(transactions.expenseId, id), gte(transactions.occurrenceDate, toDateColumn(split.fromDate))));
+      return created;
+    });
+  }
+
+  async splitIncome(scope: DataScope, id: number, split: SeriesSplit): Promise<Income | undefined> {
+    return await db.transaction(async (tx) => {
+      const [income] = await tx
+        .select()
+        .from(incomes)
+        .where(and(eq(incomes.householdId, scope.householdId), eq(incomes.id, id)));
+      if (!income) throw new Error('Income not found');
+
+      const { earlier, original, copy } = splitLimits(income, split.fromDate);
+      const changes = {
+        date: split.date ? toDateColumn(split.date) : income.date,
+        amount: split.amount ?? income.amount,
+      };
+
+      if (earlier === 0) {
+        if (split.stop) {
+          await tx.delete(incomes).where(eq(incomes.id, id));
+          return undefined;
+        }
+        const [updated] = await tx.update(incomes).set(changes).where(eq(incomes.id, id)).returning();
+        return updated;
+      }
+
+      const laterOverrides = and(
+        eq(occurrenceOverrides.incomeId, id),
+        gte(occurrenceOverrides.originalDate, toDateColumn(split.fromDate)),
+      );
+      await tx.update(incomes).set(original).where(eq(incomes.id, id));
+      if (split.stop || copy.occurrenceCount === 0) {
+        await tx.delete(occurrenceOverrides).where(laterOverrides);
+        return undefined;
+      }
+
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...series } = income;
+      const [created] = await tx
+        .insert(incomes)
+        .values({
+          ...series,
+          ...copy,
+          userId: scope.userId,
+          date: split.date ? toDateColumn(split.date) : toDateColumn(split.fromDate),
+          amount: changes.amount,
+        })
+        .returning();
+      await tx.update(occurrenceOverrides).set({ incomeId: created.id }).where(laterOverrides);
+      await tx
+        .update(transactions)
+        .set({ incomeId: created.id })
+        .where(and(eq(transactions.incomeId, id), gte(transactions.occurrenceDate, toDateColumn(split.fromDate))));
+      return created;
+    });
+  }
+
+  // Change history
+  async getItemChanges(scope: Pick<DataScope, 'householdId'>): Promise<ItemChange[]> {
+    return await db
+      .select()
+      .from(itemChanges)
+      .where(eq(itemChanges.householdId, scope.householdId))
+      .orderBy(asc(itemChanges.effectiveDate));
+  }
+
+  // Transactions
+  async getTransactions(scope: Pick<DataScope, 'householdId'>): Promise<Transaction[]> {
+    return await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.householdId, scope.householdId))
+      .orderBy(asc(transactions.date));
+  }
+
+  // An occurrence is settled at most once; recording it again corrects the amount and date
+  async recordTransaction(scope: DataScope, transaction: InsertTransaction): Promise<Transaction> {
+    const isExpense = transaction.expenseId !== undefined;
+    const item = isExpense
+      ? await this.getExpense(scope, transaction.expenseId!)
+      : await this.getIncome(scope, transaction.incomeId!);
+    if (!item) throw new Error(isExpense ? 'Expense not found' : 'Income not found');
+
+    const settlement = {
+      date: toDateColumn(transaction.date),
+      amount: transaction.amount,
+    };
+    const [saved] = await db
+      .insert(transactions)
+      .values({
+        householdId: scope.householdId,
+        expenseId: transaction.expenseId,
+        incomeId: transaction.incomeId,
+        occurrenceDate: toDateColumn(transaction.occurrenceDate),
+        ...settlement,
+      })
+      .onConflictDoUpdate({
+        target: [isExpense ? transactions.expenseId : transactions.incomeId, transactions.occurrenceDate],
+        set: settlement,
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteTransaction(scope: DataScope, id: number): Promise<void> {
+    const [deleted] = await db
+      .delete(transactions)
+      .where(and(eq(transactions.householdId, scope.householdId), eq(transactions.id, id)))
+      .returning();
+    if (!deleted) throw new Error('Transaction not found');
   }
 
   // Data Management
-  async clearAllData(): Promise<void> {
-    await db.execute(sql`TRUNCATE TABLE categories CASCADE`);
-    await db.execute(sql`TRUNCATE TABLE expenses CASCADE`);
-    await db.execute(sql`TRUNCATE TABLE incomes CASCADE`);
+  // Only the current household's rows are removed, all of them or none
+  async clearAllData(scope: DataScope): Promise<void> {
+    await db.transaction((tx) => deleteHouseholdData(tx, scope.householdId));
+  }
+
+  // Replaces the household's data with the backup in a single transaction, so a failing
+  // row leaves the existing data untouched. Original IDs are kept unless another
+  // household already uses them; accounts, goals, debts, overrides, transactions, change history,
+  // category budgets and month allocations follow their rows to any new ID.
+  async restoreBackup(scope: DataScope, backup: BackupData): Promise<RestoreResult> {
+    const result = emptyRestoreResult();
+
+    await db.transaction(async (tx) => {
+      await deleteHouseholdData(tx, scope.householdId);
+
+      // parseBackup already checked that every reference is in the backup
+      const restoredId = (ids: Map<number, number>, id: number, name: string) => {
+        const restored = ids.get(id);
+        if (restored === undefined) throw new Error(`${name} ${id} not found`);
+        return restored;
+      };
+
+      // Inserts the rows, minus those whose ID was already seen, and returns each backup ID's
+      // new ID. Rows keep their ID unless another household already uses it. Explicit IDs
+      // bypass the serial sequence, so it is moved past them before the remapped rows draw
+      // their IDs from it.
+      const restoreRows = async <T extends { id: number }>(
+        table: typeof categories | typeof expenses | typeof incomes,
+        rows: T[],
+        key: keyof RestoreCounts,
+        insert: (row: T, keepId: boolean) => Promise<number>,
+      ) => {
+        const unique = rows.filter((row, index) => rows.findIndex((r) => r.id === row.id) === index);
+        result.skipped[key] = rows.length - unique.length;
+        const takenRows = unique.length === 0 ? [] : await tx
+          .select({ id: table.id })
+          .from(table)
+          .where(inArray(table.id, unique.map((row) => row.id)));
+        const taken = new Set(takenRows.map((row) => row.id));
+
+        const ids = new Map<number, number>();
+        for (const row of unique.filter((row) => !taken.has(row.id))) {
+          ids.set(row.id, await insert(row, true));
+        }
+        const tableName = getTableName(table);
+        await tx.execute(sql.raw(
+          `SELECT setval(pg_get_serial_sequence('${tableName}', 'id'), COALESCE(MAX(id), 0) + 1, false) FROM ${tableName}`
+        ));
+        for (const row of unique.filter((row) => taken.has(row.id))) {
+          ids.set(row.id, await insert(row, false));
+          result.remapped[key]++;
+        }
+        result.inserted[key] = unique.length;
+        return ids;
+      };
+
+      const categoryIds = await restoreRows(
+        categories, backup.categories, 'categories',
+        async ({ id, ...category }, keepId) => {
+          const [inserted] = await tx
+            .insert(categories)
+            .values({ ...category, ...scope, ...(keepId && { id }) })
+            .returning({ id: categories.id });
+          return inserted.id;
+        },
+      );
+
+      const accountIds = new Map<number, number>();
+      for (const { id, openingDate, ...account } of backup.accounts) {
+        const [inserted] = await tx
+          .insert(accounts)
+          .values({ ...account, ...scope, openingDate: toDateColumn(openingDate) })
+          .returning({ id: accounts.id });
+        accountIds.set(id, inserted.id);
+      }
+      const accountOf = (id: number | null) => (id === null ? null : restoredId(accountIds, id, 'Account'));
+
+      const goalIds = new Map<number, number>();
+      for (const { id, targetDate, ...goal } of backup.goals) {
+        const [inserted] = await tx
+          .insert(goals)
+          .values({ ...goal, ...scope, targetDate: toDateColumn(targetDate) })
+          .returning({ id: goals.id });
+        goalIds.set(id, inserted.id);
+      }
+
+      const expenseIds = await restoreRows(
+        expenses, backup.expenses, 'expenses',
+        async ({ id, ...expense }, keepId) => {
+          const categoryId = categoryIds.get(expense.categoryId);
+          if (categoryId === undefined) throw new Error(`Category ${expense.categoryId} not found`);
+
+          const [inserted] = await tx
+            .insert(expenses)
+            .values({
+              ...expense,
+              ...scope,
+              ...(keepId && { id }),
+              categoryId,
+              goalId: expense.goalId === null ? null : restoredId(goalIds, expense.goalId, 'Goal'),
+              accountId: accountOf(expense.accountId),
+              date: toDateColumn(expense.date),
+              endDate: toOptionalDateColumn(expense.endDate),
+            })
+            .returning({ id: expenses.id });
+          return inserted.id;
+        },
+      );
+
+      const incomeIds = await restoreRows(
+        incomes, backup.incomes, 'incomes',
+        async ({ id, ...income }, keepId) => {
+          const [inserted] = await tx
+            .insert(incomes)
+            .values({
+              ...income,
+              ...scope,
+              ...(keepId && { id }),
+              accountId: accountOf(income.accountId),
+              date: toDateColumn(income.date),
+              endDate: toOptionalDateColumn(income.endDate),
+            })
+            .returning({ id: incomes.id });
+          return inserted.id;
+        },
+      );
+
+      const itemOf = (row: { expenseId: number | null; incomeId: number | null }) => ({
+        householdId: scope.householdId,
+        expenseId: row.expenseId === null ? null : restoredId(expenseIds, row.expenseId, 'Expense'),
+        incomeId: row.incomeId === null ? null : restoredId(incomeIds, row.incomeId, 'Income'),
+      });
+
+      const overrideRows = backup.overrides.map((override) => ({
+        ...itemOf(override),
+        originalDate: toDateColumn(override.originalDate),
+        skipped: override.skipped,
+        date: toOptionalDateColumn(override.date),
+        amount: override.amount,
+      }));
+      if (overrideRows.length > 0) await tx.insert(occurrenceOverrides).values(overrideRows).onConflictDoNothing();
+
+      const transactionRows = backup.transactions.map((transaction) => ({
+        ...itemOf(transaction),
+        occurrenceDate: toDateColumn(transaction.occurrenceDate),
+        date: toDateColumn(transaction.date),
+        amount: transaction.amount,
+      }));
+      if (transactionRows.length > 0) await tx.insert(transactions).values(transactionRows).onConflictDoNothing();
+
+      const changeRows = backup.itemChanges.map((change) => ({
+        ...itemOf(change),
+        effectiveDate: toDateColumn(change.effectiveDate),
+        amount: change.amount,
+        date: toDateColumn(change.date),
+        frequency: change.frequency,
+        recurrence: change.recurrence,
+        amountSchedule: change.amountSchedule ?? null,
+      }));
+      if (changeRows.length > 0) await tx.insert(itemChanges).values(changeRows).onConflictDoNothing();
+
+      const budgetRows = backup.categoryBudgets.map(({ categoryId, ...budget }) => ({
+        ...budget,
+        householdId: scope.householdId,
+        categoryId: restoredId(categoryIds, categoryId, 'Category'),
+      }));
+      if (budgetRows.length > 0) await tx.insert(categoryBudgets).values(budgetRows).onConflictDoNothing();
+
+      // Debts come back with the payment expenses the backup recorded for them
+      const debtRows = backup.debts.map(({ categoryId, expenseId, firstPaymentDate, ...debt }) => ({
+        ...debt,
+        ...scope,
+        firstPaymentDate: toDateColumn(firstPaymentDate),
+        categoryId: restoredId(categoryIds, categoryId, 'Category'),
+        expenseId: expenseId === null ? null : restoredId(expenseIds, expenseId, 'Expense'),
+      }));
+      if (debtRows.length > 0) await tx.insert(debts).values(debtRows);
+
+      const allocationRows = backup.monthAllocations.map(({ categoryId, ...allocation }) => ({
+        ...allocation,
+        householdId: scope.householdId,
+        categoryId: categoryId === null ? null : restoredId(categoryIds, categoryId, 'Category'),
+      }));
+      if (allocationRows.length > 0) await tx.insert(monthAllocations).values(allocationRows);
+
+      const closers = backup.monthCloses.flatMap((close) => (close.closedBy === null ? [] : [close.closedBy]));
+      const existingUsers = new Set(closers.length === 0 ? [] : (
+        await tx.select({ id: users.id }).from(users).where(inArray(users.id, closers))
+      ).map((user) => user.id));
+      const closeRows = backup.monthCloses.map((close) => ({
+        householdId: scope.householdId,
+        month: close.month,
+        closedBy: close.closedBy !== null && existingUsers.has(close.closedBy) ? close.closedBy : null,
+      }));
+      if (closeRows.length > 0) await tx.insert(monthCloses).values(closeRows).onConflictDoNothing();
+    });
+
+    return result;
+  }
+
+  async previewMerge(scope: DataScope, backup: BackupData): Promise<RestoreDiff> {
+    return diffBackup(backup, {
+      categories: await this.getCategories(scope),
+      expenses: await this.getExpenses(scope),
+      incomes: await this.getIncomes(scope),
+    });
+  }
+
+  // Applies the selected added/changed rows of the merge preview in a single transaction.
+  // Matched rows are updated in place, everything else is inserted with a new ID.
+  async mergeBackup(scope: DataScope, backup: BackupData, selection: RestoreSelection): Promise<RestoreResult> {
+    const result = emptyRestoreResult();
+
+    await db.transaction(async (tx) => {
+      const links = await backupLinksOf(tx, scope.householdId);
+      const diff = diffBackup(backup, {
+        categories: await tx.select().from(categories).where(eq(categories.householdId, scope.householdId)),
+        expenses: await tx.select().from(expenses).where(eq(expenses.householdId, scope.householdId)),
+        incomes: await tx.select().from(incomes).where(eq(incomes.householdId, scope.householdId)),
+      });
+
+      const apply = async <T extends { id: number }>(
+        key: keyof RestoreCounts,
+        rows: T[],
+        diffRows: RestoreDiffRow[],
+        shouldWrite: (row: T, diffRow: RestoreDiffRow) => boolean,
+        write: (row: T, matchedId: number | undefined) => Promise<number>,
+      ) => {
+        const written = new Map<number, number>();
+        for (const [index, row] of rows.entries()) {
+          const diffRow = diffRows[index];
+          if (written.has(row.id) || !shouldWrite(row, diffRow)) {
+            result.skipped[key]++;
+            continue;
+          }
+
+          const id = await write(row, diffRow.matchedId);
+          written.set(row.id, id);
+          result[diffRow.matchedId === undefined ? 'inserted' : 'updated'][key]++;
+          if (id !== row.id) result.remapped[key]++;
+        }
+        return written;
+      };
+
+      const isSelected = (ids: number[]) => (row: { id: number }, diffRow: RestoreDiffRow) =>
+        diffRow.status !== 'unchanged' && ids.includes(row.id);
+
+      // New categories needed by selected expenses are added even when unticked
+      const neededCategories = new Set(
+        backup.expenses.filter((e) => selection.expenses.includes(e.id)).map((e) => e.categoryId)
+      );
+      const categoryIds = new Map<number, number>();
+      diff.categories.forEach((row) => row.matchedId !== undefined && categoryIds.set(row.backupId, row.matchedId));
+
+      const writtenCategories = await apply(
+        'categories', backup.categories, diff.categories,
+        (row, diffRow) => isSelected(selection.categories)(row, diffRow)
+          || (diffRow.status === 'added' && neededCategories.has(row.id)),
+        async ({ id: _id, ...category }, matchedId) => {
+          const [saved] = matchedId === undefined
+            ? await tx.insert(categories).values({ ...category, ...scope }).returning({ id: categories.id })
+            : await tx.update(categories).set(category).where(eq(categories.id, matchedId)).returning({ id: categories.id });
+          return saved.id;
+        },
+      );
+      writtenCategories.forEach((id, backupId) => categoryIds.set(backupId, id));
+
+      await apply(
+        'expenses', backup.expenses, diff.expenses, isSelected(selection.expenses),
+        async ({ id: _id, ...expense }, matchedId) => {
+          const categoryId = categoryIds.get(expense.categoryId);
+          if (categoryId === undefined) throw new Error(`Category ${expense.categoryId} not found`);
+
+          const values = {
+            ...expense,
+            categoryId,
+            goalId: links.goalId(expense.goalId),
+            accountId: links.accountId(expense.accountId),
+            date: toDateColumn(expense.date),
+            endDate: toOptionalDateColumn(expense.endDate),
+          };
+          if (matchedId === undefined) {
+            const [saved] = await tx.insert(expenses).values({ ...values, ...scope }).returning({ id: expenses.id });
+            return saved.id;
+          }
+          // Overwriting keeps the replaced values in the change history, as an edit does
+          const [existing] = await tx.select().from(expenses).where(eq(expenses.id, matchedId));
+          if (changesHistory(existing, values)) await recordChange(tx, scope, { expenseId: matchedId }, existing, new Date());
+          const [saved] = await tx.update(expenses).set(values).where(eq(expenses.id, matchedId)).returning({ id: expenses.id });
+          return saved.id;
+        },
+      );
+
+      await apply(
+        'incomes', backup.incomes, diff.incomes, isSelected(selection.incomes),
+        async ({ id: _id, ...income }, matchedId) => {
+          const values = {
+            ...income,
+            accountId: links.accountId(income.accountId),
+            date: toDateColumn(income.date),
+            endDate: toOptionalDateColumn(income.endDate),
+          };
+          if (matchedId === undefined) {
+            const [saved] = await tx.insert(incomes).values({ ...values, ...scope }).returning({ id: incomes.id });
+            return saved.id;
+          }
+          const [existing] = await tx.select().from(incomes).where(eq(incomes.id, matchedId));
+          if (changesHistory(existing, values)) await recordChange(tx, scope, { incomeId: matchedId }, existing, new Date());
+          const [saved] = await tx.update(incomes).set(values).where(eq(incomes.id, matchedId)).returning({ id: incomes.id });
+          return saved.id;
+        },
+      );
+    });
+
+    return result;
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage = new DatabaseStorage();
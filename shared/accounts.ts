@@ -0,0 +1,85 @@
+import { addDays, format } from 'date-fns';
+import { forecastOf, type ForecastDay } from './forecast';
+import type { OccurrenceRow } from './occurrences';
+import type { Account, AccountTypeType } from './schema';
+
+// ======================
+// Accounts
+// ======================
+// An account's balance is its opening balance moved by every occurrence of the expenses and
+// incomes on it from the opening date on, settled ones at what the ledger recorded.
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountTypeType, string> = {
+  CHECKING: 'Checking',
+  SAVINGS: 'Savings',
+  CREDIT_CARD: 'Credit card',
+  CASH: 'Cash',
+};
+
+// The account filter's value for no filter; any other value is an account id
+export const ALL_ACCOUNTS = 'all';
+
+export function itemsInAccount<T extends { accountId: number | null }>(items: T[], account: string): T[] {
+  return account === ALL_ACCOUNTS ? items : items.filter((item) => String(item.accountId) === account);
+}
+
+// Amounts in the account's own currency, e.g. "€1,250.00"
+export function formatAccountAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+}
+
+export interface StatementLine {
+  row: OccurrenceRow;
+  // Incomes in, expenses out
+  amount: number;
+  balance: number;
+}
+
+export interface AccountStatement {
+  account: Account;
+  // Before the period's first day
+  opening: number;
+  closing: number;
+  lines: StatementLine[];
+  // The end-of-day balance of every day in the period
+  history: ForecastDay[];
+}
+
+// 'yyyy-MM-dd' as a local day
+const parsedDay = (day: string) => {
+  const [year, month, dayOfMonth] = day.split('-').map(Number);
+  return new Date(year, month - 1, dayOfMonth);
+};
+
+// The account from from through to. rows must cover the opening date through to; the period
+// starts no earlier than the opening date.
+export function accountStatementOf(account: Account, rows: OccurrenceRow[], { from, to }: { from: Date; to: Date }): AccountStatement {
+  const openingBalance = Number(account.openingBalance);
+  const opened = parsedDay(account.openingDate);
+  const start = from < opened ? opened : from;
+  const accountRows = rows.filter((row) => row.accountId === account.id);
+  const days = forecastOf(accountRows, { startingBalance: openingBalance, from: opened, to, threshold: 0 });
+
+  const startKey = format(start, 'yyyy-MM-dd');
+  const dayBefore = format(addDays(start, -1), 'yyyy-MM-dd');
+  const opening = days.find((day) => day.date === dayBefore)?.balance ?? openingBalance;
+
+  let balance = opening;
+  const lines = accountRows
+    .filter((row) => row.date >= startKey && row.date <= format(to, 'yyyy-MM-dd'))
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((row) => {
+      const settled = row.settlement ? Number(row.settlement.amount) : row.amount;
+      const amount = row.kind === 'income' ? settled : -settled;
+      balance = Math.round((balance + amount) * 100) / 100;
+      return { row, amount, balance };
+    });
+
+  return {
+    account,
+    opening,
+    closing: balance,
+    lines,
+    history: days.filter((day) => day.date >= startKey),
+  };
+}
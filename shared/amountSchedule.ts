@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+// ======================
+// Amount Schedules
+// ======================
+const scheduledAmount = z.string().regex(/^\d+(\.\d{1,2})?$/, 'Enter an amount like 45 or 45.50');
+
+export const amountScheduleSchema = z.object({
+  // One amount per calendar month, January first; empty months use the base amount
+  seasonal: z.array(scheduledAmount.nullable()).length(12).nullable().default(null),
+  // The base amount from a date on, e.g. rent going to 3900 from 2026-01-01
+  changes: z.array(z.object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Pick a date'),
+    amount: scheduledAmount
+  })).default([])
+});
+export type AmountSchedule = z.infer<typeof amountScheduleSchema>;
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface ScheduledItem {
+  amount: string | number;
+  amountSchedule?: AmountSchedule | null;
+}
+
+// The base amount in effect on a date: the latest change on or before it, else the item's amount
+export function baseAmountOn(item: ScheduledItem, date: Date): number {
+  const day = date.toISOString().slice(0, 10);
+  const change = (item.amountSchedule?.changes ?? [])
+    .filter((change) => change.from <= day)
+    .sort((a, b) => a.from.localeCompare(b.from))
+    .pop();
+  return Number(change?.amount ?? item.amount);
+}
+
+// What an occurrence on this date costs. A seasonal amount for the month wins over the base
+// amount, so effective-dated changes only move the months the profile leaves empty.
+export function amountOn(item: ScheduledItem, date: Date): number {
+  const seasonal = item.amountSchedule?.seasonal?.[date.getUTCMonth()];
+  return seasonal ? Number(seasonal) : baseAmountOn(item, date);
+}
+
+export function hasAmountSchedule(schedule: AmountSchedule | null | undefined): schedule is AmountSchedule {
+  return !!schedule && (!!schedule.seasonal?.some(Boolean) || schedule.changes.length > 0);
+}
+
+// Short text for lists and diffs, e.g. "Seasonal (Jan, Feb, Dec); 3900.00 from 2026-01-01"
+export function describeAmountSchedule(schedule: AmountSchedule | null | undefined): string {
+  if (!hasAmountSchedule(schedule)) return 'Fixed amount';
+  const parts: string[] = [];
+  const months = MONTH_NAMES.filter((_, month) => schedule.seasonal?.[month]);
+  if (months.length > 0) parts.push(`Seasonal (${months.join(', ')})`);
+  [...schedule.changes]
+    .sort((a, b) => a.from.localeCompare(b.from))
+    .forEach((change) => parts.push(`${Number(change.amount).toFixed(2)} from ${change.from}`));
+  return parts.join('; ');
+}
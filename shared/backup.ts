@@ -0,0 +1,544 @@
+import { z } from 'zod';
+import {
+  AccountType, AllocationTarget, BudgetPeriod, FrequencyType, insertCategorySchema, insertExpenseSchema, insertIncomeSchema, monthKeySchema, RolloverPolicy
+} from './schema';
+import type {
+  Account, Category, CategoryBudget, Debt, Expense, Goal, Income, ItemChange, MonthAllocation, MonthClose, OccurrenceOverride, Transaction
+} from './schema';
+import { recurrenceRuleSchema } from './recurrence';
+import { amountScheduleSchema } from './amountSchedule';
+
+// ======================
+// Backup Versions
+// ======================
+export const BACKUP_VERSION = '3.0';
+
+// Frequencies the recurrence code understands
+export const BackupFrequency = FrequencyType;
+
+// Version 1.0: the raw API rows as written by the first backupData(). Frequencies
+// use any casing ("Monthly"), amounts are strings and incomes may lack a source.
+export const backupV1Schema = z.object({
+  version: z.literal('1.0'),
+  timestamp: z.string(),
+  categories: z.array(z.object({
+    id: z.number().int(),
+    name: z.string(),
+    color: z.string(),
+    icon: z.string()
+  })),
+  expenses: z.array(z.object({
+    id: z.number().int(),
+    name: z.string(),
+    amount: z.union([z.string(), z.number()]),
+    date: z.string(),
+    frequency: z.string(),
+    categoryId: z.number().int()
+  })),
+  incomes: z.array(z.object({
+    id: z.number().int(),
+    name: z.string(),
+    amount: z.union([z.string(), z.number()]),
+    date: z.string(),
+    frequency: z.string(),
+    source: z.string().nullish()
+  }))
+});
+
+// Version 2.0: upper-case frequencies, numeric amounts and an explicit (nullable) income source.
+// Only the layout is checked here; the upgraded rows are validated as 3.0.
+export const backupV2Schema = z.object({
+  version: z.literal('2.0'),
+  expenses: z.array(z.object({}).passthrough()),
+  incomes: z.array(z.object({}).passthrough())
+}).passthrough();
+
+// Version 3.0: every expense names its goal, sinking fund and account and every income its
+// account; accounts, savings goals, debts, overrides, the transactions ledger, change history,
+// category budgets and the zero-based month allocations and closes are included. Rows keep
+// their original IDs and point at each other by those IDs.
+const backupAmount = z.number().finite().nonnegative().transform((amount) => amount.toFixed(2));
+
+export const backupCategorySchema = insertCategorySchema.extend({
+  id: z.number().int()
+});
+
+// A credit card's opening balance is negative while it carries a balance
+export const backupAccountSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  type: AccountType,
+  openingBalance: z.number().finite().transform((amount) => amount.toFixed(2)),
+  openingDate: z.coerce.date(),
+  currency: z.string()
+});
+
+export const backupGoalSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  targetAmount: backupAmount,
+  targetDate: z.coerce.date(),
+  balance: backupAmount,
+  color: z.string()
+});
+
+export const backupExpenseSchema = insertExpenseSchema.extend({
+  id: z.number().int(),
+  amount: backupAmount,
+  frequency: BackupFrequency,
+  goalId: z.number().int().nullable(),
+  sinkingFund: z.boolean(),
+  accountId: z.number().int().nullable()
+});
+
+// expenseId is the debt's generated payment expense
+export const backupDebtSchema = z.object({
+  name: z.string(),
+  principal: backupAmount,
+  apr: backupAmount,
+  minimumPayment: backupAmount,
+  extraPayment: backupAmount,
+  firstPaymentDate: z.coerce.date(),
+  categoryId: z.number().int(),
+  expenseId: z.number().int().nullable()
+});
+
+export const backupIncomeSchema = insertIncomeSchema.extend({
+  id: z.number().int(),
+  amount: backupAmount,
+  frequency: BackupFrequency,
+  source: z.string().nullable(),
+  accountId: z.number().int().nullable()
+});
+
+// Overrides, transactions and change history belong to exactly one expense or income
+const itemReference = {
+  expenseId: z.number().int().nullable(),
+  incomeId: z.number().int().nullable()
+};
+const oneItem = [
+  (row: { expenseId: number | null; incomeId: number | null }) => (row.expenseId === null) !== (row.incomeId === null),
+  { message: 'Exactly one of expenseId and incomeId is required' }
+] as const;
+
+export const backupOverrideSchema = z.object({
+  ...itemReference,
+  originalDate: z.coerce.date(),
+  skipped: z.boolean(),
+  date: z.coerce.date().nullable(),
+  amount: backupAmount.nullable()
+}).refine(...oneItem);
+
+export const backupTransactionSchema = z.object({
+  ...itemReference,
+  occurrenceDate: z.coerce.date(),
+  date: z.coerce.date(),
+  amount: backupAmount
+}).refine(...oneItem);
+
+export const backupItemChangeSchema = z.object({
+  ...itemReference,
+  effectiveDate: z.coerce.date(),
+  amount: backupAmount,
+  date: z.coerce.date(),
+  frequency: z.string(),
+  recurrence: recurrenceRuleSchema.nullable(),
+  // Missing from backups written before change history kept amount schedules
+  amountSchedule: amountScheduleSchema.nullable().optional()
+}).refine(...oneItem);
+
+export const backupCategoryBudgetSchema = z.object({
+  categoryId: z.number().int(),
+  amount: backupAmount,
+  period: BudgetPeriod,
+  thresholds: z.array(z.number().int()),
+  rollover: RolloverPolicy
+});
+
+// Savings and buffer allocations have no category
+export const backupMonthAllocationSchema = z.object({
+  month: monthKeySchema,
+  target: AllocationTarget,
+  categoryId: z.number().int().nullable(),
+  amount: backupAmount
+});
+
+// closedBy is a user ID; a restore keeps it only while that user exists
+export const backupMonthCloseSchema = z.object({
+  month: monthKeySchema,
+  closedBy: z.number().int().nullable()
+});
+
+// References are checked by parseBackup so they are reported alongside schema problems
+export const backupSchema = z.object({
+  version: z.literal(BACKUP_VERSION),
+  timestamp: z.string(),
+  categories: z.array(backupCategorySchema),
+  accounts: z.array(backupAccountSchema),
+  goals: z.array(backupGoalSchema),
+  expenses: z.array(backupExpenseSchema),
+  debts: z.array(backupDebtSchema),
+  incomes: z.array(backupIncomeSchema),
+  overrides: z.array(backupOverrideSchema),
+  transactions: z.array(backupTransactionSchema),
+  itemChanges: z.array(backupItemChangeSchema),
+  categoryBudgets: z.array(backupCategoryBudgetSchema),
+  monthAllocations: z.array(backupMonthAllocationSchema),
+  monthCloses: z.array(backupMonthCloseSchema)
+});
+
+export type BackupData = z.output<typeof backupSchema>;
+
+const optionalAmount = (amount: string | null) => (amount === null ? null : Number(amount));
+
+// Builds a current-version backup document from API/database rows
+export function createBackupFile(
+  data: {
+    categories: Category[];
+    accounts: Account[];
+    goals: Goal[];
+    expenses: Expense[];
+    debts: Debt[];
+    incomes: Income[];
+    overrides: OccurrenceOverride[];
+    transactions: Transaction[];
+    itemChanges: ItemChange[];
+    categoryBudgets: CategoryBudget[];
+    monthAllocations: MonthAllocation[];
+    monthCloses: MonthClose[];
+  },
+  timestamp = new Date()
+) {
+  return {
+    version: BACKUP_VERSION,
+    timestamp: timestamp.toISOString(),
+    categories: data.categories.map(({ id, name, color, icon }) => ({ id, name, color, icon })),
+    accounts: data.accounts.map(({ id, name, type, openingBalance, openingDate, currency }) => ({
+      id, name, type, openingDate, currency,
+      openingBalance: Number(openingBalance)
+    })),
+    goals: data.goals.map(({ id, name, targetAmount, targetDate, balance, color }) => ({
+      id, name, targetDate, color,
+      targetAmount: Number(targetAmount),
+      balance: Number(balance)
+    })),
+    expenses: data.expenses.map(({ id, name, amount, date, frequency, recurrence, endDate, occurrenceCount, amountSchedule, categoryId, goalId, sinkingFund, accountId }) => ({
+      id, name, date, recurrence, endDate, occurrenceCount, amountSchedule, categoryId, goalId, sinkingFund, accountId,
+      amount: Number(amount),
+      frequency: normalizeFrequency(frequency) ?? frequency
+    })),
+    debts: data.debts.map(({ name, principal, apr, minimumPayment, extraPayment, firstPaymentDate, categoryId, expenseId }) => ({
+      name, firstPaymentDate, categoryId, expenseId,
+      principal: Number(principal),
+      apr: Number(apr),
+      minimumPayment: Number(minimumPayment),
+      extraPayment: Number(extraPayment)
+    })),
+    incomes: data.incomes.map(({ id, name, amount, date, frequency, recurrence, endDate, occurrenceCount, amountSchedule, source, accountId }) => ({
+      id, name, date, recurrence, endDate, occurrenceCount, amountSchedule, source, accountId,
+      amount: Number(amount),
+      frequency: normalizeFrequency(frequency) ?? frequency
+    })),
+    overrides: data.overrides.map(({ expenseId, incomeId, originalDate, skipped, date, amount }) => ({
+      expenseId, incomeId, originalDate, skipped, date,
+      amount: optionalAmount(amount)
+    })),
+    transactions: data.transactions.map(({ expenseId, incomeId, occurrenceDate, date, amount }) => ({
+      expenseId, incomeId, occurrenceDate, date,
+      amount: Number(amount)
+    })),
+    itemChanges: data.itemChanges.map(({ expenseId, incomeId, effectiveDate, amount, date, frequency, recurrence, amountSchedule }) => ({
+      expenseId, incomeId, effectiveDate, date, frequency, recurrence, amountSchedule,
+      amount: Number(amount)
+    })),
+    categoryBudgets: data.categoryBudgets.map(({ categoryId, amount, period, thresholds, rollover }) => ({
+      categoryId, period, thresholds, rollover,
+      amount: Number(amount)
+    })),
+    monthAllocations: data.monthAllocations.map(({ month, target, categoryId, amount }) => ({
+      month, target, categoryId,
+      amount: Number(amount)
+    })),
+    monthCloses: data.monthCloses.map(({ month, closedBy }) => ({ month, closedBy }))
+  };
+}
+
+// ======================
+// Migrations
+// ======================
+type Note = (message: string) => void;
+
+type MigrationResult = { success: true; backup: object } | { success: false; error: z.ZodError };
+
+// Validates a document against the version it claims, then upgrades it one version
+interface Migration {
+  to: string;
+  upgrade: (backup: unknown, note: Note) => MigrationResult;
+}
+
+function defineMigration<T extends z.ZodTypeAny>(
+  schema: T,
+  to: string,
+  migrate: (backup: z.output<T>, note: Note) => object
+): Migration {
+  return {
+    to,
+    upgrade: (backup, note) => {
+      const parsed = schema.safeParse(backup);
+      return parsed.success ? { success: true, backup: migrate(parsed.data, note) } : { success: false, error: parsed.error };
+    },
+  };
+}
+
+const frequencyAliases: Record<string, z.infer<typeof BackupFrequency>> = {
+  DAILY: 'DAILY',
+  WEEKLY: 'WEEKLY',
+  BIWEEKLY: 'BIWEEKLY',
+  TWICEMONTHLY: 'TWICE_MONTHLY',
+  SEMIMONTHLY: 'TWICE_MONTHLY',
+  MONTHLY: 'MONTHLY',
+  QUARTERLY: 'QUARTERLY',
+  SEMIANNUAL: 'SEMI_ANNUAL',
+  SEMIANNUALLY: 'SEMI_ANNUAL',
+  BIANNUAL: 'SEMI_ANNUAL',
+  YEARLY: 'YEARLY',
+  ANNUAL: 'YEARLY',
+  ANNUALLY: 'YEARLY',
+  ONCE: 'ONCE',
+  ONETIME: 'ONCE',
+  CUSTOM: 'CUSTOM',
+};
+
+// "Monthly", "bi-weekly", "ONE_TIME" -> MONTHLY, BIWEEKLY, ONCE
+export function normalizeFrequency(frequency: string): z.infer<typeof BackupFrequency> | undefined {
+  return frequencyAliases[frequency.toUpperCase().replace(/[^A-Z]/g, '')];
+}
+
+// "$1,200.50" -> 1200.5; NaN is left for the schema to report
+function parseAmount(amount: string | number): number {
+  return typeof amount === 'number' ? amount : Number(amount.replace(/[$,\s]/g, ''));
+}
+
+const rowLabel = (section: string, index: number) => `${section} row ${index + 1}`;
+
+const SECTION_LABELS: Record<string, string> = {
+  categories: 'Categories',
+  accounts: 'Accounts',
+  goals: 'Goals',
+  expenses: 'Expenses',
+  debts: 'Debts',
+  incomes: 'Incomes',
+  overrides: 'Overrides',
+  transactions: 'Transactions',
+  itemChanges: 'Item changes',
+  categoryBudgets: 'Category budgets',
+  monthAllocations: 'Month allocations',
+  monthCloses: 'Month closes',
+};
+
+// Keyed by the version a migration upgrades from
+const migrations: Record<string, Migration> = {
+  '1.0': defineMigration(backupV1Schema, '2.0', (backup, note) => {
+    const migrateRow = (section: string) => <T extends { amount: string | number; frequency: string }>(row: T, index: number) => {
+      let frequency = normalizeFrequency(row.frequency);
+      if (!frequency) {
+        note(`${rowLabel(section, index)}: unknown frequency "${row.frequency}" imported as ONCE`);
+        frequency = 'ONCE';
+      }
+      return { ...row, frequency, amount: parseAmount(row.amount) };
+    };
+
+    return {
+      ...backup,
+      expenses: backup.expenses.map(migrateRow('Expenses')),
+      incomes: backup.incomes.map(migrateRow('Incomes')).map((income) => ({ ...income, source: income.source ?? null })),
+    };
+  }),
+  '2.0': defineMigration(backupV2Schema, '3.0', (backup) => ({
+    ...backup,
+    accounts: [],
+    goals: [],
+    expenses: backup.expenses.map((expense) => ({ goalId: null, sinkingFund: false, accountId: null, ...expense })),
+    debts: [],
+    incomes: backup.incomes.map((income) => ({ accountId: null, ...income })),
+    overrides: [],
+    transactions: [],
+    itemChanges: [],
+    categoryBudgets: [],
+    monthAllocations: [],
+    monthCloses: [],
+  })),
+};
+
+// "expenses.3.amount: Expected number" -> "Expenses row 4, amount: Expected number"
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const [section, index, ...field] = issue.path;
+    if (typeof section === 'string' && typeof index === 'number') {
+      const label = rowLabel(SECTION_LABELS[section] ?? section, index);
+      return field.length > 0 ? `${label}, ${field.join('.')}: ${issue.message}` : `${label}: ${issue.message}`;
+    }
+    return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+  });
+}
+
+// Just enough of a raw row to follow its references; the rest is left to the schemas
+const referenceRowSchema = z.object({
+  id: z.unknown(),
+  categoryId: z.unknown(),
+  goalId: z.unknown(),
+  accountId: z.unknown(),
+  expenseId: z.unknown(),
+  incomeId: z.unknown()
+}).partial();
+
+type ReferenceRow = z.infer<typeof referenceRowSchema>;
+
+// The rows of one section of the raw document; rows that aren't objects are undefined
+function referenceRowsOf(backup: Record<string, unknown>, section: string): (ReferenceRow | undefined)[] {
+  const rows = z.array(z.unknown()).safeParse(backup[section]);
+  if (!rows.success) return [];
+  return rows.data.map((row) => {
+    const parsed = referenceRowSchema.safeParse(row);
+    return parsed.success ? parsed.data : undefined;
+  });
+}
+
+// Works on the raw document, whatever its version; IDs never change during migration.
+// Category references are required unless noted; account, goal, expense and income references
+// may be null.
+function missingReferences(raw: unknown): string[] {
+  const parsed = z.record(z.unknown()).safeParse(raw);
+  if (!parsed.success) return [];
+  const backup = parsed.data;
+
+  const idsOf = (section: string) => new Set(referenceRowsOf(backup, section).map((row) => row?.id));
+  const targets = {
+    categoryId: { name: 'Category', ids: idsOf('categories'), required: true },
+    goalId: { name: 'Goal', ids: idsOf('goals'), required: false },
+    accountId: { name: 'Account', ids: idsOf('accounts'), required: false },
+    expenseId: { name: 'Expense', ids: idsOf('expenses'), required: false },
+    incomeId: { name: 'Income', ids: idsOf('incomes'), required: false },
+  };
+  const check = (section: string, field: keyof typeof targets, required = targets[field].required) => {
+    const target = targets[field];
+    return referenceRowsOf(backup, section).flatMap((row, index) => {
+      if (!row || (!required && row[field] == null) || target.ids.has(row[field])) return [];
+      return [`${rowLabel(SECTION_LABELS[section], index)}, ${field}: ${target.name} ${String(row[field])} is not in the backup`];
+    });
+  };
+
+  return [
+    ...check('expenses', 'categoryId'),
+    ...check('expenses', 'goalId'),
+    ...check('expenses', 'accountId'),
+    ...check('incomes', 'accountId'),
+    ...check('debts', 'categoryId'),
+    ...check('debts', 'expenseId'),
+    ...check('categoryBudgets', 'categoryId'),
+    ...check('monthAllocations', 'categoryId', false),
+    ...(['overrides', 'transactions', 'itemChanges'] as const).flatMap((section) => [
+      ...check(section, 'expenseId'),
+      ...check(section, 'incomeId'),
+    ]),
+  ];
+}
+
+export type ParsedBackup =
+  // `file` is the upgraded JSON document, `data` the same rows parsed for the database
+  | { success: true; file: unknown; data: BackupData; notes: string[] }
+  | { success: false; problems: string[] };
+
+// Validates a backup of any known version and upgrades it to the current one.
+// Every problem is reported, not just the first; notes describe what the migration changed.
+export function parseBackup(raw: unknown): ParsedBackup {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { success: false, problems: ['The file does not contain a backup object'] };
+  }
+
+  const notes: string[] = [];
+  const referenceProblems = missingReferences(raw);
+  // Files without a version predate versioning and have the 1.0 layout
+  let backup: Record<string, unknown> = { version: '1.0', ...raw };
+
+  while (backup.version !== BACKUP_VERSION) {
+    const migration = typeof backup.version === 'string' ? migrations[backup.version] : undefined;
+    if (!migration) {
+      return { success: false, problems: [`Unsupported backup version "${String(backup.version)}"`] };
+    }
+
+    const upgraded = migration.upgrade(backup, (message) => notes.push(message));
+    if (!upgraded.success) {
+      return { success: false, problems: [...describeIssues(upgraded.error), ...referenceProblems] };
+    }
+    backup = { ...upgraded.backup, version: migration.to };
+  }
+
+  const parsed = backupSchema.safeParse(backup);
+  if (!parsed.success || referenceProblems.length > 0) {
+    return { success: false, problems: [...(parsed.success ? [] : describeIssues(parsed.error)), ...referenceProblems] };
+  }
+  return { success: true, file: backup, data: parsed.data, notes };
+}
+
+// ======================
+// Snapshots
+// ======================
+export const SnapshotReason = z.enum(['scheduled', 'manual', 'before-clear', 'before-restore', 'before-rollback']);
+export type SnapshotReasonType = z.infer<typeof SnapshotReason>;
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReasonType;
+  counts: { categories: number; expenses: number; incomes: number };
+}
+
+// ======================
+// Restore Types
+// ======================
+export interface RestoreCounts {
+  categories: number;
+  expenses: number;
+  incomes: number;
+}
+
+// Skipped rows are duplicates (replace) or were left unticked/unchanged (merge);
+// remapped rows ended up with a different ID than the one in the backup
+export interface RestoreResult {
+  inserted: RestoreCounts;
+  updated: RestoreCounts;
+  skipped: RestoreCounts;
+  remapped: RestoreCounts;
+}
+
+// Merge preview: each backup row matched against the database by ID, then by name
+export type RestoreDiffStatus = 'added' | 'changed' | 'unchanged';
+
+export interface RestoreDiffRow {
+  backupId: number;
+  matchedId?: number;
+  name: string;
+  status: RestoreDiffStatus;
+  changes: { field: string; current: string; backup: string }[];
+}
+
+export interface RestoreDiff {
+  categories: RestoreDiffRow[];
+  expenses: RestoreDiffRow[];
+  incomes: RestoreDiffRow[];
+}
+
+// Backup IDs of the rows to apply in a merge; the backup itself goes through parseBackup
+export const restoreSelectionSchema = z.object({
+  categories: z.array(z.number().int()),
+  expenses: z.array(z.number().int()),
+  incomes: z.array(z.number().int())
+});
+
+export const mergeRestoreSchema = z.object({
+  backup: z.unknown(),
+  selection: restoreSelectionSchema
+});
+
+export type RestoreSelection = z.infer<typeof restoreSelectionSchema>;
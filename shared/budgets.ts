@@ -0,0 +1,137 @@
+import { localDateKey, type OccurrenceRow } from './occurrences';
+import type { BudgetPeriodType, CategoryBudget, RolloverPolicyType } from './schema';
+
+// ======================
+// Category Budgets
+// ======================
+const PERIOD_MONTHS: Record<BudgetPeriodType, number> = { MONTHLY: 1, QUARTERLY: 3, YEARLY: 12 };
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriodType, string> = {
+  MONTHLY: 'month',
+  QUARTERLY: 'quarter',
+  YEARLY: 'year',
+};
+
+export const ROLLOVER_POLICY_LABELS: Record<RolloverPolicyType, string> = {
+  NONE: 'No rollover',
+  SURPLUS: 'Roll over surplus only',
+  BOTH: 'Roll over both ways',
+};
+
+// The month, quarter or calendar year containing date, first and last day included
+export function budgetPeriodOf(period: BudgetPeriodType, date: Date): { from: Date; to: Date } {
+  const length = PERIOD_MONTHS[period];
+  const firstMonth = date.getMonth() - (date.getMonth() % length);
+  return {
+    from: new Date(date.getFullYear(), firstMonth, 1),
+    to: new Date(date.getFullYear(), firstMonth + length, 0),
+  };
+}
+
+export interface BudgetWarning {
+  threshold: number;
+  // Which spending reached it; actual wins when both did
+  by: 'planned' | 'actual';
+}
+
+// Planned is what the category's occurrences in the period are scheduled to cost; actual is
+// what the ledger recorded for them. Percentages are of the limit and may pass 100.
+export interface BudgetProgress {
+  budget: CategoryBudget;
+  from: Date;
+  to: Date;
+  limit: number;
+  planned: number;
+  actual: number;
+  plannedPercent: number;
+  actualPercent: number;
+  warning: BudgetWarning | null;
+}
+
+// rows may cover more than the period; only the budget's category within it counts
+export function budgetProgress(budget: CategoryBudget, rows: OccurrenceRow[], date: Date): BudgetProgress {
+  const { from, to } = budgetPeriodOf(budget.period as BudgetPeriodType, date);
+  const [first, last] = [localDateKey(from), localDateKey(to)];
+  const inPeriod = rows.filter((row) => row.kind === 'expense' && row.category?.id === budget.categoryId
+    && row.date >= first && row.date <= last);
+
+  const limit = Number(budget.amount);
+  const planned = inPeriod.reduce((sum, row) => sum + row.amount, 0);
+  const actual = inPeriod.reduce((sum, row) => sum + (row.settlement ? Number(row.settlement.amount) : 0), 0);
+  const plannedPercent = limit > 0 ? (planned / limit) * 100 : 0;
+  const actualPercent = limit > 0 ? (actual / limit) * 100 : 0;
+
+  const threshold = [...budget.thresholds]
+    .sort((a, b) => b - a)
+    .find((candidate) => Math.max(plannedPercent, actualPercent) >= candidate);
+  const warning = threshold === undefined
+    ? null
+    : { threshold, by: actualPercent >= threshold ? 'actual' as const : 'planned' as const };
+
+  return { budget, from, to, limit, planned, actual, plannedPercent, actualPercent, warning };
+}
+
+// ======================
+// Envelopes
+// ======================
+// One budget period seen as an envelope: what it started with from earlier periods, the
+// limit put in, what the category spent and what is left. Ending may be negative.
+export interface Envelope {
+  budget: CategoryBudget;
+  from: Date;
+  to: Date;
+  starting: number;
+  allocation: number;
+  spending: number;
+  ending: number;
+}
+
+const carryOver = (policy: RolloverPolicyType, ending: number) => {
+  if (policy === 'BOTH') return ending;
+  if (policy === 'SURPLUS') return Math.max(0, ending);
+  return 0;
+};
+
+// Where an envelope history starts: the period the budget was created in, or date's own
+// period when that comes first
+export function envelopeStartOf(budget: CategoryBudget, date: Date): Date {
+  const period = budget.period as BudgetPeriodType;
+  const current = budgetPeriodOf(period, date).from;
+  if (!budget.createdAt) return current;
+  const [year, month, day] = budget.createdAt.split('-').map(Number);
+  const created = budgetPeriodOf(period, new Date(year, month - 1, day)).from;
+  return created < current ? created : current;
+}
+
+// The days envelopeOf needs occurrences for to build every budget's envelope as of date,
+// never less than date's month
+export function envelopesRangeOf(budgets: CategoryBudget[], date: Date): { from: Date; to: Date } {
+  return budgets.reduce((range, budget) => {
+    const start = envelopeStartOf(budget, date);
+    const end = budgetPeriodOf(budget.period as BudgetPeriodType, date).to;
+    return { from: start < range.from ? start : range.from, to: end > range.to ? end : range.to };
+  }, budgetPeriodOf('MONTHLY', date));
+}
+
+// Spending is what the ledger recorded for settled occurrences and the planned amount for the
+// rest. rows must cover every period from envelopeStartOf(budget, date) through date's.
+export function envelopeOf(budget: CategoryBudget, rows: OccurrenceRow[], date: Date): Envelope {
+  const period = budget.period as BudgetPeriodType;
+  const allocation = Number(budget.amount);
+  const last = budgetPeriodOf(period, date);
+  let { from, to } = budgetPeriodOf(period, envelopeStartOf(budget, date));
+  let starting = 0;
+
+  while (true) {
+    const [first, end] = [localDateKey(from), localDateKey(to)];
+    const spending = rows
+      .filter((row) => row.kind === 'expense' && row.category?.id === budget.categoryId
+        && row.date >= first && row.date <= end)
+      .reduce((sum, row) => sum + (row.settlement ? Number(row.settlement.amount) : row.amount), 0);
+    const ending = starting + allocation - spending;
+    if (from >= last.from) return { budget, from, to, starting, allocation, spending, ending };
+
+    starting = carryOver(budget.rollover as RolloverPolicyType, ending);
+    ({ from, to } = budgetPeriodOf(period, new Date(to.getFullYear(), to.getMonth() + 1, 1)));
+  }
+}
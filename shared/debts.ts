@@ -0,0 +1,176 @@
+import { addMonths, differenceInCalendarMonths } from 'date-fns';
+import { localDateKey } from './occurrences';
+import type { AmountSchedule } from './amountSchedule';
+import type { Debt, DebtStrategyType } from './schema';
+
+// ======================
+// Debt Payoff
+// ======================
+// Debts are paid monthly from their first payment date. Each month interest accrues at
+// APR / 12 on the balance, every debt gets its minimum payment, and the strategy decides
+// where the extra payments go.
+
+export const DEBT_STRATEGY_LABELS: Record<DebtStrategyType, string> = {
+  NONE: 'Each debt on its own',
+  SNOWBALL: 'Snowball (smallest balance first)',
+  AVALANCHE: 'Avalanche (highest rate first)',
+};
+
+// A plan stops here, e.g. when a minimum payment doesn't cover the interest
+export const DEBT_MAX_MONTHS = 600;
+
+export interface AmortizationRow {
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  // Left after the payment
+  balance: number;
+}
+
+export interface DebtSchedule {
+  debt: Debt;
+  rows: AmortizationRow[];
+  // The last payment's date, or null when the debt isn't paid off within DEBT_MAX_MONTHS
+  payoffDate: string | null;
+  totalInterest: number;
+}
+
+export interface DebtPlan {
+  strategy: DebtStrategyType;
+  schedules: DebtSchedule[];
+  // When the last debt is paid off
+  payoffDate: string | null;
+  totalInterest: number;
+}
+
+interface TrackedDebt {
+  debt: Debt;
+  first: Date;
+  // Months from the plan's first payment to this debt's
+  offset: number;
+  balance: number;
+  rows: AmortizationRow[];
+}
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// 'yyyy-MM-dd' as a local day
+const parsedDay = (day: string) => {
+  const [year, month, dayOfMonth] = day.split('-').map(Number);
+  return new Date(year, month - 1, dayOfMonth);
+};
+
+const byId = (a: TrackedDebt, b: TrackedDebt) => a.debt.id - b.debt.id;
+const byBalance = (a: TrackedDebt, b: TrackedDebt) => a.balance - b.balance;
+const byRate = (a: TrackedDebt, b: TrackedDebt) => Number(b.debt.apr) - Number(a.debt.apr);
+
+// The order pooled extra payments are applied in
+const PRIORITY: Record<DebtStrategyType, (a: TrackedDebt, b: TrackedDebt) => number> = {
+  NONE: byId,
+  SNOWBALL: (a, b) => byBalance(a, b) || byRate(a, b) || byId(a, b),
+  AVALANCHE: (a, b) => byRate(a, b) || byBalance(a, b) || byId(a, b),
+};
+
+// Amortizes all of a household's debts together. Under SNOWBALL and AVALANCHE the extra
+// payments, the minimums of paid-off debts and whatever a final payment leaves of its
+// minimum go to one debt at a time in priority order.
+export function debtPlanOf(debts: Debt[], strategy: DebtStrategyType): DebtPlan {
+  const firsts = debts.map((debt) => parsedDay(debt.firstPaymentDate));
+  const origin = firsts.reduce<Date | null>((earliest, first) => (!earliest || first < earliest ? first : earliest), null);
+  const tracked: TrackedDebt[] = debts.map((debt, index) => ({
+    debt,
+    first: firsts[index],
+    offset: origin ? differenceInCalendarMonths(firsts[index], origin) : 0,
+    balance: Number(debt.principal),
+    rows: [],
+  }));
+  const pooled = strategy !== 'NONE';
+
+  for (let month = 0; month < DEBT_MAX_MONTHS && tracked.some((item) => item.balance > 0); month++) {
+    const started = tracked.filter((item) => item.offset <= month);
+    // Balances are only zero here for debts paid off in an earlier month
+    let pool = pooled
+      ? started.reduce((sum, item) => sum + Number(item.debt.extraPayment) + (item.balance > 0 ? 0 : Number(item.debt.minimumPayment)), 0)
+      : 0;
+
+    const due = started
+      .filter((item) => item.balance > 0)
+      .sort(PRIORITY[strategy])
+      .map((item) => {
+        const interest = toCents((item.balance * Number(item.debt.apr)) / 1200);
+        const owed = toCents(item.balance + interest);
+        const own = Number(item.debt.minimumPayment) + (pooled ? 0 : Number(item.debt.extraPayment));
+        const payment = Math.min(own, owed);
+        if (pooled) pool += own - payment;
+        return { item, interest, owed, payment };
+      });
+
+    for (const { item, interest, owed, payment } of due) {
+      const extra = Math.min(pool, owed - payment);
+      pool -= extra;
+      const paid = toCents(payment + extra);
+      item.balance = toCents(owed - paid);
+      item.rows.push({
+        date: localDateKey(addMonths(item.first, month - item.offset)),
+        payment: paid,
+        interest,
+        principal: toCents(paid - interest),
+        balance: item.balance,
+      });
+    }
+  }
+
+  const schedules = tracked.map(({ debt, balance, rows }) => ({
+    debt,
+    rows,
+    payoffDate: balance === 0 && rows.length > 0 ? rows[rows.length - 1].date : null,
+    totalInterest: toCents(rows.reduce((sum, row) => sum + row.interest, 0)),
+  }));
+  const payoffDates = schedules.map((schedule) => schedule.payoffDate);
+
+  return {
+    strategy,
+    schedules,
+    payoffDate: payoffDates.includes(null) ? null : payoffDates.reduce<string | null>((latest, date) => (!latest || date! > latest ? date : latest), null),
+    totalInterest: toCents(schedules.reduce((sum, schedule) => sum + schedule.totalInterest, 0)),
+  };
+}
+
+// Still owed on a day: the balance after the last payment on or before it
+export function balanceOn(schedule: DebtSchedule, date: Date): number {
+  const day = localDateKey(date);
+  const paid = schedule.rows.filter((row) => row.date <= day).pop();
+  return paid ? paid.balance : Number(schedule.debt.principal);
+}
+
+// Why a plan can't schedule its payments, or null when it can. A debt the payments never clear
+// would get a payment expense that runs on long after the rest of the plan.
+export function payoffBlockerOf(plan: DebtPlan): string | null {
+  const unpaid = plan.schedules.find((schedule) => schedule.payoffDate === null && schedule.rows.length > 0);
+  return unpaid
+    ? `${unpaid.debt.name} is never paid off; raise its payments above the monthly interest`
+    : null;
+}
+
+// The monthly payment expense that follows a schedule: the first payment's amount, a change
+// from the month any later payment differs and no occurrences past the last payment. Null
+// when there is nothing to pay.
+export function paymentExpenseOf(schedule: DebtSchedule): {
+  amount: string;
+  occurrenceCount: number;
+  amountSchedule: AmountSchedule | null;
+} | null {
+  if (schedule.rows.length === 0) return null;
+
+  const amounts = schedule.rows.map((row) => row.payment.toFixed(2));
+  const changes = schedule.rows
+    .filter((_, index) => index > 0 && amounts[index] !== amounts[index - 1])
+    .map((row) => ({ from: `${row.date.slice(0, 8)}01`, amount: row.payment.toFixed(2) }));
+
+  return {
+    amount: amounts[0],
+    occurrenceCount: schedule.rows.length,
+    amountSchedule: changes.length > 0 ? { seasonal: null, changes } : null,
+  };
+}
@@ -0,0 +1,49 @@
+import { eachDayOfInterval } from 'date-fns';
+import { localDateKey, type OccurrenceRow } from './occurrences';
+
+// ======================
+// Cash-Flow Forecast
+// ======================
+// A running balance from a known starting balance, moved day by day by every income and
+// expense occurrence. Settled occurrences count at what was actually paid or received.
+
+// Months ahead of today the forecast can be shown for
+export const FORECAST_HORIZONS = [3, 6, 12];
+
+export interface ForecastDay {
+  date: string;
+  income: number;
+  expenses: number;
+  // At the end of the day
+  balance: number;
+  // The balance is below the threshold
+  low: boolean;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// One day per calendar day from from through to; startingBalance is on hand before from's
+// occurrences. Empty when to is before from.
+export function forecastOf(
+  rows: OccurrenceRow[],
+  { startingBalance, from, to, threshold }: { startingBalance: number; from: Date; to: Date; threshold: number }
+): ForecastDay[] {
+  if (to < from) return [];
+
+  const totals = new Map<string, { income: number; expenses: number }>();
+  for (const row of rows) {
+    const day = totals.get(row.date) ?? { income: 0, expenses: 0 };
+    const amount = row.settlement ? Number(row.settlement.amount) : row.amount;
+    if (row.kind === 'income') day.income += amount;
+    else day.expenses += amount;
+    totals.set(row.date, day);
+  }
+
+  let balance = startingBalance;
+  return eachDayOfInterval({ start: from, end: to }).map((day) => {
+    const date = localDateKey(day);
+    const { income, expenses } = totals.get(date) ?? { income: 0, expenses: 0 };
+    balance = toCents(balance + income - expenses);
+    return { date, income: toCents(income), expenses: toCents(expenses), balance, low: balance < threshold };
+  });
+}
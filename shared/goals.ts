@@ -0,0 +1,68 @@
+import { differenceInCalendarMonths } from 'date-fns';
+import { localDateKey, type OccurrenceRow } from './occurrences';
+import type { Expense, Goal, Transaction } from './schema';
+
+// ======================
+// Savings Goals
+// ======================
+// Contributions are expenses linked to a goal, so they recur, show on the Calendar and are
+// settled like any other expense. Paid contributions count toward the goal.
+
+// How far ahead scheduled contributions are followed to project a completion date
+export const GOAL_PROJECTION_YEARS = 10;
+
+export interface GoalProgress {
+  goal: Goal;
+  saved: number;
+  remaining: number;
+  // Of the target; may pass 100
+  percent: number;
+  // What has to go in each month from now on to reach the target by its date
+  requiredMonthly: number;
+  // When the scheduled contributions reach the target ('yyyy-MM-dd'), or null if they don't
+  // within GOAL_PROJECTION_YEARS
+  projectedDate: string | null;
+  onTrack: boolean;
+}
+
+// rows are expense occurrences from today on; transactions may be the whole ledger
+export function goalProgress(
+  goal: Goal,
+  { expenses, transactions, rows, today = new Date() }: {
+    expenses: Expense[];
+    transactions: Transaction[];
+    rows: OccurrenceRow[];
+    today?: Date;
+  }
+): GoalProgress {
+  const contributions = new Set(expenses.filter((expense) => expense.goalId === goal.id).map((expense) => expense.id));
+  const target = Number(goal.targetAmount);
+  const saved = Number(goal.balance) + transactions
+    .filter((transaction) => transaction.expenseId !== null && contributions.has(transaction.expenseId))
+    .reduce((sum, transaction) => sum + Number(transaction.amount), 0);
+  const remaining = Math.max(0, target - saved);
+
+  const [year, month, day] = goal.targetDate.split('-').map(Number);
+  const monthsLeft = Math.max(1, differenceInCalendarMonths(new Date(year, month - 1, day), today));
+
+  // Unpaid contributions from today on, in date order, until they cover what is left
+  const todayKey = localDateKey(today);
+  let projectedDate: string | null = remaining === 0 ? todayKey : null;
+  let scheduled = 0;
+  for (const row of [...rows].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (projectedDate) break;
+    if (row.kind !== 'expense' || !contributions.has(row.itemId) || row.settlement || row.date < todayKey) continue;
+    scheduled += row.amount;
+    if (scheduled >= remaining) projectedDate = row.date;
+  }
+
+  return {
+    goal,
+    saved,
+    remaining,
+    percent: target > 0 ? (saved / target) * 100 : 0,
+    requiredMonthly: remaining / monthsLeft,
+    projectedDate,
+    onTrack: projectedDate !== null && projectedDate <= goal.targetDate,
+  };
+}
@@ -0,0 +1,77 @@
+import { describeRecurrence, recurrenceOf, type RecurrenceRule } from './recurrence';
+import type { AmountSchedule } from './amountSchedule';
+import type { ItemChange } from './schema';
+
+// ======================
+// Change History
+// ======================
+interface VersionedItem {
+  id: number | string;
+  amount: string | number;
+  date: Date | string;
+  frequency: string;
+  recurrence?: RecurrenceRule | null;
+  amountSchedule?: AmountSchedule | null;
+}
+
+// An item as it was between two changes; from is inclusive, until exclusive, both 'yyyy-MM-dd'
+export interface ItemVersion<T> {
+  item: T;
+  from: string | null;
+  until: string | null;
+}
+
+export function changesOf(item: Pick<VersionedItem, 'id'>, kind: 'expense' | 'income', changes: ItemChange[]): ItemChange[] {
+  return changes
+    .filter((change) => (kind === 'expense' ? change.expenseId : change.incomeId) === Number(item.id))
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+}
+
+// The item split at each recorded change, oldest first; without changes it is the only version
+export function versionsOf<T extends VersionedItem>(item: T, kind: 'expense' | 'income', changes: ItemChange[]): ItemVersion<T>[] {
+  const history = changesOf(item, kind, changes);
+  const versions = history.map((change, index): ItemVersion<T> => ({
+    item: {
+      ...item,
+      amount: change.amount,
+      date: change.date,
+      frequency: change.frequency,
+      recurrence: change.recurrence,
+      amountSchedule: change.amountSchedule,
+    },
+    from: index > 0 ? history[index - 1].effectiveDate : null,
+    until: change.effectiveDate,
+  }));
+  versions.push({ item, from: history.length > 0 ? history[history.length - 1].effectiveDate : null, until: null });
+  return versions;
+}
+
+const dateText = (date: Date | string) => (typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10));
+
+// What changed between two versions, e.g. ["$65.00 → $75.00", "Monthly → Yearly"]
+export function describeChange(before: VersionedItem, after: VersionedItem): string[] {
+  const parts: string[] = [];
+  if (Number(before.amount) !== Number(after.amount)) {
+    parts.push(`$${Number(before.amount).toFixed(2)} → $${Number(after.amount).toFixed(2)}`);
+  }
+  const schedule = [describeRecurrence(recurrenceOf(before)), describeRecurrence(recurrenceOf(after))];
+  if (schedule[0] !== schedule[1]) parts.push(`${schedule[0]} → ${schedule[1]}`);
+  if (dateText(before.date) !== dateText(after.date)) {
+    parts.push(`starting ${dateText(before.date)} → ${dateText(after.date)}`);
+  }
+  return parts;
+}
+
+// One line per change, oldest first: "$65.00 → $75.00 on 2025-03-01"
+export function describeHistory(item: VersionedItem, kind: 'expense' | 'income', changes: ItemChange[]): string[] {
+  const versions = versionsOf(item, kind, changes);
+  return versions.slice(1).flatMap((version, index) => {
+    const parts = describeChange(versions[index].item, version.item);
+    return parts.length > 0 ? [`${parts.join(', ')} on ${version.from}`] : [];
+  });
+}
+
+// Where a correction takes effect: the earlier of the old and new start, so no older version survives
+export function fromStart(before: Date | string, after: Date | string): string {
+  return dateText(before) < dateText(after) ? dateText(before) : dateText(after);
+}
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import type { OccurrenceQuery, OccurrenceRow } from './occurrences';
+import { formatCurrency } from './reports';
+import type { MonthAllocation, MonthClose } from './schema';
+
+// ======================
+// Months
+// ======================
+// A calendar month as MonthSummary shows it, keyed 'yyyy-MM' for allocations and closes
+
+export const monthKeyOf = (date: Date) => format(date, 'yyyy-MM');
+
+// The first local day of a 'yyyy-MM' month
+export function monthDateOf(month: string): Date {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1);
+}
+
+// First and last local day of date's month
+export function monthIntervalOf(date: Date): { from: Date; to: Date } {
+  return { from: startOfMonth(date), to: endOfMonth(date) };
+}
+
+// The same days as an occurrence query, whose dates are UTC days like the API's
+export function monthQueryOf(month: string): OccurrenceQuery {
+  const { from, to } = monthIntervalOf(monthDateOf(month));
+  return {
+    from: new Date(Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())),
+    to: new Date(Date.UTC(to.getFullYear(), to.getMonth(), to.getDate())),
+  };
+}
+
+// GET /api/months/:month?accountId=
+export const monthBudgetQuerySchema = z.object({
+  accountId: z.coerce.number().int().optional()
+});
+
+// ======================
+// Zero-Based Budgeting
+// ======================
+// Expected income is what the month's income occurrences are planned to bring in; planned
+// spending per category is shown next to each allocation as a guide.
+export interface MonthBudget {
+  month: string;
+  zeroBased: boolean;
+  expectedIncome: number;
+  assigned: number;
+  leftToAssign: number;
+  planned: { categoryId: number; amount: number }[];
+  allocations: MonthAllocation[];
+  close: MonthClose | null;
+}
+
+// Amounts are stored to the cent, so sums are compared there too
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export function monthBudgetOf(
+  month: string,
+  rows: OccurrenceRow[],
+  allocations: MonthAllocation[],
+  { zeroBased, close }: { zeroBased: boolean; close: MonthClose | null }
+): MonthBudget {
+  const expectedIncome = toCents(rows
+    .filter((row) => row.kind === 'income')
+    .reduce((sum, row) => sum + row.amount, 0));
+  const assigned = toCents(allocations.reduce((sum, allocation) => sum + Number(allocation.amount), 0));
+
+  const planned = new Map<number, number>();
+  rows.forEach((row) => {
+    if (row.kind === 'expense' && row.category) {
+      planned.set(row.category.id, (planned.get(row.category.id) ?? 0) + row.amount);
+    }
+  });
+
+  return {
+    month,
+    zeroBased,
+    expectedIncome,
+    assigned,
+    leftToAssign: toCents(expectedIncome - assigned),
+    planned: Array.from(planned, ([categoryId, amount]) => ({ categoryId, amount: toCents(amount) })),
+    allocations,
+    close,
+  };
+}
+
+// Why the month cannot be closed, or null when it can
+export function closeBlockerOf(budget: MonthBudget): string | null {
+  if (budget.close) return 'Month is already closed';
+  if (!budget.zeroBased || budget.leftToAssign === 0) return null;
+  return budget.leftToAssign > 0
+    ? `Assign the remaining ${formatCurrency(budget.leftToAssign)} before closing the month`
+    : `Allocations exceed expected income by ${formatCurrency(-budget.leftToAssign)}`;
+}
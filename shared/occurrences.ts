@@ -0,0 +1,234 @@
+import { z } from 'zod';
+import { expandRecurrence, recurrenceOf, type RecurrenceRule } from './recurrence';
+import { amountOn, type AmountSchedule } from './amountSchedule';
+import { versionsOf } from './history';
+import type { Category, Expense, Income, ItemChange, OccurrenceOverride, Transaction } from './schema';
+
+// ======================
+// Occurrence Engine
+// ======================
+// Shared by the server's /api/occurrences and the client, so both expand items the same way
+
+// 'yyyy-MM-dd' strings and Dates alike become noon UTC on that day, which every time zone
+// agrees on; unparseable input falls back to today
+export function toNoonUTC(date: Date | string): Date {
+  const parsed = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T12:00:00Z`) : new Date(date);
+  if (isNaN(parsed.getTime())) {
+    console.warn(`Invalid date provided: ${date}. Using today.`);
+    return toNoonUTC(new Date());
+  }
+  return new Date(Date.UTC(parsed.getUTCFullYear(), parsed.getUTCMonth(), parsed.getUTCDate(), 12, 0, 0));
+}
+
+const dateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// The calendar day a Date falls on where the code runs
+export const localDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// A recurring expense or income, with its optional end date and occurrence limit
+export interface RecurringItem {
+  date: Date | string;
+  frequency: string;
+  recurrence?: RecurrenceRule | null;
+  endDate?: Date | string | null;
+  occurrenceCount?: number | null;
+}
+
+// Occurrences of an item up to rangeEnd, stopping at the item's end date or after its last occurrence
+export function getOccurrenceDates(item: RecurringItem, rangeEnd: Date): Date[] {
+  const end = item.endDate ? toNoonUTC(item.endDate) : undefined;
+  const limit = toNoonUTC(rangeEnd);
+  let dates: Date[];
+  try {
+    dates = expandRecurrence(recurrenceOf(item), toNoonUTC(item.date), end && end < limit ? end : limit);
+  } catch (error) {
+    console.error('Error generating recurring dates:', error);
+    return [];
+  }
+  return item.occurrenceCount ? dates.slice(0, item.occurrenceCount) : dates;
+}
+
+export type OccurrenceKind = 'expense' | 'income';
+
+// One occurrence after its override: originalDate is where the series put it, and what an override is keyed on
+export interface Occurrence {
+  date: Date;
+  originalDate: Date;
+  amount: number;
+  override?: OccurrenceOverride;
+}
+
+// Occurrences of an item on or before rangeEnd with its overrides applied: skipped ones are
+// dropped, moved ones land on their new date (even from beyond rangeEnd) and amounts are replaced.
+// Other occurrences cost what the item's amount schedule says for their original date. Recorded
+// changes split the series: each occurrence comes from the version in force on its original date,
+// and the item's occurrence limit counts the occurrences of all versions together.
+export function getOccurrences(
+  item: RecurringItem & { id: number; amount: string | number; amountSchedule?: AmountSchedule | null },
+  kind: OccurrenceKind,
+  rangeEnd: Date,
+  overrides: OccurrenceOverride[] = [],
+  changes: ItemChange[] = []
+): Occurrence[] {
+  const byDate = new Map(
+    overrides
+      .filter((override) => (kind === 'expense' ? override.expenseId : override.incomeId) === item.id)
+      .map((override) => [override.originalDate, override])
+  );
+
+  // Expand far enough to catch occurrences moved back into the range
+  let expandTo = toNoonUTC(rangeEnd);
+  byDate.forEach((override) => {
+    const originalDate = toNoonUTC(override.originalDate);
+    if (override.date && originalDate > expandTo) expandTo = originalDate;
+  });
+
+  const end = toNoonUTC(rangeEnd);
+  const dated = versionsOf(item, kind, changes)
+    .flatMap((version) => getOccurrenceDates({ ...version.item, occurrenceCount: null }, expandTo)
+      .filter((originalDate) => (!version.from || dateKey(originalDate) >= version.from)
+        && (!version.until || dateKey(originalDate) < version.until))
+      .map((originalDate) => ({ originalDate, version: version.item })))
+    .sort((a, b) => a.originalDate.getTime() - b.originalDate.getTime());
+  return (item.occurrenceCount ? dated.slice(0, item.occurrenceCount) : dated)
+    .flatMap(({ originalDate, version }): Occurrence[] => {
+      const override = byDate.get(dateKey(originalDate));
+      if (override?.skipped) return [];
+      return [{
+        date: override?.date ? toNoonUTC(override.date) : originalDate,
+        originalDate,
+        amount: Number(override?.amount ?? amountOn(version, originalDate)),
+        override,
+      }];
+    })
+    .filter((occurrence) => occurrence.date <= end)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export type OccurrenceStatus = 'paid' | 'overdue' | 'upcoming';
+
+// Ledger transactions by the occurrence they settle
+export type Settlements = Map<string, Transaction>;
+
+const settlementKey = (kind: OccurrenceKind, itemId: number, originalDate: Date | string) =>
+  `${kind}:${itemId}:${dateKey(toNoonUTC(originalDate))}`;
+
+export function indexSettlements(transactions: Transaction[]): Settlements {
+  return new Map(transactions.map((transaction): [string, Transaction] => [
+    transaction.expenseId !== null
+      ? settlementKey('expense', transaction.expenseId, transaction.occurrenceDate)
+      : settlementKey('income', transaction.incomeId!, transaction.occurrenceDate),
+    transaction,
+  ]));
+}
+
+export function findSettlement(
+  settlements: Settlements,
+  kind: OccurrenceKind,
+  itemId: number,
+  occurrence: Occurrence
+): Transaction | undefined {
+  return settlements.get(settlementKey(kind, itemId, occurrence.originalDate));
+}
+
+// Paid (or received) once the ledger settles it; unsettled occurrences are overdue the day after they fall
+export function occurrenceStatus(
+  occurrence: Occurrence,
+  settlement: Transaction | undefined,
+  today: Date = new Date()
+): OccurrenceStatus {
+  if (settlement) return 'paid';
+  return dateKey(occurrence.date) < localDateKey(today) ? 'overdue' : 'upcoming';
+}
+
+// ======================
+// Occurrence API
+// ======================
+export const occurrenceQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  type: z.enum(['expense', 'income']).optional(),
+  // Incomes have no category, so filtering by one leaves only expenses
+  categoryId: z.coerce.number().int().optional(),
+  // Only items paid from or into this account
+  accountId: z.coerce.number().int().optional()
+}).refine((query) => query.from <= query.to, { message: 'from must be on or before to' });
+export type OccurrenceQuery = z.infer<typeof occurrenceQuerySchema>;
+
+// One expanded occurrence as /api/occurrences returns it. Dates are 'yyyy-MM-dd'; amount is
+// the planned amount and settlement, when present, what the ledger recorded
+export interface OccurrenceRow {
+  kind: OccurrenceKind;
+  itemId: number;
+  name: string;
+  category: Pick<Category, 'id' | 'name' | 'color' | 'icon'> | null;
+  accountId: number | null;
+  date: string;
+  originalDate: string;
+  amount: number;
+  status: OccurrenceStatus;
+  override: OccurrenceOverride | null;
+  settlement: Transaction | null;
+}
+
+export interface OccurrenceSources {
+  expenses: Expense[];
+  incomes: Income[];
+  categories: Category[];
+  overrides: OccurrenceOverride[];
+  changes: ItemChange[];
+  transactions: Transaction[];
+}
+
+// Every occurrence between from and to (inclusive, by calendar day) in date order
+export function expandOccurrences(sources: OccurrenceSources, query: OccurrenceQuery, today: Date = new Date()): OccurrenceRow[] {
+  const from = dateKey(query.from);
+  const to = dateKey(query.to);
+  const settlements = indexSettlements(sources.transactions);
+  const categories = new Map(sources.categories.map((category) => [category.id, category]));
+  const rows: OccurrenceRow[] = [];
+
+  const expand = (kind: OccurrenceKind, item: Expense | Income, categoryId: number | null) => {
+    const category = categoryId !== null ? categories.get(categoryId) : undefined;
+    getOccurrences(item, kind, toNoonUTC(to), sources.overrides, sources.changes)
+      .filter((occurrence) => dateKey(occurrence.date) >= from)
+      .forEach((occurrence) => {
+        const settlement = findSettlement(settlements, kind, item.id, occurrence);
+        rows.push({
+          kind,
+          itemId: item.id,
+          name: item.name,
+          category: category ? { id: category.id, name: category.name, color: category.color, icon: category.icon } : null,
+          accountId: item.accountId,
+          date: dateKey(occurrence.date),
+          originalDate: dateKey(occurrence.originalDate),
+          amount: occurrence.amount,
+          status: occurrenceStatus(occurrence, settlement, today),
+          override: occurrence.override ?? null,
+          settlement: settlement ?? null,
+        });
+      });
+  };
+
+  const inAccount = (item: Expense | Income) => query.accountId === undefined || item.accountId === query.accountId;
+  if (query.type !== 'income') {
+    sources.expenses
+      .filter((expense) => (query.categoryId === undefined || expense.categoryId === query.categoryId) && inAccount(expense))
+      .forEach((expense) => expand('expense', expense, expense.categoryId));
+  }
+  if (query.type !== 'expense' && query.categoryId === undefined) {
+    sources.incomes.filter(inAccount).forEach((income) => expand('income', income, null));
+  }
+  return rows.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// The Occurrence behind a row, for the dialogs that edit or settle it
+export function occurrenceOfRow(row: OccurrenceRow): Occurrence {
+  return {
+    date: toNoonUTC(row.date),
+    originalDate: toNoonUTC(row.originalDate),
+    amount: row.amount,
+    override: row.override ?? undefined,
+  };
+}
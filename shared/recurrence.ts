@@ -0,0 +1,159 @@
+import { z } from 'zod';
+
+// ======================
+// Recurrence Rules
+// ======================
+const every = z.number().int().min(1).max(120).default(1);
+
+export const recurrenceRuleSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('once') }),
+  // Every N days/weeks/months/years from the start date; months keep the start's day, clamped to short months
+  z.object({ type: z.literal('interval'), unit: z.enum(['day', 'week', 'month', 'year']), every }),
+  // Fixed days of every Nth month, e.g. the 1st and 15th; days past the month's end fall on its last day
+  z.object({ type: z.literal('monthDays'), days: z.array(z.number().int().min(1).max(31)).min(1), every }),
+  // The nth weekday of every Nth month; nth -1 is the last one. Weekdays run 0 (Sunday) to 6
+  z.object({ type: z.literal('nthWeekday'), nth: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(-1)]), weekday: z.number().int().min(0).max(6), every }),
+  // The last day, or last weekday, of every Nth month
+  z.object({ type: z.literal('lastDay'), businessDay: z.boolean(), every }),
+]);
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+// The rule a preset frequency stands for; items saved before rules existed only have a frequency
+export function ruleFromFrequency(frequency: string | null | undefined): RecurrenceRule {
+  switch ((frequency || 'ONCE').toUpperCase()) {
+    case 'DAILY':
+      return { type: 'interval', unit: 'day', every: 1 };
+    case 'WEEKLY':
+      return { type: 'interval', unit: 'week', every: 1 };
+    case 'BIWEEKLY':
+      return { type: 'interval', unit: 'week', every: 2 };
+    case 'TWICE_MONTHLY':
+      return { type: 'monthDays', days: [1, 15], every: 1 };
+    case 'MONTHLY':
+      return { type: 'interval', unit: 'month', every: 1 };
+    case 'QUARTERLY':
+      return { type: 'interval', unit: 'month', every: 3 };
+    case 'SEMI_ANNUAL':
+      return { type: 'interval', unit: 'month', every: 6 };
+    case 'YEARLY':
+      return { type: 'interval', unit: 'year', every: 1 };
+    default:
+      return { type: 'once' };
+  }
+}
+
+export function recurrenceOf(item: { frequency: string; recurrence?: RecurrenceRule | null }): RecurrenceRule {
+  return item.recurrence ?? ruleFromFrequency(item.frequency);
+}
+
+// ======================
+// Expansion
+// ======================
+// All dates are noon UTC so they land on the same calendar day in every timezone
+const utcNoon = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day, 12, 0, 0));
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+const normalize = (date: Date) => utcNoon(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+// Walks every Nth month from the start's month, keeping the days picked within [start, end]
+function eachNthMonth(start: Date, end: Date, step: number, pickDays: (year: number, month: number) => number[]): Date[] {
+  const dates: Date[] = [];
+  for (let offset = 0; ; offset += step) {
+    const first = utcNoon(start.getUTCFullYear(), start.getUTCMonth() + offset, 1);
+    if (first > end) break;
+
+    const year = first.getUTCFullYear();
+    const month = first.getUTCMonth();
+    for (const day of pickDays(year, month)) {
+      const date = utcNoon(year, month, day);
+      if (date >= start && date <= end) dates.push(date);
+    }
+  }
+  return dates;
+}
+
+function nthWeekdayOf(year: number, month: number, nth: number, weekday: number): number {
+  if (nth === -1) {
+    const last = daysInMonth(year, month);
+    return last - ((utcNoon(year, month, last).getUTCDay() - weekday + 7) % 7);
+  }
+  return 1 + ((weekday - utcNoon(year, month, 1).getUTCDay() + 7) % 7) + (nth - 1) * 7;
+}
+
+function lastDayOf(year: number, month: number, businessDay: boolean): number {
+  let day = daysInMonth(year, month);
+  while (businessDay && [0, 6].includes(utcNoon(year, month, day).getUTCDay())) {
+    day--;
+  }
+  return day;
+}
+
+// Occurrence dates of a rule from startDate through endDate, in order
+export function expandRecurrence(rule: RecurrenceRule, startDate: Date, endDate: Date): Date[] {
+  const start = normalize(startDate);
+  const end = normalize(endDate);
+
+  switch (rule.type) {
+    case 'once':
+      return [start];
+
+    case 'interval': {
+      if (rule.unit === 'month' || rule.unit === 'year') {
+        const anchorDay = start.getUTCDate();
+        const step = rule.unit === 'year' ? rule.every * 12 : rule.every;
+        return eachNthMonth(start, end, step, (year, month) => [Math.min(anchorDay, daysInMonth(year, month))]);
+      }
+
+      const stepDays = rule.unit === 'week' ? rule.every * 7 : rule.every;
+      const dates: Date[] = [];
+      for (let date = start; date <= end; date = utcNoon(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + stepDays)) {
+        dates.push(date);
+      }
+      return dates;
+    }
+
+    case 'monthDays':
+      return eachNthMonth(start, end, rule.every, (year, month) => {
+        const clamped = rule.days.map((day) => Math.min(day, daysInMonth(year, month)));
+        return Array.from(new Set(clamped)).sort((a, b) => a - b);
+      });
+
+    case 'nthWeekday':
+      return eachNthMonth(start, end, rule.every, (year, month) => [nthWeekdayOf(year, month, rule.nth, rule.weekday)]);
+
+    case 'lastDay':
+      return eachNthMonth(start, end, rule.every, (year, month) => [lastDayOf(year, month, rule.businessDay)]);
+  }
+}
+
+// ======================
+// Descriptions
+// ======================
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+const everyMonths = (every: number) => (every === 1 ? 'every month' : `every ${every} months`);
+
+// "Every 2 weeks", "1st and 15th of every month", "Last business day of every 3 months"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.type) {
+    case 'once':
+      return 'Once';
+    case 'interval':
+      return rule.every === 1
+        ? { day: 'Daily', week: 'Weekly', month: 'Monthly', year: 'Yearly' }[rule.unit]
+        : `Every ${rule.every} ${rule.unit}s`;
+    case 'monthDays': {
+      const days = [...rule.days].sort((a, b) => a - b).map(ordinal);
+      const list = days.length > 1 ? `${days.slice(0, -1).join(', ')} and ${days[days.length - 1]}` : days[0];
+      return `${list} of ${everyMonths(rule.every)}`;
+    }
+    case 'nthWeekday':
+      return `${rule.nth === -1 ? 'Last' : ordinal(rule.nth)} ${WEEKDAYS[rule.weekday]} of ${everyMonths(rule.every)}`;
+    case 'lastDay':
+      return `Last ${rule.businessDay ? 'business day' : 'day'} of ${everyMonths(rule.every)}`;
+  }
+}
@@ -0,0 +1,604 @@
+import { jsPDF } from 'jspdf';
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import { toNoonUTC, type OccurrenceRow } from './occurrences';
+import type { Envelope } from './budgets';
+import type { SinkingFund } from './sinkingFunds';
+import type { Category } from './schema';
+import {
+  formatCurrency,
+  formatVariance,
+  formatVariancePercent,
+  reportSummary,
+  reportVariance,
+  type AnnualReport,
+  type CategoryReport,
+  type ItemReport,
+  type MonthReport,
+  type ReportSummary,
+  type ReportTotals,
+  type VarianceLine
+} from './reports';
+
+// ======================
+// Report Documents
+// ======================
+// A report laid out once as titled tables, then rendered to PDF or Excel: in the browser by
+// ReportModal and AnnualReportModal, and on the server by /api/reports/:type.pdf and .xlsx
+
+export const reportDocumentTypes = [
+  'summary', 'by-category', 'monthly', 'annual', 'monthly-budget', 'all-expenses', 'all-incomes', 'all-categories',
+  'single-expense', 'single-category', 'variance'
+] as const;
+export type ReportDocumentType = typeof reportDocumentTypes[number];
+
+type Tone = 'neutral' | 'income' | 'expense';
+
+// Section banner fill, title color and table header colors
+const TONES: Record<Tone, { fill: [number, number, number]; text: string; header: { bgColor: string; textColor: string } }> = {
+  neutral: { fill: [241, 245, 249], text: '#0f172a', header: { bgColor: '#f8fafc', textColor: '#0f172a' } },
+  income: { fill: [240, 253, 244], text: '#047857', header: { bgColor: '#f0fdf4', textColor: '#047857' } },
+  expense: { fill: [254, 242, 242], text: '#dc2626', header: { bgColor: '#fef2f2', textColor: '#dc2626' } },
+};
+
+const INCOME_COLOR = '#047857';
+const EXPENSE_COLOR = '#dc2626';
+const BALANCE_COLOR = '#2563eb';
+const TEXT_COLOR = '#334155';
+const HEADING_COLOR = '#0f172a';
+const SINKING_FUND_COLOR = '#9333ea';
+
+// Over plan shows red, under plan green
+export const varianceColor = (amount: number) => amount > 0 ? EXPENSE_COLOR : amount < 0 ? INCOME_COLOR : TEXT_COLOR;
+
+interface DocumentRow {
+  cells: (string | number)[];
+  color: string;
+  alternate?: boolean;
+}
+
+interface DocumentSection {
+  title: string;
+  tone: Tone;
+  headers: string[];
+  rows: DocumentRow[];
+  // Leading columns printed left-aligned; the rest are amounts
+  leftColumns: number;
+}
+
+export interface ReportDocument {
+  title: string;
+  subtitle: string;
+  generatedOn: Date;
+  // Without extension
+  fileName: string;
+  sheetName: string;
+  columnWidths: number[];
+  sections: DocumentSection[];
+}
+
+interface ReportRange {
+  from: Date;
+  to: Date;
+}
+
+const rangeText = (range: ReportRange) =>
+  `${format(toNoonUTC(range.from), 'MMMM dd, yyyy')} - ${format(toNoonUTC(range.to), 'MMMM dd, yyyy')}`;
+
+const rangeFileName = (name: string, range: ReportRange) => `${name}-${format(toNoonUTC(range.from), 'yyyy-MM-dd')}`;
+
+const TOTALS_HEADERS = ['Total', 'Paid', 'Overdue', 'Upcoming'];
+
+const totalsCells = (totals: ReportTotals) => [
+  formatCurrency(totals.total),
+  formatCurrency(totals.incurred),
+  formatCurrency(totals.overdue),
+  formatCurrency(totals.pending)
+];
+
+const summarySection = (summary: ReportSummary): DocumentSection => ({
+  title: 'Summary',
+  tone: 'neutral',
+  headers: ['Type', ...TOTALS_HEADERS],
+  rows: [
+    { cells: ['Income', ...totalsCells(summary.incomes)], color: INCOME_COLOR },
+    { cells: ['Expenses', ...totalsCells(summary.expenses)], color: EXPENSE_COLOR },
+    { cells: ['Balance', ...totalsCells(summary.balance)], color: BALANCE_COLOR, alternate: true },
+  ],
+  leftColumns: 1,
+});
+
+export function summaryDocument(summary: ReportSummary, range: ReportRange, generatedOn: Date = new Date()): ReportDocument {
+  return {
+    title: 'Budget Summary',
+    subtitle: rangeText(range),
+    generatedOn,
+    fileName: rangeFileName('summary-report', range),
+    sheetName: 'Summary',
+    columnWidths: [30, 15, 15, 15, 15],
+    sections: [summarySection(summary)],
+  };
+}
+
+const itemRows = (items: ItemReport[], color: string): DocumentRow[] => items.map((item, index) => ({
+  cells: [index + 1, item.name, ...totalsCells(item.totals)],
+  color,
+  alternate: index % 2 === 0,
+}));
+
+export function categoryDocument(categories: CategoryReport[], range: ReportRange, generatedOn: Date = new Date()): ReportDocument {
+  return {
+    title: 'Category-wise Report',
+    subtitle: rangeText(range),
+    generatedOn,
+    fileName: rangeFileName('category-report', range),
+    sheetName: 'Category Report',
+    columnWidths: [5, 30, 15, 15, 15, 15],
+    sections: [
+      {
+        title: 'Summary',
+        tone: 'neutral',
+        headers: ['Category', ...TOTALS_HEADERS],
+        rows: categories.map((group) => ({ cells: [group.category.name, ...totalsCells(group.totals)], color: group.category.color })),
+        leftColumns: 1,
+      },
+      ...categories.map((group): DocumentSection => ({
+        title: group.category.name,
+        tone: 'expense',
+        headers: ['#', 'Name', 'Total', 'Paid', 'Overdue', 'Upcoming'],
+        rows: [
+          ...itemRows(group.expenses, group.category.color),
+          { cells: ['', 'Subtotal', ...totalsCells(group.totals)], color: group.category.color },
+        ],
+        leftColumns: 2,
+      })),
+    ],
+  };
+}
+
+export function monthlyDocument(months: MonthReport[], range: ReportRange, generatedOn: Date = new Date()): ReportDocument {
+  return {
+    title: 'Monthly Report',
+    subtitle: rangeText(range),
+    generatedOn,
+    fileName: rangeFileName('monthly-report', range),
+    sheetName: 'Monthly Report',
+    columnWidths: [20, 15, 15, 15, 15],
+    sections: [{
+      title: 'Monthly Totals',
+      tone: 'neutral',
+      headers: ['Month', 'Income', 'Expenses', 'Balance', 'Paid Balance'],
+      rows: months.map((month, index) => ({
+        cells: [
+          format(toNoonUTC(`${month.month}-01`), 'MMMM yyyy'),
+          formatCurrency(month.incomes.total),
+          formatCurrency(month.expenses.total),
+          formatCurrency(month.balance.total),
+          formatCurrency(month.balance.incurred)
+        ],
+        color: month.balance.total < 0 ? EXPENSE_COLOR : TEXT_COLOR,
+        alternate: index % 2 === 0,
+      })),
+      leftColumns: 1,
+    }],
+  };
+}
+
+export function annualDocument(report: AnnualReport, title: string, generatedOn: Date = new Date()): ReportDocument {
+  return {
+    title,
+    subtitle: `Year ${report.year}`,
+    generatedOn,
+    fileName: `annual-report-${report.year}`,
+    sheetName: 'Annual Report',
+    columnWidths: [5, 40, 15, 15, 15, 15, 15],
+    sections: [
+      summarySection(report.totals),
+      {
+        title: 'Income Details',
+        tone: 'income',
+        headers: ['#', 'Name', 'Frequency', 'Total', 'Paid', 'Overdue', 'Upcoming'],
+        rows: report.incomes.items.map((income, index) => ({
+          cells: [index + 1, income.name, income.frequency, ...totalsCells(income.totals)],
+          color: INCOME_COLOR,
+          alternate: index % 2 === 0,
+        })),
+        leftColumns: 3,
+      },
+      ...report.expenses.map((group): DocumentSection => ({
+        title: `${group.frequency.charAt(0) + group.frequency.slice(1).toLowerCase()} Expenses`,
+        tone: 'expense',
+        headers: ['#', 'Name', 'Total', 'Paid', 'Overdue', 'Upcoming'],
+        rows: [
+          ...group.items.map((expense, index) => ({
+            cells: [index + 1, expense.name, ...totalsCells(expense.totals)],
+            color: EXPENSE_COLOR,
+            alternate: index % 2 === 0,
+          })),
+          { cells: ['', 'Subtotal', ...totalsCells(group.totals)], color: EXPENSE_COLOR },
+        ],
+        leftColumns: 2,
+      })),
+    ],
+  };
+}
+
+// A category budget's envelope with the category it belongs to, when that still exists
+export type ReportEnvelope = Envelope & { category?: Pick<Category, 'name' | 'color'> };
+
+// What ReportModal's reports are built from: the period's occurrences, and for a single month
+// the envelope of every category budget and every sinking fund as of that month
+export interface LedgerSources {
+  rows: OccurrenceRow[];
+  envelopes: ReportEnvelope[];
+  sinkingFunds: SinkingFund[];
+}
+
+// A period's totals, envelopes and sinking funds, then what was settled and what is still due
+export interface LedgerReport extends LedgerSources {
+  title: string;
+  range: ReportRange;
+  // Without extension or date
+  fileName: string;
+  sheetName: string;
+  // Expense-only reports leave out the income and balance lines
+  incomes: boolean;
+  // Labels and colors the expenses of a single-category report
+  category?: Pick<Category, 'name' | 'color'>;
+}
+
+const occurrenceAmount = (row: OccurrenceRow) => Number(row.settlement?.amount ?? row.amount);
+
+// Due date of an unsettled occurrence, flagging the ones past due
+const dueLabel = (row: OccurrenceRow) =>
+  `${format(toNoonUTC(row.date), 'MMM dd')}${row.status === 'overdue' ? ' (overdue)' : ''}`;
+
+function ledgerSummarySections(report: LedgerReport): DocumentSection[] {
+  const summary = reportSummary(report.rows);
+  const sections: DocumentSection[] = [report.incomes ? summarySection(summary) : {
+    title: 'Summary',
+    tone: 'neutral',
+    headers: [report.category ? 'Category' : 'Type', ...TOTALS_HEADERS],
+    rows: [{ cells: [report.category?.name ?? 'Expenses', ...totalsCells(summary.expenses)], color: report.category?.color ?? EXPENSE_COLOR }],
+    leftColumns: 1,
+  }];
+  if (report.envelopes.length > 0) {
+    sections.push({
+      title: 'Envelopes',
+      tone: 'neutral',
+      headers: ['Category', 'Starting', 'Allocated', 'Spent', 'Ending'],
+      rows: report.envelopes.map((envelope, index) => ({
+        cells: [
+          envelope.category?.name ?? 'Category',
+          formatCurrency(envelope.starting),
+          formatCurrency(envelope.allocation),
+          formatCurrency(envelope.spending),
+          formatCurrency(envelope.ending)
+        ],
+        color: envelope.ending < 0 ? EXPENSE_COLOR : envelope.category?.color ?? TEXT_COLOR,
+        alternate: index % 2 === 0,
+      })),
+      leftColumns: 1,
+    });
+  }
+  if (report.sinkingFunds.length > 0) {
+    sections.push({
+      title: 'Sinking Funds',
+      tone: 'neutral',
+      headers: ['Expense', 'Set Aside', 'Fund Balance', 'Due', 'Due Date'],
+      rows: report.sinkingFunds.map((fund, index) => ({
+        cells: [
+          fund.expense.name,
+          formatCurrency(fund.setAside),
+          formatCurrency(fund.balance),
+          formatCurrency(fund.dueAmount),
+          format(toNoonUTC(fund.dueDate), 'MMM d, yyyy')
+        ],
+        color: SINKING_FUND_COLOR,
+        alternate: index % 2 === 0,
+      })),
+      leftColumns: 1,
+    });
+  }
+  return sections;
+}
+
+// One table row per occurrence, numbered within its item, items in the order they first occur
+function occurrenceRows(rows: OccurrenceRow[], color: string, dateOf: (row: OccurrenceRow) => string): DocumentRow[] {
+  const byItem = new Map<number, OccurrenceRow[]>();
+  rows.forEach((row) => byItem.set(row.itemId, [...(byItem.get(row.itemId) ?? []), row]));
+  return Array.from(byItem.values())
+    .flatMap((itemRows) => itemRows.map((row, index) => [String(index + 1), row.name, formatCurrency(occurrenceAmount(row)), dateOf(row)]))
+    .map((cells, index) => ({ cells, color, alternate: index % 2 === 0 }));
+}
+
+function ledgerDocumentOf(report: LedgerReport, sections: DocumentSection[], generatedOn: Date): ReportDocument {
+  return {
+    title: report.title,
+    subtitle: rangeText(report.range),
+    generatedOn,
+    fileName: rangeFileName(report.fileName, report.range),
+    sheetName: report.sheetName,
+    columnWidths: [30, 30, 15, 15, 15],
+    sections: [...ledgerSummarySections(report), ...sections],
+  };
+}
+
+export function ledgerDocument(report: LedgerReport, generatedOn: Date = new Date()): ReportDocument {
+  const expenseColor = report.category?.color ?? EXPENSE_COLOR;
+  const incomes = report.incomes ? report.rows.filter((row) => row.kind === 'income') : [];
+  const expenses = report.rows.filter((row) => row.kind === 'expense');
+  const occurrenceSection = (title: string, tone: Tone, rows: DocumentRow[], dateHeader: string): DocumentSection[] =>
+    rows.length === 0 ? [] : [{ title, tone, headers: ['#', 'Name', 'Amount', dateHeader], rows, leftColumns: 2 }];
+  const formatDay = (row: OccurrenceRow) => format(toNoonUTC(row.date), 'MMM dd');
+
+  return ledgerDocumentOf(report, [
+    ...occurrenceSection('Received Income', 'income', occurrenceRows(incomes.filter((row) => row.status === 'paid'), INCOME_COLOR, formatDay), 'Date'),
+    ...occurrenceSection('Paid Expenses', 'expense', occurrenceRows(expenses.filter((row) => row.status === 'paid'), expenseColor, formatDay), 'Date'),
+    ...occurrenceSection('Income Not Yet Received', 'income', occurrenceRows(incomes.filter((row) => row.status !== 'paid'), INCOME_COLOR, dueLabel), 'Due Date'),
+    ...occurrenceSection('Unpaid Expenses', 'expense', occurrenceRows(expenses.filter((row) => row.status !== 'paid'), expenseColor, dueLabel), 'Due Date'),
+  ], generatedOn);
+}
+
+// The whole month: every income and expense, envelope and sinking fund
+export function monthlyBudgetDocument(sources: LedgerSources, range: ReportRange, generatedOn: Date = new Date()): ReportDocument {
+  return ledgerDocument({
+    ...sources,
+    title: 'Monthly Budget',
+    range,
+    fileName: 'monthly-budget',
+    sheetName: 'Monthly Budget',
+    incomes: true,
+  }, generatedOn);
+}
+
+// Every expense, with the month's envelopes and sinking funds
+export function allExpensesDocument(sources: LedgerSources, range: ReportRange, generatedOn: Date = new Date()): ReportDocument {
+  return ledgerDocument({
+    ...sources,
+    rows: sources.rows.filter((row) => row.kind === 'expense'),
+    title: 'All Expenses Report',
+    range,
+    fileName: 'expense-report',
+    sheetName: 'Expense Report',
+    incomes: false,
+  }, generatedOn);
+}
+
+// Envelopes and sinking funds are about spending, so an income report leaves them out
+export function allIncomesDocument(sources: LedgerSources, range: ReportRange, generatedOn: Date = new Date()): ReportDocument {
+  return ledgerDocument({
+    rows: sources.rows.filter((row) => row.kind === 'income'),
+    envelopes: [],
+    sinkingFunds: [],
+    title: 'All Incomes Report',
+    range,
+    fileName: 'income-report',
+    sheetName: 'Income Report',
+    incomes: true,
+  }, generatedOn);
+}
+
+// The category-wise report downloads as the expense ledger under its own title
+export function allCategoriesDocument(sources: LedgerSources, range: ReportRange, generatedOn: Date = new Date()): ReportDocument {
+  return ledgerDocument({
+    ...sources,
+    rows: sources.rows.filter((row) => row.kind === 'expense'),
+    title: 'Category-wise Report',
+    range,
+    fileName: 'category-report',
+    sheetName: 'Category Report',
+    incomes: false,
+  }, generatedOn);
+}
+
+export function singleExpenseDocument(
+  sources: LedgerSources,
+  expense: { id: number; name: string },
+  range: ReportRange,
+  generatedOn: Date = new Date()
+): ReportDocument {
+  return ledgerDocument({
+    rows: sources.rows.filter((row) => row.kind === 'expense' && row.itemId === expense.id),
+    envelopes: [],
+    sinkingFunds: sources.sinkingFunds.filter((fund) => fund.expense.id === expense.id),
+    title: `Single Expense Report - ${expense.name}`,
+    range,
+    fileName: 'expense-report',
+    sheetName: 'Expense Report',
+    incomes: false,
+  }, generatedOn);
+}
+
+export function singleCategoryDocument(
+  sources: LedgerSources,
+  category: Pick<Category, 'id' | 'name' | 'color'>,
+  range: ReportRange,
+  generatedOn: Date = new Date()
+): ReportDocument {
+  return ledgerDocument({
+    rows: sources.rows.filter((row) => row.kind === 'expense' && row.category?.id === category.id),
+    envelopes: sources.envelopes.filter((envelope) => envelope.budget.categoryId === category.id),
+    sinkingFunds: sources.sinkingFunds.filter((fund) => fund.expense.categoryId === category.id),
+    title: `Category Report - ${category.name}`,
+    range,
+    fileName: `category-${category.name.toLowerCase()}-report`,
+    // Sheet names are limited to 31 characters
+    sheetName: `Category - ${category.name}`.slice(0, 31),
+    incomes: false,
+    category,
+  }, generatedOn);
+}
+
+const VARIANCE_HEADERS = ['Expense', 'Planned', 'Actual', 'Difference', '%', 'Running', 'Pending', 'Recorded'];
+
+const varianceCells = (line: VarianceLine) => [
+  line.name,
+  formatCurrency(line.planned),
+  formatCurrency(line.actual),
+  formatVariance(line.difference),
+  formatVariancePercent(line.percent),
+  formatVariance(line.runningVariance),
+  formatCurrency(line.pending),
+  `${line.recorded} of ${line.occurrences}`
+];
+
+// Planned vs actual for every expense in place of the settled and unsettled lists
+export function varianceDocument(sources: LedgerSources, range: ReportRange, generatedOn: Date = new Date()): ReportDocument {
+  const rows = sources.rows.filter((row) => row.kind === 'expense');
+  const variance = reportVariance(rows);
+  return {
+    ...ledgerDocumentOf({
+      ...sources,
+      rows,
+      title: 'Planned vs Actual Report',
+      range,
+      fileName: 'planned-vs-actual',
+      sheetName: 'Planned vs Actual',
+      incomes: false,
+    }, [
+      ...variance.groups.map((group): DocumentSection => ({
+        title: group.category.name,
+        tone: 'neutral',
+        headers: VARIANCE_HEADERS,
+        rows: [
+          ...group.lines.map((line, index) => ({
+            cells: varianceCells(line),
+            color: varianceColor(line.difference),
+            alternate: index % 2 === 0,
+          })),
+          { cells: varianceCells(group.total), color: HEADING_COLOR, alternate: true },
+        ],
+        leftColumns: 1,
+      })),
+      {
+        title: 'Total',
+        tone: 'neutral',
+        headers: VARIANCE_HEADERS,
+        rows: [{ cells: varianceCells(variance.total), color: varianceColor(variance.total.difference), alternate: true }],
+        leftColumns: 1,
+      },
+    ], generatedOn),
+    columnWidths: [30, 15, 15, 15, 10, 15, 15, 10],
+  };
+}
+
+const hexToRgb = (hex: string) => {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result ? {
+    r: parseInt(result[1], 16),
+    g: parseInt(result[2], 16),
+    b: parseInt(result[3], 16)
+  } : { r: 0, g: 0, b: 0 };
+};
+
+const addTableHeader = (doc: jsPDF, section: DocumentSection, y: number): number => {
+  const options = TONES[section.tone].header;
+  const fill = hexToRgb(options.bgColor);
+  doc.setFillColor(fill.r, fill.g, fill.b);
+  doc.rect(15, y - 5, 180, 10, 'F');
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(10);
+  doc.setTextColor(options.textColor);
+
+  const colWidth = 180 / section.headers.length;
+  section.headers.forEach((header, index) => {
+    const x = 15 + (index * colWidth);
+    const align = index < section.leftColumns ? "left" : "right";
+    doc.text(header, align === "left" ? x + 2 : x + colWidth - 2, y, { align });
+  });
+
+  return y + 10;
+};
+
+const addTableRow = (doc: jsPDF, row: DocumentRow, y: number, leftColumns: number): number => {
+  if (row.alternate) {
+    doc.setFillColor(250, 250, 250);
+    doc.rect(15, y - 5, 180, 8, 'F');
+  }
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  const color = hexToRgb(row.color);
+  doc.setTextColor(color.r, color.g, color.b);
+
+  const colWidth = 180 / row.cells.length;
+  row.cells.forEach((cell, index) => {
+    const x = 15 + (index * colWidth);
+    const align = index < leftColumns ? "left" : "right";
+    doc.text(String(cell), align === "left" ? x + 2 : x + colWidth - 2, y, { align });
+  });
+
+  return y + 8;
+};
+
+export function renderPdf(report: ReportDocument): jsPDF {
+  const doc = new jsPDF();
+  let y = 25;
+
+  doc.setFontSize(20);
+  doc.setFont("helvetica", "bold");
+  doc.setTextColor("#0f172a");
+  doc.text(report.title, 15, y);
+  y += 10;
+
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "normal");
+  doc.setTextColor("#475569");
+  doc.text(report.subtitle, 15, y);
+  y += 8;
+
+  doc.setFontSize(10);
+  doc.text(`Generated on ${format(report.generatedOn, 'MMMM dd, yyyy')}`, 15, y);
+  y += 20;
+
+  report.sections.forEach((section) => {
+    if (y > 240) {
+      doc.addPage();
+      y = 20;
+    }
+
+    const tone = TONES[section.tone];
+    doc.setFillColor(...tone.fill);
+    doc.rect(15, y - 5, 180, 10, 'F');
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(14);
+    doc.setTextColor(tone.text);
+    doc.text(section.title, 15, y);
+    y += 15;
+
+    y = addTableHeader(doc, section, y);
+    section.rows.forEach((row) => {
+      // Repeat the header on every page the table spills onto
+      if (y > 270) {
+        doc.addPage();
+        y = 20;
+        y = addTableHeader(doc, section, y);
+      }
+      y = addTableRow(doc, row, y, section.leftColumns);
+    });
+    y += 15;
+  });
+
+  return doc;
+}
+
+export function renderWorkbook(report: ReportDocument): XLSX.WorkBook {
+  const rows: (string | number)[][] = [
+    [report.title],
+    [report.subtitle],
+    [`Generated on: ${format(report.generatedOn, 'MMMM dd, yyyy')}`],
+    []
+  ];
+  report.sections.forEach((section) => {
+    rows.push([section.title], section.headers, ...section.rows.map((row) => row.cells), []);
+  });
+
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  ws['!cols'] = report.columnWidths.map((wch) => ({ wch }));
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, report.sheetName);
+  return wb;
+}
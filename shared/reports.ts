@@ -0,0 +1,268 @@
+import { z } from 'zod';
+import type { OccurrenceQuery, OccurrenceRow } from './occurrences';
+import type { Expense, Income } from './schema';
+
+// ======================
+// Report Aggregation
+// ======================
+// The figures ReportModal and AnnualReportModal show, computed from expanded occurrences
+// for /api/reports/*
+
+export const reportQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  type: z.enum(['expense', 'income']).optional(),
+  categoryId: z.coerce.number().int().optional(),
+  // A single expense, as the single-expense report shows
+  expenseId: z.coerce.number().int().optional(),
+  accountId: z.coerce.number().int().optional()
+}).refine((query) => query.from <= query.to, { message: 'from must be on or before to' });
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+
+// Amounts as every report prints them
+export function formatCurrency(amount: number, withSymbol: boolean = false): string {
+  return new Intl.NumberFormat('en-US', {
+    style: withSymbol ? 'currency' : 'decimal',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+// Over plan is positive
+export const formatVariance = (amount: number) => `${amount > 0 ? '+' : ''}${formatCurrency(amount)}`;
+export const formatVariancePercent = (percent: number | null) =>
+  percent === null ? '-' : `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+
+export const annualReportQuerySchema = z.object({
+  year: z.coerce.number().int().min(1900).max(9999),
+  accountId: z.coerce.number().int().optional()
+});
+export type AnnualReportQuery = z.infer<typeof annualReportQuerySchema>;
+
+// The occurrences a report needs; a single expense narrows it to expenses
+export function occurrenceQueryOf({ expenseId, ...query }: ReportQuery): OccurrenceQuery {
+  return expenseId === undefined ? query : { ...query, type: 'expense' };
+}
+
+export function reportRows(rows: OccurrenceRow[], query: ReportQuery): OccurrenceRow[] {
+  return query.expenseId === undefined ? rows : rows.filter((row) => row.itemId === query.expenseId);
+}
+
+// Incurred is what the ledger settled, at the amount recorded; overdue and pending are
+// unsettled occurrences at their planned amount
+export interface ReportTotals {
+  incurred: number;
+  overdue: number;
+  pending: number;
+  total: number;
+}
+
+export function totalsOf(rows: OccurrenceRow[]): ReportTotals {
+  const totals = { incurred: 0, overdue: 0, pending: 0, total: 0 };
+  rows.forEach((row) => {
+    if (row.status === 'paid') totals.incurred += Number(row.settlement?.amount ?? row.amount);
+    else if (row.status === 'overdue') totals.overdue += row.amount;
+    else totals.pending += row.amount;
+  });
+  totals.total = totals.incurred + totals.overdue + totals.pending;
+  return totals;
+}
+
+const balanceOf = (incomes: ReportTotals, expenses: ReportTotals): ReportTotals => ({
+  incurred: incomes.incurred - expenses.incurred,
+  overdue: incomes.overdue - expenses.overdue,
+  pending: incomes.pending - expenses.pending,
+  total: incomes.total - expenses.total,
+});
+
+export interface ReportSummary {
+  incomes: ReportTotals;
+  expenses: ReportTotals;
+  balance: ReportTotals;
+}
+
+export function reportSummary(rows: OccurrenceRow[]): ReportSummary {
+  const incomes = totalsOf(rows.filter((row) => row.kind === 'income'));
+  const expenses = totalsOf(rows.filter((row) => row.kind === 'expense'));
+  return { incomes, expenses, balance: balanceOf(incomes, expenses) };
+}
+
+export interface ItemReport {
+  itemId: number;
+  name: string;
+  occurrences: number;
+  totals: ReportTotals;
+}
+
+// Per item in the order each first occurs
+function itemsOf(rows: OccurrenceRow[]): ItemReport[] {
+  const byItem = new Map<number, OccurrenceRow[]>();
+  rows.forEach((row) => byItem.set(row.itemId, [...(byItem.get(row.itemId) ?? []), row]));
+  return Array.from(byItem.values()).map((itemRows) => ({
+    itemId: itemRows[0].itemId,
+    name: itemRows[0].name,
+    occurrences: itemRows.length,
+    totals: totalsOf(itemRows),
+  }));
+}
+
+export interface CategoryReport {
+  category: NonNullable<OccurrenceRow['category']>;
+  expenses: ItemReport[];
+  totals: ReportTotals;
+}
+
+// Expenses grouped by category, largest total first; incomes have no category
+export function reportByCategory(rows: OccurrenceRow[]): CategoryReport[] {
+  const byCategory = new Map<number, OccurrenceRow[]>();
+  rows.forEach((row) => {
+    if (row.kind !== 'expense' || !row.category) return;
+    byCategory.set(row.category.id, [...(byCategory.get(row.category.id) ?? []), row]);
+  });
+  return Array.from(byCategory.values())
+    .map((categoryRows) => ({
+      category: categoryRows[0].category!,
+      expenses: itemsOf(categoryRows),
+      totals: totalsOf(categoryRows),
+    }))
+    .sort((a, b) => b.totals.total - a.totals.total);
+}
+
+// Planned vs actual for one expense or category, over the occurrences the ledger recorded.
+// Occurrences not recorded yet are pending at their planned amount rather than counting as
+// nothing spent.
+export interface VarianceLine {
+  name: string;
+  planned: number;
+  actual: number;
+  difference: number;
+  percent: number | null;
+  pending: number;
+  recorded: number;
+  occurrences: number;
+  // Difference accumulated over the report up to and including this line
+  runningVariance: number;
+}
+
+export interface VarianceGroup {
+  category: NonNullable<OccurrenceRow['category']>;
+  lines: (VarianceLine & { itemId: number })[];
+  total: VarianceLine;
+}
+
+export interface VarianceReport {
+  groups: VarianceGroup[];
+  total: VarianceLine;
+}
+
+function varianceLine(name: string, rows: OccurrenceRow[], runningBefore: number): VarianceLine {
+  const recorded = rows.filter((row) => row.status === 'paid');
+  const planned = recorded.reduce((sum, row) => sum + row.amount, 0);
+  const actual = recorded.reduce((sum, row) => sum + Number(row.settlement?.amount ?? row.amount), 0);
+  const difference = actual - planned;
+  return {
+    name,
+    planned,
+    actual,
+    difference,
+    percent: planned === 0 ? null : (difference / planned) * 100,
+    pending: rows.filter((row) => row.status !== 'paid').reduce((sum, row) => sum + row.amount, 0),
+    recorded: recorded.length,
+    occurrences: rows.length,
+    runningVariance: runningBefore + difference,
+  };
+}
+
+// Planned vs actual by category, then expense, with the variance running down the report
+export function reportVariance(rows: OccurrenceRow[]): VarianceReport {
+  const expenses = rows.filter((row) => row.kind === 'expense');
+  let running = 0;
+  const groups = reportByCategory(expenses).map((group) => {
+    const categoryRows = expenses.filter((row) => row.category?.id === group.category.id);
+    const lines = group.expenses.map((item) => {
+      const line = varianceLine(item.name, categoryRows.filter((row) => row.itemId === item.itemId), running);
+      running = line.runningVariance;
+      return { ...line, itemId: item.itemId };
+    });
+    return { category: group.category, lines, total: { ...varianceLine(group.category.name, categoryRows, 0), runningVariance: running } };
+  });
+  return { groups, total: { ...varianceLine('Total', expenses, 0), runningVariance: running } };
+}
+
+export interface MonthReport extends ReportSummary {
+  // 'yyyy-MM'
+  month: string;
+}
+
+// One summary per calendar month between from and to, including months with nothing in them
+export function reportMonthly(rows: OccurrenceRow[], query: Pick<ReportQuery, 'from' | 'to'>): MonthReport[] {
+  const last = query.to.toISOString().slice(0, 7);
+  const months: MonthReport[] = [];
+  const cursor = new Date(Date.UTC(query.from.getUTCFullYear(), query.from.getUTCMonth(), 1));
+  for (; cursor.toISOString().slice(0, 7) <= last; cursor.setUTCMonth(cursor.getUTCMonth() + 1)) {
+    const month = cursor.toISOString().slice(0, 7);
+    months.push({ month, ...reportSummary(rows.filter((row) => row.date.startsWith(month))) });
+  }
+  return months;
+}
+
+// Split by the ledger the same way as the range reports
+export interface AnnualItem {
+  itemId: number;
+  name: string;
+  frequency: string;
+  totals: ReportTotals;
+}
+
+export interface AnnualReport {
+  year: number;
+  incomes: { items: AnnualItem[]; totals: ReportTotals };
+  // Grouped by frequency, e.g. MONTHLY, as the annual report lists them
+  expenses: { frequency: string; items: AnnualItem[]; totals: ReportTotals }[];
+  totals: ReportSummary;
+}
+
+const sumTotals = (totals: ReportTotals[]): ReportTotals => ({
+  incurred: totals.reduce((sum, total) => sum + total.incurred, 0),
+  overdue: totals.reduce((sum, total) => sum + total.overdue, 0),
+  pending: totals.reduce((sum, total) => sum + total.pending, 0),
+  total: totals.reduce((sum, total) => sum + total.total, 0),
+});
+
+// rows are the year's occurrences; items keep the order of the expense and income lists
+export function reportAnnual(
+  rows: OccurrenceRow[],
+  items: { expenses: Expense[]; incomes: Income[] },
+  year: number
+): AnnualReport {
+  const annualItems = (kind: OccurrenceRow['kind'], list: (Expense | Income)[]): AnnualItem[] => list
+    .map((item) => ({
+      itemId: item.id,
+      name: item.name,
+      frequency: item.frequency,
+      totals: totalsOf(rows.filter((row) => row.kind === kind && row.itemId === item.id)),
+    }))
+    .filter((item) => item.totals.total > 0);
+
+  const incomeItems = annualItems('income', items.incomes);
+  const expenseGroups = new Map<string, AnnualItem[]>();
+  annualItems('expense', items.expenses).forEach((item) => {
+    const frequency = item.frequency.toUpperCase();
+    expenseGroups.set(frequency, [...(expenseGroups.get(frequency) ?? []), item]);
+  });
+  const expenses = Array.from(expenseGroups, ([frequency, groupItems]) => ({
+    frequency,
+    items: groupItems,
+    totals: sumTotals(groupItems.map((item) => item.totals)),
+  }));
+
+  const incomeTotals = sumTotals(incomeItems.map((item) => item.totals));
+  const expenseTotals = sumTotals(expenses.map((group) => group.totals));
+  return {
+    year,
+    incomes: { items: incomeItems, totals: incomeTotals },
+    expenses,
+    totals: { incomes: incomeTotals, expenses: expenseTotals, balance: balanceOf(incomeTotals, expenseTotals) },
+  };
+}
@@ -1,25 +1,115 @@
-import { pgTable, serial, varchar, decimal, date } from 'drizzle-orm/pg-core';
+import { pgTable, serial, varchar, decimal, date, integer, jsonb, boolean, unique } from 'drizzle-orm/pg-core';
 import { z } from 'zod';
+import { recurrenceRuleSchema, type RecurrenceRule } from './recurrence';
+import { amountScheduleSchema, type AmountSchedule } from './amountSchedule';
 
 // ======================
 // Frequency Types
 // ======================
+// Presets offered by the forms; CUSTOM items carry a hand-built recurrence rule
 export const FrequencyType = z.enum([
   'DAILY',
   'WEEKLY',
   'BIWEEKLY',
+  'TWICE_MONTHLY',
   'MONTHLY',
   'QUARTERLY',
+  'SEMI_ANNUAL',
   'YEARLY',
-  'ONE_TIME'
+  'ONCE',
+  'CUSTOM'
 ]);
 export type Frequency = z.infer<typeof FrequencyType>;
 
+// ======================
+// Household Roles
+// ======================
+// Ordered from least to most privileged
+export const HouseholdRole = z.enum(['viewer', 'editor', 'owner']);
+export type HouseholdRoleType = z.infer<typeof HouseholdRole>;
+
+// ======================
+// Budget Periods
+// ======================
+// How long a category budget's limit lasts; each period starts on the first of its month
+export const BudgetPeriod = z.enum(['MONTHLY', 'QUARTERLY', 'YEARLY']);
+export type BudgetPeriodType = z.infer<typeof BudgetPeriod>;
+
+// What a category budget carries into its next period: nothing, only what was left
+// unspent, or the overspending as well
+export const RolloverPolicy = z.enum(['NONE', 'SURPLUS', 'BOTH']);
+export type RolloverPolicyType = z.infer<typeof RolloverPolicy>;
+
+// ======================
+// Allocation Targets
+// ======================
+// Where a zero-based month assigns its expected income: a category, savings or a buffer
+export const AllocationTarget = z.enum(['CATEGORY', 'SAVINGS', 'BUFFER']);
+export type AllocationTargetType = z.infer<typeof AllocationTarget>;
+
+// ======================
+// Debt Strategies
+// ======================
+// Where a household's extra debt payments go: each debt keeps its own (NONE), or they are
+// pooled with the minimums of paid-off debts and sent to the smallest balance (SNOWBALL) or
+// the highest rate (AVALANCHE)
+export const DebtStrategy = z.enum(['NONE', 'SNOWBALL', 'AVALANCHE']);
+export type DebtStrategyType = z.infer<typeof DebtStrategy>;
+
+// ======================
+// Account Types
+// ======================
+export const AccountType = z.enum(['CHECKING', 'SAVINGS', 'CREDIT_CARD', 'CASH']);
+export type AccountTypeType = z.infer<typeof AccountType>;
+
 // ======================
 // Database Tables
 // ======================
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: varchar("username", { length: 50 }).notNull().unique(),
+  password: varchar("password", { length: 255 }).notNull(),
+  createdAt: date("created_at").defaultNow(),
+  updatedAt: date("updated_at").defaultNow()
+});
+
+export const households = pgTable("households", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  // Every month's expected income must be assigned before the month can be closed
+  zeroBased: boolean("zero_based").default(false).notNull(),
+  debtStrategy: varchar("debt_strategy", { length: 20 }).default('NONE').notNull(),
+  // Cash-flow forecast: the balance on hand before startingBalanceDate's occurrences, and the
+  // projected balance below which a day is flagged
+  startingBalance: decimal("starting_balance", { precision: 12, scale: 2 }),
+  startingBalanceDate: date("starting_balance_date"),
+  lowBalanceThreshold: decimal("low_balance_threshold", { precision: 12, scale: 2 }).default('0').notNull(),
+  createdAt: date("created_at").defaultNow(),
+  updatedAt: date("updated_at").defaultNow()
+});
+
+export const householdMembers = pgTable("household_members", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  role: varchar("role", { length: 20 }).notNull(),
+  createdAt: date("created_at").defaultNow()
+}, (table) => [unique().on(table.householdId, table.userId)]);
+
+export const householdInvitations = pgTable("household_invitations", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  username: varchar("username", { length: 50 }).notNull(),
+  role: varchar("role", { length: 20 }).notNull(),
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  createdAt: date("created_at").defaultNow()
+}, (table) => [unique().on(table.householdId, table.username)]);
+
 export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  // Member who created the row; the household owns it
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
   name: varchar("name", { length: 100 }).notNull(),
   color: varchar("color", { length: 7 }).notNull(),
   icon: varchar("icon", { length: 50 }).notNull(),
@@ -27,34 +117,202 @@ export const categories = pgTable("categories", {
   updatedAt: date("updated_at").defaultNow()
 });
 
+// Where money is paid from or into. The opening balance is what the account held before
+// openingDate's occurrences; a credit card's is negative while it carries a balance.
+export const accounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  name: varchar("name", { length: 100 }).notNull(),
+  type: varchar("type", { length: 20 }).notNull(),
+  openingBalance: decimal("opening_balance", { precision: 12, scale: 2 }).default('0').notNull(),
+  openingDate: date("opening_date").notNull(),
+  // ISO 4217 code
+  currency: varchar("currency", { length: 3 }).default('USD').notNull(),
+  createdAt: date("created_at").defaultNow(),
+  updatedAt: date("updated_at").defaultNow()
+});
+
+// Something to save toward, like a car down payment. Balance is what was saved before tracking
+// started; paid contributions (expenses linked by goalId) add to it.
+export const goals = pgTable("goals", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  name: varchar("name", { length: 100 }).notNull(),
+  targetAmount: decimal("target_amount", { precision: 12, scale: 2 }).notNull(),
+  targetDate: date("target_date").notNull(),
+  balance: decimal("balance", { precision: 12, scale: 2 }).default('0').notNull(),
+  color: varchar("color", { length: 7 }).notNull(),
+  createdAt: date("created_at").defaultNow(),
+  updatedAt: date("updated_at").defaultNow()
+});
+
 export const expenses = pgTable("expenses", {
   id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
   name: varchar("name", { length: 100 }).notNull(),
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
   date: date("date").notNull(),
   frequency: varchar("frequency", { length: 20 }).notNull(),
+  // The structured rule behind the frequency; rows without one fall back to ruleFromFrequency()
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>(),
+  // Optional limits on a recurring expense: the last possible date and/or the number of payments
+  endDate: date("end_date"),
+  occurrenceCount: integer("occurrence_count"),
+  // Seasonal and effective-dated amounts; rows without one always cost `amount`
+  amountSchedule: jsonb("amount_schedule").$type<AmountSchedule>(),
   categoryId: serial("category_id").references(() => categories.id).notNull(),
+  // Set on contributions: paying the expense adds to the goal's balance
+  goalId: integer("goal_id").references(() => goals.id, { onDelete: 'set null' }),
+  // Save toward each occurrence monthly instead of paying it out of a single month
+  sinkingFund: boolean("sinking_fund").default(false).notNull(),
+  accountId: integer("account_id").references(() => accounts.id, { onDelete: 'set null' }),
+  createdAt: date("created_at").defaultNow(),
+  updatedAt: date("updated_at").defaultNow()
+});
+
+// A loan or card paid down monthly. Its payments are generated as expenseId, a monthly
+// expense that follows the amortization schedule and ends when the balance reaches zero.
+export const debts = pgTable("debts", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
+  name: varchar("name", { length: 100 }).notNull(),
+  // Owed just before the first payment
+  principal: decimal("principal", { precision: 12, scale: 2 }).notNull(),
+  // Annual percentage rate, e.g. 19.99
+  apr: decimal("apr", { precision: 5, scale: 2 }).notNull(),
+  minimumPayment: decimal("minimum_payment", { precision: 12, scale: 2 }).notNull(),
+  extraPayment: decimal("extra_payment", { precision: 12, scale: 2 }).default('0').notNull(),
+  firstPaymentDate: date("first_payment_date").notNull(),
+  categoryId: integer("category_id").references(() => categories.id).notNull(),
+  expenseId: integer("expense_id").references(() => expenses.id, { onDelete: 'set null' }),
   createdAt: date("created_at").defaultNow(),
   updatedAt: date("updated_at").defaultNow()
 });
 
 export const incomes = pgTable("incomes", {
   id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: 'set null' }),
   name: varchar("name", { length: 100 }).notNull(),
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
   date: date("date").notNull(),
   frequency: varchar("frequency", { length: 20 }).notNull(),
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>(),
+  endDate: date("end_date"),
+  occurrenceCount: integer("occurrence_count"),
+  amountSchedule: jsonb("amount_schedule").$type<AmountSchedule>(),
   source: varchar("source", { length: 50 }),
+  accountId: integer("account_id").references(() => accounts.id, { onDelete: 'set null' }),
   createdAt: date("created_at").defaultNow(),
   updatedAt: date("updated_at").defaultNow()
 });
 
+// A change to one occurrence of a recurring expense or income, found by the date the
+// series would have put it on. Exactly one of expenseId and incomeId is set.
+export const occurrenceOverrides = pgTable("occurrence_overrides", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  expenseId: integer("expense_id").references(() => expenses.id, { onDelete: 'cascade' }),
+  incomeId: integer("income_id").references(() => incomes.id, { onDelete: 'cascade' }),
+  originalDate: date("original_date").notNull(),
+  skipped: boolean("skipped").notNull().default(false),
+  // Null keeps the series' date or amount
+  date: date("date"),
+  amount: decimal("amount", { precision: 12, scale: 2 })
+}, (table) => [unique().on(table.expenseId, table.originalDate), unique().on(table.incomeId, table.originalDate)]);
+
+// The amount, amount schedule, recurrence and start date an expense or income had before a change took effect.
+// Occurrences before effectiveDate are computed with these values; see versionsOf() in history.ts
+export const itemChanges = pgTable("item_changes", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  expenseId: integer("expense_id").references(() => expenses.id, { onDelete: 'cascade' }),
+  incomeId: integer("income_id").references(() => incomes.id, { onDelete: 'cascade' }),
+  effectiveDate: date("effective_date").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  date: date("date").notNull(),
+  frequency: varchar("frequency", { length: 20 }).notNull(),
+  recurrence: jsonb("recurrence").$type<RecurrenceRule>(),
+  amountSchedule: jsonb("amount_schedule").$type<AmountSchedule>(),
+  createdAt: date("created_at").defaultNow()
+}, (table) => [unique().on(table.expenseId, table.effectiveDate), unique().on(table.incomeId, table.effectiveDate)]);
+
+// What was actually paid or received, settling one occurrence of an expense or income
+export const transactions = pgTable("transactions", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  expenseId: integer("expense_id").references(() => expenses.id, { onDelete: 'cascade' }),
+  incomeId: integer("income_id").references(() => incomes.id, { onDelete: 'cascade' }),
+  // The occurrence's original date, as overrides are keyed
+  occurrenceDate: date("occurrence_date").notNull(),
+  date: date("date").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  createdAt: date("created_at").defaultNow()
+}, (table) => [unique().on(table.expenseId, table.occurrenceDate), unique().on(table.incomeId, table.occurrenceDate)]);
+
+// A spending limit for one category per budget period. Thresholds are percentages of the
+// limit; the dashboard warns once planned or actual spending reaches one. Rollover says how
+// each period's leftover or overspending carries into the next, from the period it was created in.
+export const categoryBudgets = pgTable("category_budgets", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: 'cascade' }).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  period: varchar("period", { length: 20 }).notNull(),
+  thresholds: jsonb("thresholds").$type<number[]>().notNull(),
+  rollover: varchar("rollover", { length: 20 }).default('NONE').notNull(),
+  createdAt: date("created_at").defaultNow(),
+  updatedAt: date("updated_at").defaultNow()
+}, (table) => [unique().on(table.categoryId)]);
+
+// Part of a month's expected income assigned to a category (categoryId set) or to savings
+// or the buffer (categoryId null); month is 'yyyy-MM'
+export const monthAllocations = pgTable("month_allocations", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  month: varchar("month", { length: 7 }).notNull(),
+  target: varchar("target", { length: 20 }).notNull(),
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: 'cascade' }),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  createdAt: date("created_at").defaultNow(),
+  updatedAt: date("updated_at").defaultNow()
+});
+
+// A month the household has closed; zero-based households can only close a month once
+// everything is assigned
+export const monthCloses = pgTable("month_closes", {
+  id: serial("id").primaryKey(),
+  householdId: integer("household_id").references(() => households.id, { onDelete: 'cascade' }).notNull(),
+  month: varchar("month", { length: 7 }).notNull(),
+  closedBy: integer("closed_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: date("created_at").defaultNow()
+}, (table) => [unique().on(table.householdId, table.month)]);
+
 // ======================
 // Base Types
 // ======================
+export type User = typeof users.$inferSelect;
+// Never send the password hash to the client
+export type SafeUser = Omit<User, 'password'>;
+export type Household = typeof households.$inferSelect;
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type HouseholdInvitation = typeof householdInvitations.$inferSelect;
 export type Category = typeof categories.$inferSelect;
+export type Account = typeof accounts.$inferSelect;
+export type Goal = typeof goals.$inferSelect;
 export type Expense = typeof expenses.$inferSelect;
+export type Debt = typeof debts.$inferSelect;
 export type Income = typeof incomes.$inferSelect;
+export type OccurrenceOverride = typeof occurrenceOverrides.$inferSelect;
+export type Transaction = typeof transactions.$inferSelect;
+export type ItemChange = typeof itemChanges.$inferSelect;
+export type CategoryBudget = typeof categoryBudgets.$inferSelect;
+export type MonthAllocation = typeof monthAllocations.$inferSelect;
+export type MonthClose = typeof monthCloses.$inferSelect;
 
 // ======================
 // Frontend Types (with string dates)
@@ -77,6 +335,21 @@ export interface FrontendIncome extends Omit<Income, 'date'|'createdAt'|'updated
   updatedAt: string;
 }
 
+// Active household as seen by the logged-in member
+export interface HouseholdDetails extends Household {
+  role: HouseholdRoleType;
+  members: { userId: number; username: string; role: HouseholdRoleType }[];
+}
+
+// Pending invitation as seen by the invited user
+export interface PendingInvitation {
+  id: number;
+  householdId: number;
+  householdName: string;
+  role: HouseholdRoleType;
+  invitedBy: string;
+}
+
 // ======================
 // Report Types
 // ======================
@@ -97,24 +370,175 @@ export interface ProcessedIncome extends FrontendIncome {
 // ======================
 // Validation Schemas
 // ======================
+export const insertUserSchema = z.object({
+  username: z.string().trim().min(3, 'Username must be at least 3 characters').max(50),
+  password: z.string().min(8, 'Password must be at least 8 characters').max(128)
+});
+
+export const insertHouseholdSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  zeroBased: z.boolean().optional()
+});
+
+const signedAmount = z.string().regex(/^-?\d+(\.\d{1,2})?$/, 'Enter an amount like 1500 or -20.50');
+
+export const forecastSettingsSchema = z.object({
+  startingBalance: signedAmount,
+  startingBalanceDate: z.coerce.date(),
+  lowBalanceThreshold: signedAmount
+});
+
+export const insertInvitationSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required').max(50),
+  role: HouseholdRole
+});
+
 export const insertCategorySchema = z.object({
   name: z.string(),
   color: z.string(),
   icon: z.string()
 });
 
+export const insertAccountSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  type: AccountType,
+  openingBalance: signedAmount.default('0'),
+  openingDate: z.coerce.date(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Use a three-letter currency code like USD').default('USD')
+});
+
+export const insertGoalSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  targetAmount: z.string().refine((amount) => Number(amount) > 0, { message: 'Target must be more than zero' }),
+  // Forms send Date objects, the API receives 'yyyy-MM-dd' strings
+  targetDate: z.coerce.date(),
+  balance: z.string().refine((amount) => Number(amount) >= 0, { message: 'Balance cannot be negative' }).default('0'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value')
+});
+
 export const insertExpenseSchema = z.object({
   name: z.string(),
   amount: z.string(),
-  date: z.date(),
+  // Forms send Date objects, the API receives 'yyyy-MM-dd' strings
+  date: z.coerce.date(),
   frequency: z.string(),
-  categoryId: z.number()
+  recurrence: recurrenceRuleSchema.nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  occurrenceCount: z.number().int().positive().nullable().optional(),
+  amountSchedule: amountScheduleSchema.nullable().optional(),
+  categoryId: z.number(),
+  goalId: z.number().int().nullable().optional(),
+  sinkingFund: z.boolean().optional(),
+  accountId: z.number().int().nullable().optional()
+});
+
+const debtAmount = (message: string) => z.string().refine((amount) => Number(amount) > 0, { message });
+
+export const insertDebtSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  principal: debtAmount('Balance must be greater than zero'),
+  apr: z.string().refine((apr) => Number(apr) >= 0 && Number(apr) < 1000, { message: 'APR must be between 0 and 999.99' }),
+  minimumPayment: debtAmount('Minimum payment must be greater than zero'),
+  extraPayment: z.string().refine((amount) => Number(amount) >= 0, { message: 'Extra payment cannot be negative' }).default('0'),
+  firstPaymentDate: z.coerce.date(),
+  categoryId: z.number().int()
+});
+
+export const debtStrategySchema = z.object({
+  strategy: DebtStrategy
 });
 
 export const insertIncomeSchema = z.object({
   name: z.string(),
   amount: z.string(),
-  date: z.date(),
+  // Forms send Date objects, the API receives 'yyyy-MM-dd' strings
+  date: z.coerce.date(),
   frequency: z.string(),
-  source: z.string().optional()
-});
\ No newline at end of file
+  recurrence: recurrenceRuleSchema.nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  occurrenceCount: z.number().int().positive().nullable().optional(),
+  amountSchedule: amountScheduleSchema.nullable().optional(),
+  source: z.string().optional(),
+  accountId: z.number().int().nullable().optional()
+});
+
+// Edits to amount, frequency or date take effect on effectiveDate (today when omitted);
+// earlier occurrences keep the old values
+export const updateExpenseSchema = insertExpenseSchema.partial().extend({
+  effectiveDate: z.coerce.date().optional()
+});
+
+export const updateIncomeSchema = insertIncomeSchema.partial().extend({
+  effectiveDate: z.coerce.date().optional()
+});
+
+export const insertOccurrenceOverrideSchema = z.object({
+  expenseId: z.number().int().optional(),
+  incomeId: z.number().int().optional(),
+  originalDate: z.coerce.date(),
+  skipped: z.boolean().default(false),
+  date: z.coerce.date().nullable().optional(),
+  amount: z.string().nullable().optional()
+}).refine((override) => (override.expenseId === undefined) !== (override.incomeId === undefined), {
+  message: 'Exactly one of expenseId and incomeId is required'
+});
+
+export const insertTransactionSchema = z.object({
+  expenseId: z.number().int().optional(),
+  incomeId: z.number().int().optional(),
+  occurrenceDate: z.coerce.date(),
+  date: z.coerce.date(),
+  amount: z.string()
+}).refine((transaction) => (transaction.expenseId === undefined) !== (transaction.incomeId === undefined), {
+  message: 'Exactly one of expenseId and incomeId is required'
+});
+
+// Saving a budget for a category that already has one replaces it
+export const insertCategoryBudgetSchema = z.object({
+  categoryId: z.number().int(),
+  amount: z.string().refine((amount) => Number(amount) > 0, { message: 'Limit must be more than zero' }),
+  period: BudgetPeriod.default('MONTHLY'),
+  thresholds: z.array(z.number().int().min(1).max(1000)).max(5).default([80, 100])
+    .transform((thresholds) => Array.from(new Set(thresholds)).sort((a, b) => a - b)),
+  rollover: RolloverPolicy.default('NONE')
+});
+
+export const monthKeySchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be yyyy-MM');
+
+// Saving an allocation for a target the month already has replaces its amount
+export const insertMonthAllocationSchema = z.object({
+  target: AllocationTarget,
+  categoryId: z.number().int().optional(),
+  amount: z.string().refine((amount) => Number(amount) >= 0, { message: 'Amount cannot be negative' })
+}).refine((allocation) => (allocation.target === 'CATEGORY') === (allocation.categoryId !== undefined), {
+  message: 'categoryId is required for category allocations and only for them'
+});
+
+// "This and all future occurrences": the series stops before fromDate and a copy
+// carrying the changes takes over from there
+export const seriesSplitSchema = z.object({
+  fromDate: z.coerce.date(),
+  // The copy's first date and amount; omitted values are kept
+  date: z.coerce.date().optional(),
+  amount: z.string().optional(),
+  // Stops the series without a copy
+  stop: z.boolean().optional()
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertHousehold = z.infer<typeof insertHouseholdSchema>;
+export type ForecastSettings = z.infer<typeof forecastSettingsSchema>;
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type InsertGoal = z.infer<typeof insertGoalSchema>;
+export type InsertExpense = z.infer<typeof insertExpenseSchema>;
+export type InsertDebt = z.infer<typeof insertDebtSchema>;
+export type InsertIncome = z.infer<typeof insertIncomeSchema>;
+export type UpdateExpense = z.infer<typeof updateExpenseSchema>;
+export type UpdateIncome = z.infer<typeof updateIncomeSchema>;
+export type InsertOccurrenceOverride = z.infer<typeof insertOccurrenceOverrideSchema>;
+export type SeriesSplit = z.infer<typeof seriesSplitSchema>;
+export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type InsertCategoryBudget = z.infer<typeof insertCategoryBudgetSchema>;
+export type InsertMonthAllocation = z.infer<typeof insertMonthAllocationSchema>;
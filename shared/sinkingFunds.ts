@@ -0,0 +1,71 @@
+import { addMonths, differenceInCalendarMonths, format, startOfMonth } from 'date-fns';
+import { localDateKey, type OccurrenceRow } from './occurrences';
+import type { Expense } from './schema';
+
+// ======================
+// Sinking Funds
+// ======================
+// A non-monthly expense saved for month by month: each month between one occurrence and the
+// next sets aside an equal share of the next one, so the fund is full in the month it is due.
+
+// Frequencies that can be accrued; anything monthly or more often already spreads itself out
+export const SINKING_FUND_FREQUENCIES = ['QUARTERLY', 'SEMI_ANNUAL', 'YEARLY', 'ONCE', 'CUSTOM'];
+
+// How far around a month to look for the occurrences a fund saves between
+export const SINKING_FUND_LOOKAROUND_MONTHS = 24;
+
+export interface SinkingFund {
+  expense: Expense;
+  // The occurrence being saved for
+  dueDate: string;
+  dueAmount: number;
+  setAside: number;
+  // Saved by the end of the month, including its own set-aside
+  balance: number;
+  // End-of-month balance from the first month saving toward dueDate through the due month
+  schedule: { month: string; balance: number }[];
+}
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+// 'yyyy-MM-dd' as a local day
+const parsedDay = (day: string) => {
+  const [year, month, dayOfMonth] = day.split('-').map(Number);
+  return new Date(year, month - 1, dayOfMonth);
+};
+
+// The fund as of date's month, or null when no occurrence is due within the rows. Saving
+// starts the month after the previous occurrence; before the first one, the month the
+// expense was added.
+export function sinkingFundOf(expense: Expense, rows: OccurrenceRow[], date: Date): SinkingFund | null {
+  const month = startOfMonth(date);
+  const occurrences = rows
+    .filter((row) => row.kind === 'expense' && row.itemId === expense.id)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const nextIndex = occurrences.findIndex((row) => row.date >= localDateKey(month));
+  if (nextIndex === -1) return null;
+
+  const next = occurrences[nextIndex];
+  const dueMonth = startOfMonth(parsedDay(next.date));
+  const previous = occurrences[nextIndex - 1];
+  let start = previous
+    ? addMonths(startOfMonth(parsedDay(previous.date)), 1)
+    : startOfMonth(expense.createdAt ? parsedDay(expense.createdAt) : month);
+  if (start > dueMonth) start = dueMonth;
+
+  const months = differenceInCalendarMonths(dueMonth, start) + 1;
+  const setAside = next.amount / months;
+  const elapsed = Math.min(months, Math.max(0, differenceInCalendarMonths(month, start) + 1));
+
+  return {
+    expense,
+    dueDate: next.date,
+    dueAmount: next.amount,
+    setAside: toCents(setAside),
+    balance: toCents(setAside * elapsed),
+    schedule: Array.from({ length: months }, (_, index) => ({
+      month: format(addMonths(start, index), 'yyyy-MM'),
+      balance: toCents(setAside * (index + 1)),
+    })),
+  };
+}